@@ -6,26 +6,62 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { HeroScene } from './components/FinancialScene';
 import { MarketTrendChart, ForecastChart, VarianceChart, WaterfallChart } from './components/FinancialCharts';
-import { ArrowDown, Menu, X, Upload, TrendingUp, AlertTriangle, Activity, DollarSign, FileSpreadsheet, Cpu, Loader2, Terminal, ChevronUp, ChevronDown, CheckCircle2, Info, Layers } from 'lucide-react';
+import { ArrowDown, Menu, X, Upload, TrendingUp, AlertTriangle, Activity, DollarSign, FileSpreadsheet, Cpu, Loader2, Terminal, ChevronUp, ChevronDown, CheckCircle2, Info, Layers, ShieldCheck, Table2, GitCompare, FolderOpen, FileDown, FileUp, Link2 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-
-// Declare global Pyodide types & SheetJS
+import { ImportDialog } from './components/ImportDialog';
+import { MappingDialog } from './components/MappingDialog';
+import { PeriodControls } from './components/PeriodControls';
+import { IntegrityPanel } from './components/IntegrityPanel';
+import { DataGrid, CellEdit } from './components/DataGrid';
+import { EntityBar } from './components/EntityBar';
+import { EntityComparison } from './components/EntityComparison';
+import { WorkspaceDialog } from './components/WorkspaceDialog';
+import { BacktestPanel } from './components/BacktestPanel';
+import { MonteCarloPanel } from './components/MonteCarloPanel';
+import { DriverPanel } from './components/DriverPanel';
+import { OverridePanel } from './components/OverridePanel';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { ParityBadge } from './components/ParityBadge';
+import { StructurePanel } from './components/StructurePanel';
+import { WaccPanel } from './components/WaccPanel';
+import { SensitivityTable } from './components/SensitivityTable';
+import { FinancialRecord, ParseIssue, Entity, DCFAssumptions, DCFStructure, WaccInputs, DriverSchedule, ForecastOverride, OverrideLogEntry } from './types';
+import { readCSVTable, tableToRecords, RawTable } from './lib/csv';
+import { readWorkbook, readSheetTable, SheetImportOptions } from './lib/workbook';
+import { PeriodSettings, DEFAULT_PERIOD_SETTINGS, FLOW_FIELDS, toPeriodView, formatPeriod, futurePeriods, availableGranularities } from './lib/periods';
+import { RuleConfig, defaultRuleConfig, runIntegrityScan, periodKey, numericColumns } from './lib/integrity';
+import { useUndoableState } from './lib/history';
+import { DCFResult, WaterfallStep, EMPTY_DCF, DEFAULT_DCF_STRUCTURE, TERMINAL_METHODS, DCF_PY, computeDCF, dcfCalendar, valuationTiming, fiscalDate, toWaterfall, terminalLabel, SensitivitySettings, DEFAULT_SENSITIVITY, SENSITIVITY_AXES, dcfSensitivity, projectionHorizon } from './lib/dcf';
+import { DRIVERS_PY, buildProjection } from './lib/drivers';
+import { computeMarketMetrics, formatMarketMetrics } from './lib/metrics';
+import { ForecastModel, FORECAST_MODELS, DEFAULT_FORECAST_MODEL, FORECAST_PY, fitForecast, forecastModelLabel, ConeMode, CONFIDENCE_LEVELS, DEFAULT_CONFIDENCE, MAX_FORECAST_HORIZON, ForecastPoint, ForecastSeries, toForecastRows, summarizeDiagnostics } from './lib/forecast';
+import { STATS_PY } from './lib/stats';
+import { computeWacc, summarizeWacc } from './lib/wacc';
+import { usePythonEngine } from './lib/pythonEngine';
+import { ParityJob, ParityReport, compareEngines, describeParity } from './lib/parity';
+import { Insight, generateCommentary } from './lib/commentary';
+import { OverrideChange, applyOverrides, setOverride, fcfOverrideDeltas, withFcfOverrides, findOverride, loadAnalyst, saveAnalyst } from './lib/overrides';
+import { SimulationInputs, SimulationResult, SimulationValuation, MONTE_CARLO_PY, simulationBase, defaultSimulationInputs, validateSimulationInputs, runSimulation, EMPTY_SIMULATION } from './lib/montecarlo';
+import { WorkspaceSnapshot, StoredWorkspace, AUTOSAVE_ID, getWorkspace, putWorkspace } from './lib/workspace';
+import { FinancialModel, MODEL_FILE_EXTENSION, serializeModel, readModelFile } from './lib/modelFile';
+import { UrlState, encodeUrlState, encodeDataset, readUrlState } from './lib/urlState';
+import { ColumnMapping, applyMapping, findProfileForHeaders, suggestMapping, mappingFromSuggestions, isIdentityMapping, missingFields } from './lib/mapping';
+
+// Declare global SheetJS types (Pyodide lives in a worker, see lib/pythonEngine)
 declare global {
   interface Window {
-    loadPyodide: any;
-    pyodide: any;
     XLSX: any;
   }
 }
 
-// --- TYPES ---
-interface FinancialRecord {
-  Year: number;
-  Revenue: number;
-  'Net Income': number;
-  'Free Cash Flow': number;
-  Budget: number;
-  [key: string]: number;
+const TABS = ['market', 'forecast', 'risk', 'valuation', 'compare', 'integrity', 'data'] as const;
+type Tab = typeof TABS[number];
+
+// A table that has been read from a file but not yet mapped onto FinancialRecord fields
+interface PendingTable {
+  table: RawTable;
+  sourceName: string;
+  errors: ParseIssue[];
 }
 
 // --- MOCK DATA GENERATOR ---
@@ -45,27 +81,30 @@ const generateSampleData = (): FinancialRecord[] => {
   });
 };
 
-// --- HELPER: CSV PARSER ---
-const parseCSV = (text: string): FinancialRecord[] => {
-    const lines = text.split('\n').filter(l => l.trim());
-    if (lines.length < 2) return [];
-    
-    const headers = lines[0].split(',').map(h => h.trim().replace(/['"]+/g, ''));
-    
-    return lines.slice(1).map(line => {
-        const values = line.split(',');
-        const obj: any = {};
-        headers.forEach((h, i) => {
-            const val = values[i]?.trim();
-            // Convert to number if possible, otherwise keep string
-            obj[h] = isNaN(Number(val)) ? val : Number(val);
-        });
-        
-        // Ensure critical fields exist or default them
-        if (!obj.Budget && obj.Revenue) obj.Budget = Math.round(obj.Revenue * 0.95);
-        
-        return obj as FinancialRecord;
-    });
+const DEFAULT_ASSUMPTIONS: DCFAssumptions = { wacc: 10, termGrowth: 2.5, netDebt: 150, shares: 50 };
+
+const createEntity = (id: string, name: string, data: FinancialRecord[]): Entity => ({
+  id,
+  name,
+  data,
+  synthesizedBudget: [],
+  assumptions: { ...DEFAULT_ASSUMPTIONS },
+});
+
+// Default entity names stay distinct: the next free letter, else a numeric suffix on the base name
+const uniqueEntityName = (base: string, entities: Entity[]): string => {
+  const taken = new Set(entities.map(e => e.name));
+  if (!taken.has(base)) return base;
+  for (let n = 2; ; n++) if (!taken.has(`${base} ${n}`)) return `${base} ${n}`;
+};
+
+const nextEntityName = (entities: Entity[]): string => {
+  const taken = new Set(entities.map(e => e.name));
+  for (let i = 0; i < 26; i++) {
+    const name = `Entity ${String.fromCharCode(65 + i)}`;
+    if (!taken.has(name)) return name;
+  }
+  return uniqueEntityName('Entity', entities);
 };
 
 // --- COMPONENTS ---
@@ -106,39 +145,32 @@ const ToolDescription = ({ context, utility }: { context: string, utility: strin
     </div>
 );
 
-const StrategicInsight = ({ metric, data, horizon }: { metric: string, data: any[], horizon: number }) => {
-    const insight = useMemo(() => {
-        if (data.length < 2) return "Insufficient data for analysis.";
-        
-        // Find start (last historical) and end (last forecast)
-        const history = data.filter(d => d.Historical !== null && d.Historical !== undefined);
-        const forecast = data.filter(d => d.Forecast !== null && d.Forecast !== undefined);
-        
-        if (history.length === 0 || forecast.length === 0) return "Model initialization required.";
-
-        const startVal = history[history.length - 1].Historical;
-        const endVal = forecast[forecast.length - 1].Forecast;
-        
-        const cagr = (Math.pow(endVal / startVal, 1 / horizon) - 1) * 100;
-        const direction = cagr > 0 ? "expansion" : "contraction";
-        const strength = Math.abs(cagr) > 10 ? "aggressive" : Math.abs(cagr) > 5 ? "moderate" : "stable";
-
-        return `Based on the linear projection model, ${metric} is signaling a ${strength} ${direction} phase, with an implied Compound Annual Growth Rate (CAGR) of ${cagr.toFixed(2)}% over the next ${horizon} years. The projected terminal value of $${endVal.toLocaleString()} assumes current market conditions persist without significant regulatory or macroeconomic disruption.`;
-    }, [data, metric, horizon]);
-
-    return (
-        <div className="bg-stone-50 border border-stone-200 p-6 mt-6">
-            <h4 className="font-bold text-[10px] uppercase tracking-widest text-black mb-3 flex items-center gap-2">
-                <Layers size={12} /> Automated Strategic Commentary
-            </h4>
-            <p className="text-sm text-stone-800 leading-relaxed font-serif italic">
-                "{insight}"
-            </p>
-        </div>
-    )
-}
+// Commentary from lib/commentary. Each sentence lists the figures that triggered it.
+const StrategicInsight = ({ insights }: { insights: Insight[] }) => (
+    <div className="bg-stone-50 border border-stone-200 p-6 mt-6">
+        <h4 className="font-bold text-[10px] uppercase tracking-widest text-black mb-3 flex items-center gap-2">
+            <Layers size={12} /> Automated Strategic Commentary
+        </h4>
+        {insights.length === 0 ? (
+            <p className="text-sm text-stone-500 font-serif italic">Model initialization required.</p>
+        ) : (
+            <ul className="space-y-4">
+                {insights.map(insight => (
+                    <li key={insight.ruleId} className={`pl-3 border-l-2 ${insight.tone === 'caution' ? 'border-black' : insight.tone === 'positive' ? 'border-stone-400' : 'border-stone-200'}`}>
+                        <p className="text-sm text-stone-800 leading-relaxed font-serif italic">{insight.text}</p>
+                        <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-[10px] text-stone-500 font-mono">
+                            {insight.evidence.map(e => (
+                                <span key={e.label} title={`Source: ${e.source}`}>{e.label}: <span className="text-black">{e.value}</span></span>
+                            ))}
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+);
 
-const SystemConsole = ({ logs, status, expanded, setExpanded }: { logs: string[], status: string, expanded: boolean, setExpanded: (v: boolean) => void }) => (
+const SystemConsole = ({ logs, status, expanded, setExpanded, parityMode, onToggleParity }: { logs: string[], status: string, expanded: boolean, setExpanded: (v: boolean) => void, parityMode: boolean, onToggleParity: () => void }) => (
     <div className={`fixed bottom-0 left-0 right-0 bg-black border-t border-stone-800 transition-all duration-300 z-50 ${expanded ? 'h-64' : 'h-9'}`}>
         <div 
             className="h-9 px-4 flex items-center justify-between cursor-pointer hover:bg-stone-900"
@@ -152,6 +184,13 @@ const SystemConsole = ({ logs, status, expanded, setExpanded }: { logs: string[]
                 </span>
             </div>
             <div className="flex items-center gap-3">
+                <button
+                    onClick={e => { e.stopPropagation(); onToggleParity(); }}
+                    title="Re-run every NumPy job in the JS fallback and diff the outputs"
+                    className={`text-[9px] px-2 py-px rounded-sm font-bold tracking-wider uppercase border transition-colors ${parityMode ? 'bg-white text-black border-white' : 'text-stone-500 border-stone-700 hover:text-white hover:border-white'}`}
+                >
+                    Parity Check {parityMode ? 'On' : 'Off'}
+                </button>
                 <span className="text-[10px] text-stone-500 uppercase hidden sm:inline tracking-widest">Python Runtime Environment</span>
                 {expanded ? <ChevronDown size={12} className="text-white" /> : <ChevronUp size={12} className="text-white" />}
             </div>
@@ -176,11 +215,25 @@ const SystemConsole = ({ logs, status, expanded, setExpanded }: { logs: string[]
 
 const App: React.FC = () => {
   const [scrolled, setScrolled] = useState(false);
-  const [activeTab, setActiveTab] = useState<'market' | 'forecast' | 'risk' | 'valuation'>('market');
-  const [data, setData] = useState<FinancialRecord[]>(generateSampleData());
+  const [activeTab, setActiveTab] = useState<Tab>('market');
+  const [data, setData, dataHistory] = useUndoableState<FinancialRecord[]>(generateSampleData);
   
+  // -- PERIOD STATE --
+  const [periodSettings, setPeriodSettings] = useState<PeriodSettings>(DEFAULT_PERIOD_SETTINGS);
+  const periodView = useMemo(() => toPeriodView(data, periodSettings), [data, periodSettings]);
+  const periodData = periodView.records;
+  const periodsPerYear = periodView.periodsPerYear;
+  const isTTM = periodSettings.rollup === 'ttm' && periodsPerYear > 1;
+  const periodLabel = (t: number) => formatPeriod(t, periodView.granularity);
+  
+  // -- INTEGRITY STATE --
+  const [integrityConfig, setIntegrityConfig] = useState<Record<string, RuleConfig>>(defaultRuleConfig);
+  const [synthesizedBudget, setSynthesizedBudget] = useState<string[]>([]);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
+  const [notes, setNotes] = useState('');
+  const integrityReport = useMemo(() => runIntegrityScan(data, integrityConfig, { synthesizedBudget }), [data, integrityConfig, synthesizedBudget]);
+
   // -- PYTHON STATE --
-  const [pythonStatus, setPythonStatus] = useState<'loading' | 'ready' | 'error'>('loading');
   const [pythonLogs, setPythonLogs] = useState<string[]>([]);
   const [showLogs, setShowLogs] = useState(false);
   
@@ -188,7 +241,27 @@ const App: React.FC = () => {
   const [forecastHorizon, setForecastHorizon] = useState(5);
   const [forecastMetric, setForecastMetric] = useState<string>('Revenue');
   const [forecastSensitivity, setForecastSensitivity] = useState(10); // +/- 10%
-  const [forecastData, setForecastData] = useState<any[]>([]);
+  const [forecastModel, setForecastModel] = useState<ForecastModel>(DEFAULT_FORECAST_MODEL);
+  const [coneMode, setConeMode] = useState<ConeMode>('interval');
+  const [confidenceLevel, setConfidenceLevel] = useState(DEFAULT_CONFIDENCE);
+  const [extraMetrics, setExtraMetrics] = useState<string[]>([]); // Forecast alongside the target metric
+  const [forecastSeries, setForecastSeries] = useState<ForecastSeries[]>([]);
+  // Any numeric column of the dataset can be forecast; the target metric's series drives the commentary and backtest
+  const metricOptions = useMemo(() => numericColumns(data), [data]);
+  const forecastMetrics = useMemo(
+      () => [forecastMetric, ...extraMetrics.filter(m => m !== forecastMetric && metricOptions.includes(m))],
+      [forecastMetric, extraMetrics, metricOptions]
+  );
+  // Analyst overrides of individual forecast periods, with the log of who changed what
+  const [overrides, setOverrides] = useState<ForecastOverride[]>([]);
+  const [overrideLog, setOverrideLog] = useState<OverrideLogEntry[]>([]);
+  const [analyst, setAnalyst] = useState(loadAnalyst);
+  // The forecast everything downstream sees: model output with the overrides applied
+  const adjustedSeries = useMemo(() => applyOverrides(forecastSeries, overrides), [forecastSeries, overrides]);
+  const primarySeries = adjustedSeries.find(s => s.metric === forecastMetric);
+  const plottedSeries = adjustedSeries.filter(s => s.rows.length > 0);
+  const failedSeries = adjustedSeries.filter(s => s.error);
+  const noIntervalSeries = plottedSeries.filter(s => s.rows[s.rows.length - 1].High === null).map(s => s.metric);
   const [computeSource, setComputeSource] = useState<'Python/NumPy' | 'JS Fallback' | null>(null);
 
   // -- RISK STATE --
@@ -196,58 +269,140 @@ const App: React.FC = () => {
   const [baseCost, setBaseCost] = useState(80000);
 
   // -- VALUATION STATE --
-  const [wacc, setWacc] = useState(10);
-  const [termGrowth, setTermGrowth] = useState(2.5);
-  const [netDebt, setNetDebt] = useState(150);
-  const [shares, setShares] = useState(50);
-  const [valuationResult, setValuationResult] = useState<{sharePrice: number, waterfall: any[]}>({ sharePrice: 0, waterfall: [] });
+  const [wacc, setWacc] = useState(DEFAULT_ASSUMPTIONS.wacc);
+  const [termGrowth, setTermGrowth] = useState(DEFAULT_ASSUMPTIONS.termGrowth);
+  const [netDebt, setNetDebt] = useState(DEFAULT_ASSUMPTIONS.netDebt);
+  const [shares, setShares] = useState(DEFAULT_ASSUMPTIONS.shares);
+  // CAPM build-up behind `wacc`; null = WACC entered directly
+  const [waccInputs, setWaccInputs] = useState<WaccInputs | null>(null);
+  // Stage layout: explicit horizon, fade period and terminal value method
+  const [valuationStructure, setValuationStructure] = useState<DCFStructure>(DEFAULT_DCF_STRUCTURE);
+  const [valuationResult, setValuationResult] = useState<DCFResult & { waterfall: WaterfallStep[] }>({ ...EMPTY_DCF, waterfall: [] });
   const [valuationSource, setValuationSource] = useState<'Python/NumPy' | 'JS Fallback' | null>(null);
+  const [sensitivitySettings, setSensitivitySettings] = useState<SensitivitySettings>(DEFAULT_SENSITIVITY);
+  // Projection drivers the user has edited; null = fitted from history
+  const [driverEdits, setDriverEdits] = useState<DriverSchedule | null>(null);
+
+  // -- MONTE CARLO STATE --
+  // Until the user edits them, the simulation inputs are fitted from history and the DCF assumptions
+  const [simulationEdits, setSimulationEdits] = useState<SimulationInputs | null>(null);
+  const [simulationResult, setSimulationResult] = useState<SimulationResult | null>(null);
+  const [simulationSource, setSimulationSource] = useState<'Python/NumPy' | 'JS Fallback' | null>(null);
+  
+  const dcfAssumptions = useMemo<DCFAssumptions>(
+      () => ({ wacc, termGrowth, netDebt, shares, structure: valuationStructure, waccBuilder: waccInputs }),
+      [wacc, termGrowth, netDebt, shares, valuationStructure, waccInputs]
+  );
+  
+  // -- ENTITY STATE --
+  // The active entity lives in the working state above; `entities` holds snapshots of the others.
+  const [entities, setEntities] = useState<Entity[]>(() => [createEntity('entity-1', 'Entity A', [])]);
+  const [activeEntityId, setActiveEntityId] = useState('entity-1');
+  const workspaceEntities = useMemo(() => entities.map(e => e.id === activeEntityId
+      ? { ...e, data, synthesizedBudget, columnMapping: columnMapping || undefined, notes, assumptions: dcfAssumptions, drivers: driverEdits || undefined, overrides, overrideLog }
+      : e
+  ), [entities, activeEntityId, data, synthesizedBudget, columnMapping, notes, dcfAssumptions, driverEdits, overrides, overrideLog]);
+  const comparisonForecast = useMemo(
+      () => ({ metrics: forecastMetrics, model: forecastModel, horizon: forecastHorizon }),
+      [forecastMetrics, forecastModel, forecastHorizon]
+  );
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const modelInputRef = useRef<HTMLInputElement>(null);
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ workbook: any, fileName: string } | null>(null);
+  const [pendingTable, setPendingTable] = useState<PendingTable | null>(null);
+
+  // -- WORKSPACE PERSISTENCE --
+  const [workspaceRestored, setWorkspaceRestored] = useState(false);
+  const [workspaceName, setWorkspaceName] = useState<string | null>(null);
+  const [showWorkspaces, setShowWorkspaces] = useState(false);
+  const [linkApplied, setLinkApplied] = useState(false);
+  const workspaceSnapshot = useMemo<WorkspaceSnapshot>(() => ({
+      entities: workspaceEntities,
+      activeEntityId,
+      activeTab,
+      periodSettings,
+      integrityConfig,
+      forecast: { metric: forecastMetric, extraMetrics, horizon: forecastHorizon, sensitivity: forecastSensitivity, model: forecastModel, cone: coneMode, confidence: confidenceLevel },
+      risk: { baseRev, baseCost },
+      simulation: simulationEdits,
+      sensitivityTable: sensitivitySettings,
+  }), [workspaceEntities, activeEntityId, activeTab, periodSettings, integrityConfig, forecastMetric, extraMetrics, forecastHorizon, forecastSensitivity, forecastModel, coneMode, confidenceLevel, baseRev, baseCost, simulationEdits, sensitivitySettings]);
 
   const addLog = (msg: string) => setPythonLogs(prev => [...prev, msg]);
 
-  // Initialize Pyodide
+  // Python runtime, in a worker so model runs never block the UI
+  const { status: pythonStatus, run: runPython } = usePythonEngine(addLog);
+
+  // Parity mode: every NumPy result is recomputed by the JS fallback and the two are diffed
+  const [parityMode, setParityMode] = useState(false);
+  const [parity, setParity] = useState<Partial<Record<ParityJob, ParityReport>>>({});
+  const checkParity = (job: ParityJob, python: unknown, js: unknown) => {
+      const report = compareEngines(job, python, js);
+      setParity(prev => ({ ...prev, [job]: report }));
+      addLog(describeParity(report));
+  };
+  // Nothing to compare when the fallback produced the result itself
+  const clearParity = (job: ParityJob) => setParity(prev => prev[job] ? { ...prev, [job]: undefined } : prev);
+  const toggleParityMode = () => {
+      if (parityMode) setParity({});
+      addLog(`Parity mode ${parityMode ? 'off' : 'on'}`);
+      setParityMode(!parityMode);
+  };
+
+  // Restore the last session before autosave is allowed to overwrite it
   useEffect(() => {
-    const initPython = async () => {
-        try {
-            if (!window.loadPyodide) {
-                return;
-            }
-            addLog("Initializing Pyodide runtime...");
-            const pyodide = await window.loadPyodide();
-            addLog("Python WASM loaded successfully");
-            
-            addLog("Loading NumPy package...");
-            await pyodide.loadPackage("numpy");
-            addLog("NumPy library loaded");
-            
-            window.pyodide = pyodide;
-            setPythonStatus('ready');
-            addLog("Kernel ready for execution");
-        } catch (e: any) {
-            console.error("Failed to load Python:", e);
-            setPythonStatus('error');
-            addLog(`Critical Error: ${e.message}`);
-        }
-    };
-    
-    let attempts = 0;
-    const interval = setInterval(() => {
-        attempts++;
-        if (window.loadPyodide) {
-            clearInterval(interval);
-            initPython();
-        } else if (attempts > 20) {
-            clearInterval(interval);
-            setPythonStatus('error');
-            addLog("Timeout: Pyodide script failed to load from CDN");
-        }
-    }, 500);
-    
-    return () => clearInterval(interval);
+      getWorkspace(AUTOSAVE_ID)
+          .then(saved => {
+              if (!saved) return;
+              applySnapshot(saved.snapshot);
+              setWorkspaceName(saved.name || null);
+              addLog(`Workspace restored from local storage (saved ${new Date(saved.savedAt).toLocaleString()})`);
+          })
+          .catch(err => addLog(`Storage Error: could not restore workspace - ${err.message}`))
+          .finally(() => setWorkspaceRestored(true));
   }, []);
 
+  // Debounced autosave of the whole workspace
+  useEffect(() => {
+      if (!workspaceRestored) return;
+      const timeout = setTimeout(() => {
+          putWorkspace({ id: AUTOSAVE_ID, name: workspaceName || '', snapshot: workspaceSnapshot })
+              .catch(err => addLog(`Storage Error: autosave failed - ${err.message}`));
+      }, 1000);
+      return () => clearTimeout(timeout);
+  }, [workspaceSnapshot, workspaceName, workspaceRestored]);
+
+  // A shared link's state is layered over the restored workspace, once
+  useEffect(() => {
+      if (!workspaceRestored || linkApplied) return;
+      const hash = window.location.hash;
+      if (!hash) {
+          setLinkApplied(true);
+          return;
+      }
+      readUrlState(hash)
+          .then(({ state, errors }) => {
+              errors.forEach(err => addLog(`Link Error: ${err}`));
+              applyUrlState(state);
+          })
+          .finally(() => setLinkApplied(true));
+  }, [workspaceRestored]);
+
+  // Mirror the current view into the URL so the address bar is always a shareable link
+  const urlState = useMemo<Omit<UrlState, 'data'>>(() => ({
+      tab: activeTab,
+      forecast: { metric: forecastMetric, extraMetrics, horizon: forecastHorizon, sensitivity: forecastSensitivity, model: forecastModel, cone: coneMode, confidence: confidenceLevel },
+      assumptions: { wacc, termGrowth, netDebt, shares },
+      structure: valuationStructure,
+      periodSettings,
+  }), [activeTab, forecastMetric, extraMetrics, forecastHorizon, forecastSensitivity, forecastModel, coneMode, confidenceLevel, wacc, termGrowth, netDebt, shares, valuationStructure, periodSettings]);
+
+  useEffect(() => {
+      if (!linkApplied) return;
+      window.history.replaceState(null, '', `#${encodeUrlState(urlState)}`);
+  }, [urlState, linkApplied]);
+
   // Auto-scroll logs
   useEffect(() => {
       const el = document.getElementById('log-end');
@@ -263,98 +418,93 @@ const App: React.FC = () => {
 
   // --- PYTHON INTEGRATION LOGIC ---
   
-  // 1. Run Forecast Model (with Scenario Analysis)
+  // 1. Run Forecast Model (with Scenario Analysis), one series per selected metric in a single job
   useEffect(() => {
     const runForecast = async () => {
-        if (pythonStatus === 'ready' && window.pyodide) {
+        if (pythonStatus === 'ready') {
             try {
-                addLog(`Starting forecast job for ${forecastMetric} (Sensitivity: ±${forecastSensitivity}%)...`);
+                addLog(`Starting ${forecastModelLabel(forecastModel)} forecast job for ${forecastMetrics.join(', ')} (${coneMode === 'interval' ? `${confidenceLevel}% prediction interval` : `Sensitivity: ±${forecastSensitivity}%`})...`);
                 const script = `
 import numpy as np
 import json
-
-data = ${JSON.stringify(data)}
-metric = "${forecastMetric}"
+${STATS_PY}${FORECAST_PY}
+data = ${JSON.stringify(periodData)}
+metrics = ${JSON.stringify(forecastMetrics)}
+model = "${forecastModel}"
 horizon = ${forecastHorizon}
 sensitivity = ${forecastSensitivity} / 100.0
-
-years = [float(d['Year']) for d in data]
-values = [float(d[metric]) for d in data if metric in d]
-
-if len(values) > 1:
-    coef = np.polyfit(years, values, 1)
-    slope, intercept = coef
-
-    last_year = int(years[-1])
-    future_years = list(range(last_year + 1, last_year + horizon + 1))
+cone_mode = "${coneMode}"
+confidence = ${confidenceLevel} / 100.0
+ppy = ${periodsPerYear}
+
+def js_round(v):
+    # Math.round, as the JS fallback rounds: halves go up (Python's round() goes to even, int() truncates)
+    return math.floor(v + 0.5)
+
+def forecast_metric(metric):
+    points = [(float(d['Year']), float(d[metric])) for d in data if d.get(metric) is not None]
+    years = [p[0] for p in points]
+    values = [p[1] for p in points]
+    fit = fit_forecast(model, years, values, horizon * ppy, ppy, confidence) if points else {"success": False, "error": "No " + metric + " data"}
+    if not fit["success"]:
+        return {"metric": metric, "success": False, "error": fit["error"]}
+
+    last_year = years[-1]
+    future_years = [round(last_year + i / ppy, 4) for i in range(1, horizon * ppy + 1)]
     
     # Base Forecast
-    predictions = [slope * y + intercept for y in future_years]
+    predictions = fit["predictions"]
     
-    # Scenario Analysis (Bull/Bear)
     predictions_high = []
     predictions_low = []
     
-    for i, pred in enumerate(predictions):
-        # Uncertainty grows over time (widening cone)
-        # At horizon, spread is full sensitivity
-        ratio = (i + 1) / len(predictions)
-        current_spread_pct = sensitivity * ratio 
-        
-        high = pred * (1 + current_spread_pct)
-        low = pred * (1 - current_spread_pct)
-        predictions_high.append(int(high))
-        predictions_low.append(int(low))
+    if cone_mode == "interval":
+        # Prediction interval from the model residuals; none when too few periods remain
+        if "upper" in fit:
+            predictions_high = [js_round(v) for v in fit["upper"]]
+            predictions_low = [js_round(v) for v in fit["lower"]]
+        else:
+            predictions_high = [None] * len(predictions)
+            predictions_low = [None] * len(predictions)
+    else:
+        # Scenario Analysis (Bull/Bear)
+        for i, pred in enumerate(predictions):
+            # Uncertainty grows over time (widening cone)
+            # At horizon, spread is full sensitivity
+            ratio = (i + 1) / len(predictions)
+            current_spread_pct = sensitivity * ratio 
+            
+            high = pred * (1 + current_spread_pct)
+            low = pred * (1 - current_spread_pct)
+            predictions_high.append(js_round(high))
+            predictions_low.append(js_round(low))
     
-    result = {
+    return {
+        "metric": metric,
         "success": True,
         "future": [
-            {"Year": y, "Forecast": int(p), "High": h, "Low": l} 
+            {"Year": y, "Forecast": js_round(p), "High": h, "Low": l} 
             for y, p, h, l in zip(future_years, predictions, predictions_high, predictions_low)
-        ]
+        ],
+        "diagnostics": fit.get("diagnostics")
     }
-else:
-    result = {"success": False, "error": "Insufficient data"}
 
-json.dumps(result)
+json.dumps([forecast_metric(m) for m in metrics])
 `;
-                const rawOutput = await window.pyodide.runPythonAsync(script);
-                const output = JSON.parse(rawOutput);
-                
-                if (output.success) {
-                    const lastYear = data[data.length - 1].Year;
-                    const lastVal = data[data.length - 1][forecastMetric];
-                    
-                    const merged = [
-                        ...data.map(d => ({ 
-                            Year: d.Year, 
-                            Historical: d[forecastMetric], 
-                            Forecast: null, 
-                            High: null, 
-                            Low: null,
-                            Confidence: null 
-                        })),
-                        { 
-                            Year: lastYear, 
-                            Historical: lastVal, 
-                            Forecast: lastVal, 
-                            High: lastVal, 
-                            Low: lastVal,
-                            Confidence: [lastVal, lastVal] 
-                        }, 
-                        ...output.future.map((p: any) => ({ 
-                            Year: p.Year, 
-                            Historical: null, 
-                            Forecast: p.Forecast, 
-                            High: p.High, 
-                            Low: p.Low,
-                            Confidence: [p.Low, p.High] // Range Tuple for Area Chart
-                        }))
-                    ];
-                    setForecastData(merged);
-                    setComputeSource('Python/NumPy');
-                    addLog("Forecast & Scenario Analysis completed via NumPy");
-                }
+                const job = await runPython('Forecast', script);
+                if (job.cancelled) return;
+                if (!job.success) throw new Error(job.error);
+                const output = JSON.parse(job.output!);
+
+                const series: ForecastSeries[] = output.map((o: any) => o.success
+                    ? { metric: o.metric, rows: toForecastRows(periodData, o.metric, o.future), diagnostics: o.diagnostics || undefined }
+                    : { metric: o.metric, rows: [], error: o.error }
+                );
+                setForecastSeries(series);
+                setComputeSource('Python/NumPy');
+                if (parityMode) checkParity('Forecast', series, forecastMetrics.map(forecastJS));
+                output.filter((o: any) => !o.success).forEach((o: any) => addLog(`Forecast Error: ${o.metric}: ${o.error}`));
+                addLog("Forecast & Scenario Analysis completed via NumPy");
             } catch (e: any) {
                 console.error("Python Forecast Error:", e);
                 addLog(`Execution Error: ${e.message}. Switching to Fallback.`);
@@ -368,161 +518,110 @@ json.dumps(result)
         }
     };
     
-    const runJSForecast = () => {
-        const n = data.length;
-        const x = data.map(d => d.Year);
-        const y = data.map(d => d[forecastMetric] as number);
-        
-        const sumX = x.reduce((a, b) => a + b, 0);
-        const sumY = y.reduce((a, b) => a + b, 0);
-        const sumXY = x.reduce((a, b, i) => a + b * y[i], 0);
-        const sumXX = x.reduce((a, b) => a + b * b, 0);
-        
-        const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-        const intercept = (sumY - slope * sumX) / n;
-
-        const futurePoints = [];
+    const forecastJS = (metric: string): ForecastSeries => {
+        const points = periodData.filter(d => d[metric] !== undefined && d[metric] !== null);
+        const x = points.map(d => d.Year);
+        const y = points.map(d => d[metric] as number);
+        const fit = points.length
+            ? fitForecast(x, y, forecastModel, forecastHorizon * periodsPerYear, periodsPerYear, confidenceLevel / 100)
+            : { success: false, predictions: [], error: `No ${metric} data` };
+        if (!fit.success) return { metric, rows: [], error: fit.error || 'Forecast failed' };
+
+        const futurePoints: ForecastPoint[] = [];
         const lastYear = x[x.length - 1];
+        const periods = futurePeriods(lastYear, forecastHorizon * periodsPerYear, periodsPerYear);
         
-        for (let i = 1; i <= forecastHorizon; i++) {
-            const year = lastYear + i;
-            const val = slope * year + intercept;
+        for (let i = 1; i <= periods.length; i++) {
+            const year = periods[i - 1];
+            const val = fit.predictions[i - 1];
             
-            // Widening spread logic for JS fallback
-            const ratio = i / forecastHorizon;
-            const currentSpreadPct = (forecastSensitivity / 100) * ratio;
-            
-            const high = val * (1 + currentSpreadPct);
-            const low = val * (1 - currentSpreadPct);
+            let high: number | null = null;
+            let low: number | null = null;
+            if (coneMode === 'interval') {
+                if (fit.upper && fit.lower) {
+                    high = fit.upper[i - 1];
+                    low = fit.lower[i - 1];
+                }
+            } else {
+                // Widening spread logic for JS fallback
+                const ratio = i / periods.length;
+                const currentSpreadPct = (forecastSensitivity / 100) * ratio;
+                high = val * (1 + currentSpreadPct);
+                low = val * (1 - currentSpreadPct);
+            }
             
             futurePoints.push({ 
                 Year: year, 
                 Forecast: Math.round(val),
-                High: Math.round(high),
-                Low: Math.round(low)
+                High: high === null ? null : Math.round(high),
+                Low: low === null ? null : Math.round(low)
             });
         }
 
-        const lastVal = data[data.length-1][forecastMetric];
-        const chartData = [
-            ...data.map(d => ({ 
-                Year: d.Year, 
-                Historical: d[forecastMetric], 
-                Forecast: null, 
-                High: null, 
-                Low: null,
-                Confidence: null
-            })),
-            { 
-                Year: lastYear, 
-                Historical: lastVal, 
-                Forecast: lastVal, 
-                High: lastVal, 
-                Low: lastVal,
-                Confidence: [lastVal, lastVal] 
-            }, 
-            ...futurePoints.map(p => ({ 
-                Year: p.Year, 
-                Historical: null, 
-                Forecast: p.Forecast, 
-                High: p.High, 
-                Low: p.Low,
-                Confidence: [p.Low, p.High] 
-            }))
-        ];
-        setForecastData(chartData);
+        return { metric, rows: toForecastRows(periodData, metric, futurePoints), diagnostics: fit.diagnostics };
+    };
+
+    const runJSForecast = () => {
+        setForecastSeries(forecastMetrics.map(forecastJS));
         setComputeSource('JS Fallback');
+        clearParity('Forecast');
     };
 
     const timeout = setTimeout(runForecast, 200);
     return () => clearTimeout(timeout);
 
-  }, [data, forecastMetric, forecastHorizon, forecastSensitivity, pythonStatus]);
+  }, [periodData, periodsPerYear, forecastMetrics, forecastModel, forecastHorizon, forecastSensitivity, coneMode, confidenceLevel, pythonStatus, parityMode]);
+
 
+  // 2. Run Valuation Model (DCF) on the driver-based projection
+  const dcfHorizon = projectionHorizon(valuationStructure);
+  const projection = useMemo(
+      () => buildProjection(periodData, { periodsPerYear, ttm: isTTM }, driverEdits, dcfHorizon),
+      [periodData, periodsPerYear, isTTM, driverEdits, dcfHorizon]
+  );
+  // Overrides of forecast FCF move the projected FCF of the years they fall in
+  const fcfOverrides = useMemo(() => periodData.length
+      ? fcfOverrideDeltas(adjustedSeries.find(s => s.metric === 'Free Cash Flow'), periodData[periodData.length - 1].Year, { periodsPerYear, ttm: isTTM }, dcfHorizon)
+      : [], [adjustedSeries, periodData, periodsPerYear, isTTM, dcfHorizon]);
+  const fcfOverrideKey = fcfOverrides.join(',');
+  const projectedRows = useMemo(() => projection ? withFcfOverrides(projection.rows, fcfOverrides) : [], [projection, fcfOverrideKey]);
+  // Where projection year 1 starts, to place the valuation date
+  const valuationCalendar = useMemo(
+      () => dcfCalendar(periodData, periodsPerYear, periodSettings.fiscalYearEnd),
+      [periodData, periodsPerYear, periodSettings.fiscalYearEnd]
+  );
 
-  // 2. Run Valuation Model (DCF)
   useEffect(() => {
       const runValuation = async () => {
-          if (pythonStatus === 'ready' && window.pyodide) {
+          if (!projection) return;
+          if (pythonStatus === 'ready') {
               try {
-                  addLog("Starting DCF valuation job...");
+                  addLog(`Starting DCF valuation job (${valuationStructure.horizon} explicit years${valuationStructure.fadeYears ? `, ${valuationStructure.fadeYears} fade` : ''}, ${terminalLabel(valuationStructure)} terminal value)...`);
                   const script = `
 import numpy as np
 import json
-
-data = ${JSON.stringify(data)}
-wacc = ${wacc} / 100.0
-term_growth = ${termGrowth} / 100.0
-net_debt = ${netDebt}
-shares = ${shares}
-
-years = [float(d['Year']) for d in data]
-fcf = [float(d.get('Free Cash Flow', 0)) for d in data]
-
-if len(fcf) > 1:
-    coef = np.polyfit(years, fcf, 1)
-    slope, intercept = coef
-    last_year = int(years[-1])
-    
-    future_fcf = []
-    discounted_sum = 0
-    
-    for i in range(1, 6):
-        proj_fcf = slope * (last_year + i) + intercept
-        future_fcf.append(proj_fcf)
-        discounted_sum += proj_fcf / ((1 + wacc) ** i)
-        
-    if wacc > term_growth:
-        terminal_value = (future_fcf[-1] * (1 + term_growth)) / (wacc - term_growth)
-    else:
-        terminal_value = future_fcf[-1] * 15 
-        
-    discounted_tv = terminal_value / ((1 + wacc) ** 5)
-    
-    enterprise_value = discounted_sum + discounted_tv
-    equity_value = enterprise_value - net_debt
-    share_price = equity_value / shares if shares > 0 else 0
-    
-    result = {
-        "success": True,
-        "sharePrice": share_price,
-        "sumFCF": discounted_sum,
-        "terminalValue": discounted_tv,
-        "enterpriseValue": enterprise_value
-    }
-else:
-    result = {"success": False, "error": "Insufficient data"}
-
-json.dumps(result)
+${DRIVERS_PY}${DCF_PY}
+base_revenue = ${projection.fit.baseRevenue}
+drivers = ${JSON.stringify(projection.schedule)}
+fcf_overrides = ${JSON.stringify(fcfOverrides)}
+assumptions = json.loads(${JSON.stringify(JSON.stringify(dcfAssumptions))})
+calendar = json.loads(${JSON.stringify(JSON.stringify(valuationCalendar ?? null))})
+
+rows = project_drivers(base_revenue, drivers)
+for row, delta in zip(rows, fcf_overrides):
+    row["Free Cash Flow"] += delta
+
+json.dumps(value_dcf(rows, assumptions, calendar))
 `;
-                const rawOutput = await window.pyodide.runPythonAsync(script);
-                const output = JSON.parse(rawOutput);
-                
-                if (output.success) {
-                    setValuationResult({
-                        sharePrice: output.sharePrice,
-                        waterfall: [
-                            { 
-                                name: 'Sum of FCFs', 
-                                value: Math.round(output.sumFCF),
-                                contribution: ((output.sumFCF / output.enterpriseValue) * 100).toFixed(1)
-                            },
-                            { 
-                                name: 'Terminal Value', 
-                                value: Math.round(output.terminalValue),
-                                contribution: ((output.terminalValue / output.enterpriseValue) * 100).toFixed(1)
-                            },
-                            { 
-                                name: 'Enterprise Value', 
-                                value: Math.round(output.enterpriseValue), 
-                                isTotal: true,
-                                contribution: '100.0'
-                            }
-                        ]
-                    });
-                    setValuationSource('Python/NumPy');
-                    addLog("DCF Valuation completed via NumPy");
-                }
+                const job = await runPython('Valuation', script);
+                if (job.cancelled) return;
+                if (!job.success) throw new Error(job.error);
+                const output: DCFResult = JSON.parse(job.output!);
+
+                showValuation(output);
+                setValuationSource('Python/NumPy');
+                if (output.success) addLog("DCF Valuation completed via NumPy");
+                if (parityMode) checkParity('Valuation', output, computeDCF(projectedRows, dcfAssumptions, valuationCalendar));
               } catch (e: any) {
                   console.error("Python Valuation Error:", e);
                   addLog(`Valuation Error: ${e.message}. Switching to JS Fallback.`);
@@ -535,89 +634,89 @@ json.dumps(result)
           }
       };
 
+      // Invalid assumptions are reported, never valued with a substitute
+      const showValuation = (result: DCFResult) => {
+          setValuationResult({ ...result, waterfall: result.success ? toWaterfall(result, dcfAssumptions) : [] });
+          if (!result.success) addLog(`Valuation Error: ${result.error}`);
+      };
+
       const runJSValuation = () => {
-          if (!data.length) return;
-          
-          const n = data.length;
-          const x = data.map(d => d.Year);
-          const y = data.map(d => d['Free Cash Flow']);
-          const sumX = x.reduce((a, b) => a + b, 0);
-          const sumY = y.reduce((a, b) => a + b, 0);
-          const sumXY = x.reduce((a, b, i) => a + b * y[i], 0);
-          const sumXX = x.reduce((a, b) => a + b * b, 0);
-          const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-          const intercept = (sumY - slope * sumX) / n;
-
-          const lastYear = x[x.length - 1];
-          let futureFCFs = [];
-          let discountedSum = 0;
-          const r = wacc / 100;
-          const g = termGrowth / 100;
-
-          for (let i = 1; i <= 5; i++) {
-              const fcf = slope * (lastYear + i) + intercept;
-              futureFCFs.push(fcf);
-              discountedSum += fcf / Math.pow(1 + r, i);
+          showValuation(computeDCF(projectedRows, dcfAssumptions, valuationCalendar));
+          setValuationSource('JS Fallback');
+          clearParity('Valuation');
+      };
+
+      const timeout = setTimeout(runValuation, 250); 
+      return () => clearTimeout(timeout);
+
+  }, [projection, projectedRows, dcfAssumptions, valuationCalendar, pythonStatus, parityMode]);
+
+  // 3. Run Monte Carlo simulation
+  const simulationStart = useMemo(() => simulationBase(periodData, { periodsPerYear, ttm: isTTM }), [periodData, periodsPerYear, isTTM]);
+  const simulationInputs = useMemo(
+      () => simulationEdits ?? defaultSimulationInputs(simulationStart, { wacc, termGrowth, netDebt, shares }),
+      [simulationEdits, simulationStart, wacc, termGrowth, netDebt, shares]
+  );
+
+  useEffect(() => {
+      const runMonteCarlo = async () => {
+          if (!simulationStart) {
+              setSimulationResult({ ...EMPTY_SIMULATION, error: 'Need at least one full year of Revenue to simulate.' });
+              return;
+          }
+          const errors = validateSimulationInputs(simulationInputs, shares, valuationStructure);
+          // Paths are valued with the same stages and valuation date as the headline DCF
+          const { elapsed, error } = valuationTiming(valuationStructure, valuationCalendar);
+          if (errors.length || error) {
+              setSimulationResult({ ...EMPTY_SIMULATION, error: errors[0] ?? error });
+              return;
           }
+          const valuation: SimulationValuation = { structure: valuationStructure, elapsed };
 
-          let terminalValue = 0;
-          if (r > g) {
-              terminalValue = (futureFCFs[4] * (1 + g)) / (r - g);
-          } else {
-              terminalValue = futureFCFs[4] * 15; 
+          if (pythonStatus === 'ready') {
+              try {
+                  addLog(`Starting Monte Carlo job (${simulationInputs.paths} paths, seed ${simulationInputs.seed})...`);
+                  const script = `
+import numpy as np
+import json
+${MONTE_CARLO_PY}
+valuation = json.loads(${JSON.stringify(JSON.stringify(valuation))})
+json.dumps(simulate(${simulationStart.revenue}, ${JSON.stringify(simulationInputs)}, ${netDebt}, ${shares}, valuation))
+`;
+                  const job = await runPython('Monte Carlo', script);
+                  if (job.cancelled) return;
+                  if (!job.success) throw new Error(job.error);
+                  // A failed run carries only the error fields; fill in the empty shape the JS engine returns
+                  const raw = JSON.parse(job.output!);
+                  const output: SimulationResult = raw.success ? raw : { ...EMPTY_SIMULATION, ...raw };
+                  setSimulationResult(output);
+                  setSimulationSource('Python/NumPy');
+                  addLog(`Monte Carlo completed via NumPy in ${Math.round(job.ms!)}ms`);
+                  if (parityMode) checkParity('Monte Carlo', output, runSimulation(simulationStart.revenue, simulationInputs, netDebt, shares, valuation));
+                  return;
+              } catch (e: any) {
+                  console.error("Python Monte Carlo Error:", e);
+                  addLog(`Monte Carlo Error: ${e.message}. Switching to JS Fallback.`);
+              }
+          } else if (pythonStatus === 'loading') {
+              return;
           }
-          
-          const discountedTV = terminalValue / Math.pow(1 + r, 5);
-          const enterpriseValue = discountedSum + discountedTV;
-          const equityValue = enterpriseValue - netDebt;
-          const sharePrice = equityValue / shares;
-
-          setValuationResult({
-            sharePrice,
-            waterfall: [
-                { 
-                  name: 'Sum of FCFs', 
-                  value: Math.round(discountedSum),
-                  contribution: ((discountedSum / enterpriseValue) * 100).toFixed(1)
-                },
-                { 
-                  name: 'Terminal Value', 
-                  value: Math.round(discountedTV),
-                  contribution: ((discountedTV / enterpriseValue) * 100).toFixed(1)
-                },
-                { 
-                  name: 'Enterprise Value', 
-                  value: Math.round(enterpriseValue), 
-                  isTotal: true,
-                  contribution: '100.0'
-                }
-            ]
-        });
-        setValuationSource('JS Fallback');
+
+          setSimulationResult(runSimulation(simulationStart.revenue, simulationInputs, netDebt, shares, valuation));
+          setSimulationSource('JS Fallback');
+          clearParity('Monte Carlo');
       };
 
-      const timeout = setTimeout(runValuation, 250); 
+      const timeout = setTimeout(runMonteCarlo, 400);
       return () => clearTimeout(timeout);
 
-  }, [data, wacc, termGrowth, netDebt, shares, pythonStatus]);
+  }, [simulationStart, simulationInputs, netDebt, shares, valuationStructure, valuationCalendar, pythonStatus, parityMode]);
 
 
   // --- CALCULATIONS (JS for Instant Feedback) ---
 
   // 1. Market Metrics
-  const marketMetrics = useMemo(() => {
-    if (!data.length) return { roe: '0%', rateBase: '$0', avgRev: '$0', maxRev: '$0' };
-    const avgEquity = data.reduce((acc, curr) => acc + (curr['Free Cash Flow'] || 0), 0) / data.length * 5; 
-    const avgNetIncome = data.reduce((acc, curr) => acc + (curr['Net Income'] || 0), 0) / data.length;
-    const roe = avgEquity ? (avgNetIncome / avgEquity) * 100 : 0;
-    
-    return {
-      roe: roe.toFixed(2) + '%',
-      rateBase: '$' + (avgEquity * 1.5).toLocaleString(undefined, { maximumFractionDigits: 0 }),
-      avgRev: '$' + (data.reduce((acc, c) => acc + (c.Revenue || 0), 0) / data.length).toLocaleString(undefined, { maximumFractionDigits: 0 }),
-      maxRev: '$' + Math.max(...data.map(d => d.Revenue || 0)).toLocaleString()
-    };
-  }, [data]);
+  const marketMetrics = useMemo(() => formatMarketMetrics(computeMarketMetrics(periodData)), [periodData]);
 
   // 2. Sensitivity Heatmap
   const sensitivityData = useMemo(() => {
@@ -636,54 +735,373 @@ json.dumps(result)
     return grid; 
   }, [baseRev, baseCost]);
 
+  // 3. DCF Sensitivity: share price over WACC x terminal growth (or exit multiple), on the JS engine
+  const valuationGrid = useMemo(
+      () => dcfSensitivity(projectedRows, dcfAssumptions, sensitivitySettings, valuationCalendar),
+      [projectedRows, dcfAssumptions, sensitivitySettings, valuationCalendar]
+  );
+
+  // 4. Strategic Commentary, drawing on the forecast, risk and valuation views
+  const commentary = useMemo(() => generateCommentary({
+      metric: forecastMetric,
+      modelLabel: forecastModelLabel(forecastModel),
+      horizon: forecastHorizon,
+      history: periodData,
+      forecast: primarySeries?.rows || [],
+      series: { periodsPerYear, ttm: isTTM },
+      valuation: valuationResult.success ? { terminalValue: valuationResult.terminalValue, enterpriseValue: valuationResult.enterpriseValue } : null,
+      formatPeriod: periodLabel,
+      synthesizedBudget,
+  }), [forecastMetric, forecastModel, forecastHorizon, periodData, primarySeries, periodsPerYear, isTTM, valuationResult, periodView.granularity, synthesizedBudget]);
+
   // --- HANDLERS ---
+  // Shared tail of every import path: report parse issues, load the records and run the integrity scan.
+  const ingestRecords = (parsed: FinancialRecord[], errors: ParseIssue[], sourceName: string, synthesizedBudget: string[] = []) => {
+      errors.forEach(err => {
+          addLog(`Parse Error: ${err.row > 0 ? `row ${err.row}` : 'header'}${err.column ? `, col ${err.column}` : ''} - ${err.message}`);
+      });
+      if (parsed.length === 0) {
+          addLog(`Error: no usable records found in ${sourceName}`);
+          return;
+      }
+
+      // A new file is a new document, not an edit: undo must not bring back rows the rest of the state no longer matches
+      dataHistory.reset(parsed);
+      setSynthesizedBudget(synthesizedBudget);
+      setBaseRev(parsed[parsed.length-1].Revenue);
+      // Overrides are keyed by metric and year only, so they belong to the dataset they were made against
+      if (overrides.length || overrideLog.length) addLog("Analyst overrides and their log cleared for the new dataset");
+      setOverrides([]);
+      setOverrideLog([]);
+      // Drivers and simulation inputs are fitted from history; edits made against the old dataset don't carry over
+      setDriverEdits(null);
+      setSimulationEdits(null);
+      
+      // DATA INTEGRITY CHECK
+      addLog("--------------------------------");
+      addLog(`Initiating Data Integrity Scan on ${sourceName}...`);
+      const report = runIntegrityScan(parsed, integrityConfig, { synthesizedBudget });
+      report.findings.forEach(f => {
+          const tag = f.severity === 'error' ? 'Integrity Error' : f.severity === 'warning' ? 'Integrity Warn' : 'Integrity Note';
+          addLog(`${tag}: ${f.row !== undefined ? `row ${f.row + 1}, ` : ''}${f.message}`);
+      });
+      
+      if (report.score === 100) {
+           addLog("Data Quality: EXCELLENT (No anomalies detected)");
+      } else {
+           addLog(`Data Quality: WARNING (Score: ${report.score}%) - see Data Integrity tab`);
+      }
+      addLog(`${parsed.length} records successfully indexed.`);
+      addLog("--------------------------------");
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
-      if (file) {
-          const reader = new FileReader();
+      // Allow re-selecting the same file after a cancelled import
+      event.target.value = '';
+      if (!file) return;
+
+      const reader = new FileReader();
+      if (/\.xlsx?$/i.test(file.name)) {
           reader.onload = (e) => {
-              const text = e.target?.result as string;
               try {
-                  const parsed = parseCSV(text);
-                  if (parsed.length > 0) {
-                    setData(parsed);
-                    setBaseRev(parsed[parsed.length-1].Revenue);
-                    
-                    // DATA INTEGRITY CHECK
-                    addLog("--------------------------------");
-                    addLog(`Initiating Data Integrity Scan on ${file.name}...`);
-                    let integrityScore = 100;
-                    const checkCols = ['Revenue', 'Net Income'];
-                    let nullCount = 0;
-                    
-                    parsed.forEach((row, idx) => {
-                        checkCols.forEach(col => {
-                            if (row[col] === undefined || row[col] === null || isNaN(row[col])) {
-                                nullCount++;
-                                integrityScore -= 5;
-                                addLog(`Integrity Warn: Null value in row ${idx+1}, col ${col}`);
-                            }
-                        });
-                        if (row['Year'] < 2000 || row['Year'] > 2030) {
-                             addLog(`Integrity Note: Unusual Fiscal Year detected: ${row['Year']}`);
-                        }
-                    });
-                    
-                    if (integrityScore === 100) {
-                         addLog("Data Quality: EXCELLENT (No anomalies detected)");
-                    } else {
-                         addLog(`Data Quality: WARNING (Score: ${integrityScore}%)`);
-                    }
-                    addLog(`${parsed.length} records successfully indexed.`);
-                    addLog("--------------------------------");
-                  }
-              } catch (err) {
-                  console.error("CSV Parse Error", err);
-                  addLog("Error parsing CSV file");
+                  const workbook = readWorkbook(e.target?.result as ArrayBuffer);
+                  addLog(`Workbook ${file.name} opened: ${workbook.SheetNames.length} sheet(s)`);
+                  setPendingWorkbook({ workbook, fileName: file.name });
+              } catch (err: any) {
+                  console.error("Workbook Parse Error", err);
+                  addLog(`Error reading workbook: ${err.message}`);
               }
           };
-          reader.readAsText(file);
+          reader.readAsArrayBuffer(file);
+          return;
+      }
+
+      reader.onload = (e) => {
+          const text = e.target?.result as string;
+          try {
+              const table = readCSVTable(text);
+              const delimiterName = table.delimiter === '\t' ? 'tab' : table.delimiter === ';' ? 'semicolon' : 'comma';
+              addLog(`Read ${file.name} (${delimiterName}-delimited): ${table.headers.length} columns, ${table.body.length} rows`);
+              routeTable({ table, sourceName: file.name, errors: [] });
+          } catch (err) {
+              console.error("CSV Parse Error", err);
+              addLog("Error parsing CSV file");
+          }
+      };
+      reader.readAsText(file);
+  };
+
+  const handleSheetImport = (opts: SheetImportOptions) => {
+      if (!pendingWorkbook) return;
+      const { workbook, fileName } = pendingWorkbook;
+      setPendingWorkbook(null);
+      try {
+          const { errors, ...table } = readSheetTable(workbook, opts, periodSettings.fiscalYearEnd);
+          const sourceName = `${fileName} [${opts.sheet}]`;
+          addLog(`Read ${sourceName} (${opts.layout === 'columns' ? 'transposed from periods-as-columns' : 'periods-as-rows'}): ${table.headers.length} columns, ${table.body.length} rows`);
+          routeTable({ table, sourceName, errors });
+      } catch (err: any) {
+          console.error("Sheet Import Error", err);
+          addLog(`Error importing sheet: ${err.message}`);
+      }
+  };
+
+  // Decides whether a freshly read table needs the mapping wizard: files with canonical headers go
+  // straight through, files matching a saved profile are mapped silently, everything else asks.
+  const routeTable = (pending: PendingTable) => {
+      const { table, sourceName } = pending;
+      const profile = findProfileForHeaders(table.headers);
+      if (profile) {
+          addLog(`Mapping profile "${profile.name}" applied to ${sourceName}`);
+          finishImport(pending, profile.mapping);
+          return;
+      }
+      const suggested = mappingFromSuggestions(suggestMapping(table.headers));
+      if (isIdentityMapping(table.headers, suggested) && !missingFields(suggested).includes('Year')) {
+          finishImport(pending, suggested);
+          return;
+      }
+      setPendingTable(pending);
+  };
+
+  const finishImport = (pending: PendingTable, mapping: ColumnMapping) => {
+      setPendingTable(null);
+      const mapped = applyMapping(pending.table, mapping);
+      const { records, errors, synthesizedBudget } = tableToRecords(mapped.headers, mapped.body, mapped.decimal, periodSettings.fiscalYearEnd);
+      ingestRecords(records, [...pending.errors, ...errors], pending.sourceName, synthesizedBudget);
+      if (records.length) setColumnMapping(mapping);
+  };
+
+  // --- ENTITY HANDLERS ---
+  const loadEntity = (entity: Entity) => {
+      dataHistory.reset(entity.data);
+      setSynthesizedBudget(entity.synthesizedBudget);
+      setColumnMapping(entity.columnMapping || null);
+      setNotes(entity.notes || '');
+      setWacc(entity.assumptions.wacc);
+      setTermGrowth(entity.assumptions.termGrowth);
+      setNetDebt(entity.assumptions.netDebt);
+      setShares(entity.assumptions.shares);
+      // Structures saved before the valuation timing fields pick up their defaults
+      setValuationStructure({ ...DEFAULT_DCF_STRUCTURE, ...entity.assumptions.structure });
+      setWaccInputs(entity.assumptions.waccBuilder || null);
+      setDriverEdits(entity.drivers || null);
+      setOverrides(entity.overrides || []);
+      setOverrideLog(entity.overrideLog || []);
+      if (entity.data.length) setBaseRev(entity.data[entity.data.length - 1].Revenue);
+      setSimulationEdits(null);
+      setActiveEntityId(entity.id);
+  };
+
+  const switchEntity = (id: string) => {
+      if (id === activeEntityId) return;
+      const target = workspaceEntities.find(e => e.id === id);
+      if (!target) return;
+      setEntities(workspaceEntities);
+      loadEntity(target);
+      addLog(`Switched to entity: ${target.name}`);
+  };
+
+  const addEntity = () => {
+      const id = `entity-${Date.now()}`;
+      const entity = createEntity(id, nextEntityName(workspaceEntities), generateSampleData());
+      setEntities([...workspaceEntities, entity]);
+      loadEntity(entity);
+      addLog(`Entity created: ${entity.name} (sample data)`);
+  };
+
+  const removeEntity = (id: string) => {
+      if (entities.length < 2) return;
+      const remaining = workspaceEntities.filter(e => e.id !== id);
+      setEntities(remaining);
+      if (id === activeEntityId) loadEntity(remaining[0]);
+  };
+
+  const renameEntity = (id: string, name: string) => {
+      setEntities(prev => prev.map(e => e.id === id ? { ...e, name: uniqueEntityName(name, prev.filter(other => other.id !== id)) } : e));
+  };
+
+  // --- OVERRIDE HANDLERS ---
+  const changeOverride = (change: OverrideChange) => {
+      const next = setOverride(overrides, overrideLog, change, analyst);
+      if (next.log === overrideLog) return;
+      setOverrides(next.overrides);
+      setOverrideLog(next.log);
+      const entry = next.log[next.log.length - 1];
+      addLog(`Override by ${entry.analyst}: ${entry.metric} ${periodLabel(entry.year)} ${entry.value === null ? 'cleared' : `set to ${entry.value.toLocaleString()}`}`);
+  };
+
+  // Dragging a point keeps the note already attached to it
+  const dragOverride = (metric: string, year: number, value: number) =>
+      changeOverride({ metric, year, value, note: findOverride(overrides, metric, year)?.note });
+
+  const changeAnalyst = (name: string) => {
+      setAnalyst(name);
+      saveAnalyst(name);
+  };
+
+  // --- VALUATION HANDLERS ---
+  // A valid build-up sets WACC; invalid inputs leave it at the last valid value
+  const changeWaccInputs = (inputs: WaccInputs | null) => {
+      setWaccInputs(inputs);
+      if (!inputs) return;
+      const result = computeWacc(inputs);
+      if (result.success) setWacc(result.wacc);
+  };
+
+  // --- WORKSPACE HANDLERS ---
+  const applySnapshot = (snapshot: WorkspaceSnapshot) => {
+      const active = snapshot.entities.find(e => e.id === snapshot.activeEntityId) || snapshot.entities[0];
+      if (!active) return;
+      setEntities(snapshot.entities);
+      loadEntity(active);
+      setActiveTab(snapshot.activeTab as Tab);
+      setPeriodSettings(snapshot.periodSettings);
+      // Rules added since the snapshot was taken keep their defaults
+      setIntegrityConfig({ ...defaultRuleConfig(), ...snapshot.integrityConfig });
+      setForecastMetric(snapshot.forecast.metric);
+      setExtraMetrics(snapshot.forecast.extraMetrics || []);
+      setForecastHorizon(snapshot.forecast.horizon);
+      setForecastSensitivity(snapshot.forecast.sensitivity);
+      setForecastModel(snapshot.forecast.model || DEFAULT_FORECAST_MODEL);
+      setConeMode(snapshot.forecast.cone || 'interval');
+      setConfidenceLevel(snapshot.forecast.confidence || DEFAULT_CONFIDENCE);
+      setBaseRev(snapshot.risk.baseRev);
+      setBaseCost(snapshot.risk.baseCost);
+      // After loadEntity, which clears the simulation inputs
+      setSimulationEdits(snapshot.simulation ?? null);
+      setSensitivitySettings({ ...DEFAULT_SENSITIVITY, ...snapshot.sensitivityTable });
+  };
+
+  const applyUrlState = (state: UrlState) => {
+      // Links carry the WACC itself; one that disagrees with the builder replaces it
+      const keepBuilder = state.assumptions.wacc === undefined || (waccInputs && computeWacc(waccInputs).wacc === state.assumptions.wacc);
+      const assumptions = { ...dcfAssumptions, ...state.assumptions, structure: { ...valuationStructure, ...state.structure }, waccBuilder: keepBuilder ? waccInputs : null };
+      if (state.data?.length) {
+          // An embedded dataset arrives as its own entity so it never overwrites local work
+          const entity = { ...createEntity(`entity-${Date.now()}`, uniqueEntityName('Shared Link', workspaceEntities), state.data), assumptions, drivers: state.drivers, overrides: state.overrides };
+          setEntities([...workspaceEntities, entity]);
+          loadEntity(entity);
+          const extras = [state.drivers && 'edited drivers', state.overrides && `${state.overrides.length} override(s)`].filter(Boolean);
+          addLog(`Shared dataset loaded from link: ${state.data.length} records${extras.length ? `, with ${extras.join(' and ')}` : ''}`);
+      } else {
+          setWacc(assumptions.wacc);
+          setTermGrowth(assumptions.termGrowth);
+          setNetDebt(assumptions.netDebt);
+          setShares(assumptions.shares);
+          setValuationStructure(assumptions.structure);
+          setWaccInputs(assumptions.waccBuilder);
       }
+      if (state.tab && (TABS as readonly string[]).includes(state.tab)) setActiveTab(state.tab as Tab);
+      if (state.forecast.metric) setForecastMetric(state.forecast.metric);
+      if (state.forecast.extraMetrics) setExtraMetrics(state.forecast.extraMetrics);
+      if (state.forecast.horizon !== undefined) setForecastHorizon(state.forecast.horizon);
+      if (state.forecast.sensitivity !== undefined) setForecastSensitivity(state.forecast.sensitivity);
+      if (state.forecast.model) setForecastModel(state.forecast.model);
+      if (state.forecast.cone) setConeMode(state.forecast.cone);
+      if (state.forecast.confidence !== undefined) setConfidenceLevel(state.forecast.confidence);
+      setPeriodSettings(prev => ({ ...prev, ...state.periodSettings }));
+  };
+
+  const handleShareLink = async () => {
+      const embedded = data.length ? await encodeDataset({ records: data, drivers: driverEdits, overrides }) : null;
+      const url = `${window.location.origin}${window.location.pathname}#${encodeUrlState(urlState, embedded || undefined)}`;
+      // Drivers and overrides ride with the dataset, so a settings-only link values the recipient's own model
+      const adjusted = driverEdits !== null || overrides.length > 0;
+      try {
+          await navigator.clipboard.writeText(url);
+          addLog(embedded
+              ? `Share link copied (${url.length} chars, dataset${adjusted ? ', edited drivers and overrides' : ''} embedded)`
+              : `Share link copied (settings only: dataset too large to embed${adjusted ? '; edited drivers and overrides are not included' : ''})`);
+      } catch {
+          window.prompt('Copy this link:', url);
+      }
+  };
+
+  const loadWorkspace = (workspace: StoredWorkspace) => {
+      applySnapshot(workspace.snapshot);
+      setWorkspaceName(workspace.name);
+      setShowWorkspaces(false);
+      addLog(`Workspace loaded: ${workspace.name}`);
+  };
+
+  // --- MODEL FILE HANDLERS ---
+  const handleModelExport = () => {
+      const entity = workspaceEntities.find(e => e.id === activeEntityId);
+      if (!entity) return;
+      const model: FinancialModel = {
+          name: entity.name,
+          notes,
+          dataset: { records: data, synthesizedBudget },
+          columnMapping,
+          periodSettings,
+          forecast: { metric: forecastMetric, extraMetrics, horizon: forecastHorizon, sensitivity: forecastSensitivity, model: forecastModel, cone: coneMode, confidence: confidenceLevel },
+          assumptions: dcfAssumptions,
+          drivers: driverEdits,
+          overrides,
+          overrideLog,
+          risk: { baseRev, baseCost },
+      };
+      const blob = new Blob([serializeModel(model)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${entity.name.replace(/[^\w\- ]+/g, '').trim() || 'model'}${MODEL_FILE_EXTENSION}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      addLog(`Model exported: ${link.download}`);
+  };
+
+  const handleModelImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+
+      const reader = new FileReader();
+      reader.onload = (e) => {
+          const { model, errors } = readModelFile(e.target?.result as string);
+          if (!model) {
+              addLog(`Model File Error: ${file.name} could not be opened`);
+              errors.forEach(err => addLog(`Model File Error: ${err}`));
+              setShowLogs(true);
+              return;
+          }
+          // An imported model joins the workspace as a new entity rather than replacing the current one
+          const entity: Entity = {
+              id: `entity-${Date.now()}`,
+              name: uniqueEntityName(model.name || file.name, workspaceEntities),
+              data: model.dataset.records,
+              synthesizedBudget: model.dataset.synthesizedBudget,
+              columnMapping: model.columnMapping || undefined,
+              notes: model.notes,
+              assumptions: model.assumptions,
+              drivers: model.drivers || undefined,
+              overrides: model.overrides,
+              overrideLog: model.overrideLog,
+          };
+          setEntities([...workspaceEntities, entity]);
+          loadEntity(entity);
+          setPeriodSettings(model.periodSettings);
+          setForecastMetric(model.forecast.metric);
+          setExtraMetrics(model.forecast.extraMetrics);
+          setForecastHorizon(model.forecast.horizon);
+          setForecastSensitivity(model.forecast.sensitivity);
+          setForecastModel(model.forecast.model);
+          setConeMode(model.forecast.cone);
+          setConfidenceLevel(model.forecast.confidence);
+          setBaseRev(model.risk.baseRev);
+          setBaseCost(model.risk.baseCost);
+          addLog(`Model imported from ${file.name}: ${entity.name} (${entity.data.length} records)`);
+      };
+      reader.readAsText(file);
+  };
+
+  const handleGridChange = (next: FinancialRecord[], edits: CellEdit[]) => {
+      setData(next);
+      // A typed-in budget is no longer synthesized
+      const budgetKeys = new Set(edits.filter(e => e.column === 'Budget').map(e => periodKey(next[e.row])));
+      if (budgetKeys.size) setSynthesizedBudget(prev => prev.filter(k => !budgetKeys.has(k)));
   };
 
   const handleExcelExport = () => {
@@ -698,53 +1116,132 @@ json.dumps(result)
       const summaryData = [
           ["FINANCIAL INTELLIGENCE REPORT"],
           ["Generated by FinMetrics"],
+          ["Entity", workspaceEntities.find(e => e.id === activeEntityId)?.name || ""],
           ["Date", new Date().toLocaleDateString()],
           [],
           ["KEY METRICS"],
           ["Implied ROE", marketMetrics.roe],
           ["Estimated Rate Base", marketMetrics.rateBase],
           ["Peak Revenue", marketMetrics.maxRev],
-          ["Fair Value per Share", `$${valuationResult.sharePrice.toFixed(2)}`]
+          ["Fair Value per Share", valuationResult.success ? `$${valuationResult.sharePrice.toFixed(2)}` : "Not valued"],
+          ["Data Integrity Score", `${integrityReport.score}%`],
+          [],
+          ["COMMENTARY", "Supporting Figures"],
+          ...commentary.map(i => [i.text, i.evidence.map(e => `${e.label} (${e.source}): ${e.value}`).join('; ')])
       ];
       const wsSummary = window.XLSX.utils.aoa_to_sheet(summaryData);
       window.XLSX.utils.book_append_sheet(wb, wsSummary, "Executive Summary");
 
       // --- SHEET 2: HISTORICAL DATA ---
-      const wsData = window.XLSX.utils.json_to_sheet(data);
+      const wsData = window.XLSX.utils.json_to_sheet(periodData.map(d => ({ Period: periodLabel(d.Year), ...d })));
       window.XLSX.utils.book_append_sheet(wb, wsData, "Historical Data");
 
       // --- SHEET 3: FORECAST ---
-      // Flatten forecast data for Excel
-      const flatForecast = forecastData.map(item => ({
-          Year: item.Year,
+      // Flatten forecast data for Excel, one block of rows per metric
+      const flatForecast = adjustedSeries.flatMap(series => series.rows.map(item => ({
+          Metric: series.metric,
+          Period: periodLabel(item.Year),
           Historical: item.Historical || "",
           Forecast: item.Forecast || "",
+          Model_Forecast: item.Model ?? "",
+          Override_Note: item.Note || "",
           Optimistic_High: item.High || "",
           Pessimistic_Low: item.Low || ""
-      }));
+      })));
       const wsForecast = window.XLSX.utils.json_to_sheet(flatForecast);
+      // Regression diagnostics below the forecast rows, one block per metric
+      adjustedSeries.filter(series => series.diagnostics).forEach(({ metric, diagnostics }) => {
+          window.XLSX.utils.sheet_add_aoa(wsForecast, [
+              [],
+              [`REGRESSION DIAGNOSTICS: ${metric}`, forecastModelLabel(forecastModel)],
+              ...summarizeDiagnostics(diagnostics!).map(stat => [stat.label, stat.value, stat.reading]),
+              [],
+              ["Period", "Fitted", "Residual", "Leverage", "High Leverage"],
+              ...diagnostics!.residuals.map(r => [periodLabel(r.Year), r.Fitted, r.Residual, r.Leverage, diagnostics!.highLeverage.includes(r.Year) ? "Yes" : ""])
+          ], { origin: -1 });
+      });
       window.XLSX.utils.book_append_sheet(wb, wsForecast, "Neural Forecast");
 
+      // --- SHEET 3b: OVERRIDE LOG ---
+      if (overrideLog.length) {
+          const wsLog = window.XLSX.utils.json_to_sheet(overrideLog.map(entry => ({
+              Timestamp: entry.at,
+              Analyst: entry.analyst,
+              Metric: entry.metric,
+              Period: periodLabel(entry.year),
+              Previous: entry.previous ?? "Model",
+              New: entry.value ?? "Model",
+              Note: entry.note || ""
+          })));
+          window.XLSX.utils.book_append_sheet(wb, wsLog, "Override Log");
+      }
+
       // --- SHEET 4: VALUATION MODEL ---
+      const waccBuild = waccInputs ? computeWacc(waccInputs) : null;
       const valData = [
           ["DCF VALUATION MODEL"],
           [],
           ["ASSUMPTIONS"],
-          ["WACC", `${wacc}%`],
+          ["WACC", `${wacc}%${waccBuild?.success ? ' (CAPM build-up below)' : ''}`],
           ["Terminal Growth", `${termGrowth}%`],
           ["Net Debt", `$${netDebt}M`],
           ["Shares Outstanding", `${shares}M`],
+          ["Explicit Horizon", `${valuationStructure.horizon} years`],
+          ["Fade Period", valuationStructure.fadeYears ? `${valuationStructure.fadeYears} years` : "None"],
+          ["Terminal Value Method", TERMINAL_METHODS.find(m => m.id === valuationStructure.terminal)!.label],
+          ...(valuationStructure.terminal !== 'gordon' ? [["Exit Multiple", `${valuationStructure.exitMultiple}x`]] : []),
+          ...(valuationStructure.terminal === 'exit-ebitda' ? [["Terminal EBITDA Margin", `${valuationStructure.ebitdaMargin}%`]] : []),
+          ["Valuation Date", valuationStructure.valuationDate
+              || (valuationCalendar ? `${fiscalDate(valuationCalendar.lastActualEnd, valuationCalendar.fiscalYearEnd)} (end of actuals)` : "End of actuals")],
+          ["Discounting", valuationStructure.midYear ? "Mid-year convention" : "End of year"],
+          ...(fcfOverrides.some(d => d !== 0) ? [["Analyst FCF Overrides (Y+1..)", fcfOverrides.map(d => Math.round(d)).join(', ')]] : []),
           [],
           ["OUTPUTS"],
-          ["Sum of FCFs (PV)", Math.round(valuationResult.waterfall[0].value)],
-          ["Terminal Value (PV)", Math.round(valuationResult.waterfall[1].value)],
-          ["Enterprise Value", Math.round(valuationResult.waterfall[2].value)],
-          ["Equity Value", Math.round(valuationResult.waterfall[2].value - netDebt)],
-          ["Implied Share Price", valuationResult.sharePrice.toFixed(2)]
+          ...(valuationResult.success ? [
+              ...(valuationResult.stub < 1 ? [["Year 1 Stub", `${(valuationResult.stub * 100).toFixed(1)}% of the year`]] : []),
+              ["Explicit FCFs (PV)", Math.round(valuationResult.sumFCF)],
+              ...(valuationResult.fade.length ? [["Fade FCFs (PV)", Math.round(valuationResult.fadePV)]] : []),
+              ["Terminal Value (undiscounted)", Math.round(valuationResult.exitValue)],
+              ["Terminal Value (PV)", Math.round(valuationResult.terminalValue)],
+              ["Enterprise Value", Math.round(valuationResult.enterpriseValue)],
+              ["Equity Value", Math.round(valuationResult.enterpriseValue - netDebt)],
+              ["Implied Share Price", valuationResult.sharePrice.toFixed(2)]
+          ] : [["Error", valuationResult.error || "Not valued"]]),
+          ...(waccInputs && waccBuild?.success ? [
+              [],
+              ["WACC BUILD-UP"],
+              ...summarizeWacc(waccInputs, waccBuild).map(row => [row.label, row.value])
+          ] : []),
+          ...(valuationResult.fade.length ? [
+              [],
+              ["FADE PERIOD"],
+              ["Year", "Growth (%)", "Revenue", "Free Cash Flow"],
+              ...valuationResult.fade.map(r => [`Y+${r.Year}`, Number(r.Growth.toFixed(2)), Math.round(r.Revenue), Math.round(r['Free Cash Flow'])])
+          ] : []),
+          ...(valuationResult.success ? [
+              [],
+              ["DISCOUNT SCHEDULE"],
+              ["Year", "Free Cash Flow", "Discount Period (years)", "Present Value"],
+              ...valuationResult.schedule.map(r => [`Y+${r.Year}`, Math.round(r['Free Cash Flow']), Number(r.Period.toFixed(3)), Math.round(r['Present Value'])]),
+              ["Terminal", Math.round(valuationResult.exitValue), Number(valuationResult.terminalPeriod.toFixed(3)), Math.round(valuationResult.terminalValue)]
+          ] : [])
       ];
       const wsVal = window.XLSX.utils.aoa_to_sheet(valData);
       window.XLSX.utils.book_append_sheet(wb, wsVal, "Valuation Detail");
 
+      // --- SHEET 5: DCF SENSITIVITY ---
+      if (projection) {
+          const axis = SENSITIVITY_AXES.find(a => a.id === valuationGrid.column)!;
+          const wsGrid = window.XLSX.utils.aoa_to_sheet([
+              [`IMPLIED SHARE PRICE: WACC vs ${axis.label.toUpperCase()}`],
+              [`Base case: WACC ${wacc}%, ${axis.label} ${valuationGrid.column === 'termGrowth' ? `${termGrowth}%` : `${valuationStructure.exitMultiple}x`}; n/a = no valid DCF value`],
+              [],
+              [`WACC \\ ${axis.label}`, ...valuationGrid.columns.map(v => `${v}${axis.unit}`)],
+              ...valuationGrid.waccs.map((w, r) => [`${w}%`, ...valuationGrid.cells[r].map(c => c.sharePrice === null ? "n/a" : Number(c.sharePrice.toFixed(2)))])
+          ]);
+          window.XLSX.utils.book_append_sheet(wb, wsGrid, "DCF Sensitivity");
+      }
+
       // Export
       window.XLSX.writeFile(wb, "FinMetrics_Report.xlsx");
       addLog("Excel Report generated successfully");
@@ -753,7 +1250,36 @@ json.dumps(result)
   return (
     <div className="min-h-screen bg-white text-black selection:bg-black selection:text-white font-sans pb-12">
       
-      <SystemConsole logs={pythonLogs} status={pythonStatus} expanded={showLogs} setExpanded={setShowLogs} />
+      <SystemConsole logs={pythonLogs} status={pythonStatus} expanded={showLogs} setExpanded={setShowLogs} parityMode={parityMode} onToggleParity={toggleParityMode} />
+
+      {pendingWorkbook && (
+          <ImportDialog 
+              workbook={pendingWorkbook.workbook} 
+              fileName={pendingWorkbook.fileName} 
+              onCancel={() => setPendingWorkbook(null)} 
+              onImport={handleSheetImport} 
+          />
+      )}
+
+      {showWorkspaces && (
+          <WorkspaceDialog 
+              snapshot={workspaceSnapshot} 
+              currentName={workspaceName} 
+              onLoad={loadWorkspace} 
+              onSaved={(name) => { setWorkspaceName(name); addLog(`Workspace saved: ${name}`); }} 
+              onClose={() => setShowWorkspaces(false)} 
+          />
+      )}
+
+      {pendingTable && (
+          <MappingDialog 
+              headers={pendingTable.table.headers} 
+              sample={pendingTable.table.body} 
+              sourceName={pendingTable.sourceName} 
+              onCancel={() => setPendingTable(null)} 
+              onApply={(mapping) => finishImport(pendingTable, mapping)} 
+          />
+      )}
 
       {/* Navigation */}
       <nav className={`fixed top-0 left-0 right-0 z-50 transition-all duration-300 ${scrolled ? 'bg-white/90 backdrop-blur-md shadow-sm py-4 border-b border-stone-100' : 'bg-transparent py-6'}`}>
@@ -772,12 +1298,34 @@ json.dumps(result)
             <button onClick={() => setActiveTab('forecast')} className={`hover:text-black transition-colors ${activeTab === 'forecast' ? 'text-black border-b border-black pb-1' : ''}`}>Neural Forecast</button>
             <button onClick={() => setActiveTab('risk')} className={`hover:text-black transition-colors ${activeTab === 'risk' ? 'text-black border-b border-black pb-1' : ''}`}>Risk Control</button>
             <button onClick={() => setActiveTab('valuation')} className={`hover:text-black transition-colors ${activeTab === 'valuation' ? 'text-black border-b border-black pb-1' : ''}`}>Valuation</button>
+            <button onClick={() => setActiveTab('compare')} className={`hover:text-black transition-colors ${activeTab === 'compare' ? 'text-black border-b border-black pb-1' : ''}`}>Compare</button>
+            <button onClick={() => setActiveTab('integrity')} className={`hover:text-black transition-colors ${activeTab === 'integrity' ? 'text-black border-b border-black pb-1' : ''}`}>Data Integrity</button>
+            <button onClick={() => setActiveTab('data')} className={`hover:text-black transition-colors ${activeTab === 'data' ? 'text-black border-b border-black pb-1' : ''}`}>Data Editor</button>
           </div>
 
           <div className="flex gap-3">
+              <button onClick={handleShareLink} className="px-3 py-2 border border-stone-200 rounded-full text-xs font-bold uppercase tracking-widest hover:border-black transition-colors flex items-center gap-2 bg-white" title="Copy a link that reproduces this view">
+                <Link2 size={14} /> <span className="hidden md:inline">Share</span>
+              </button>
+              <button onClick={() => setShowWorkspaces(true)} className="px-4 py-2 border border-stone-200 rounded-full text-xs font-bold uppercase tracking-widest hover:border-black transition-colors flex items-center gap-2 bg-white" title="Saved workspaces">
+                <FolderOpen size={14} /> {workspaceName || 'Workspaces'}
+              </button>
               <input 
                 type="file" 
-                accept=".csv" 
+                accept={`${MODEL_FILE_EXTENSION},.json`} 
+                className="hidden" 
+                ref={modelInputRef}
+                onChange={handleModelImport}
+              />
+              <button onClick={() => modelInputRef.current?.click()} className="px-3 py-2 border border-stone-200 rounded-full text-xs font-bold uppercase tracking-widest hover:border-black transition-colors flex items-center gap-2 bg-white" title="Open a .finmetrics model file">
+                <FileUp size={14} /> <span className="hidden md:inline">Open Model</span>
+              </button>
+              <button onClick={handleModelExport} className="px-3 py-2 border border-stone-200 rounded-full text-xs font-bold uppercase tracking-widest hover:border-black transition-colors flex items-center gap-2 bg-white" title="Save the active entity as a .finmetrics model file">
+                <FileDown size={14} /> <span className="hidden md:inline">Save Model</span>
+              </button>
+              <input 
+                type="file" 
+                accept=".csv,.xlsx,.xls" 
                 className="hidden" 
                 ref={fileInputRef}
                 onChange={handleFileUpload}
@@ -838,12 +1386,15 @@ json.dumps(result)
         <div className="container mx-auto px-6">
             
             {/* TABS */}
-            <div className="flex flex-wrap justify-center gap-4 mb-20 border-b border-stone-200 pb-8">
+            <div className="flex flex-wrap justify-center gap-4 mb-8 border-b border-stone-200 pb-8">
                  {[
                     {id: 'market', icon: Activity, label: 'Market Vision'},
                     {id: 'forecast', icon: TrendingUp, label: 'Neural Forecast'},
                     {id: 'risk', icon: AlertTriangle, label: 'Risk Control'},
                     {id: 'valuation', icon: DollarSign, label: 'Valuation Model'},
+                    {id: 'compare', icon: GitCompare, label: 'Compare'},
+                    {id: 'integrity', icon: ShieldCheck, label: 'Data Integrity'},
+                    {id: 'data', icon: Table2, label: 'Data Editor'},
                  ].map((tab) => (
                      <button 
                         key={tab.id}
@@ -856,6 +1407,23 @@ json.dumps(result)
                  ))}
             </div>
 
+            <EntityBar 
+                entities={workspaceEntities} 
+                activeId={activeEntityId} 
+                onSelect={switchEntity} 
+                onAdd={addEntity} 
+                onRemove={removeEntity} 
+                onRename={renameEntity} 
+            />
+
+            <PeriodControls 
+                settings={periodSettings} 
+                onChange={setPeriodSettings} 
+                available={availableGranularities(data)} 
+                dropped={periodView.dropped} 
+                columns={metricOptions.filter(c => !FLOW_FIELDS.includes(c))} 
+            />
+
             {/* CONTENT AREA */}
             <div className="min-h-[600px]">
                 <AnimatePresence mode="wait">
@@ -888,7 +1456,7 @@ json.dumps(result)
                                     <h3 className="font-serif text-3xl text-black">Revenue Trajectory</h3>
                                     <div className="px-4 py-1 bg-black text-white rounded-none text-xs font-bold uppercase tracking-widest">Year-over-Year</div>
                                 </div>
-                                <MarketTrendChart data={data} dataKey="Revenue" />
+                                <MarketTrendChart data={periodData} dataKey="Revenue" formatLabel={periodLabel} />
                             </div>
                         </motion.div>
                     )}
@@ -905,7 +1473,7 @@ json.dumps(result)
                             <SectionHeading title="Predictive Intelligence" subtitle="Machine Learning" />
                             
                             <ToolDescription 
-                                context="The engine projects future financial metrics by executing linear regression algorithms directly within your browser. It now includes Scenario Analysis to model 'Bull' and 'Bear' cases." 
+                                context="The engine projects future financial metrics with a selectable model (linear, constant CAGR, log-linear, quadratic, Holt's damped trend or ARIMA) executed directly within your browser. It also includes Scenario Analysis to model 'Bull' and 'Bear' cases." 
                                 utility="Essential for FP&A teams to set forward-looking guidance. The 'Cone of Uncertainty' visualizes risk, demonstrating to stakeholders that the future is a range of possibilities, not a single number." 
                             />
 
@@ -929,22 +1497,58 @@ json.dumps(result)
                                                         onChange={(e) => setForecastMetric(e.target.value)}
                                                         className="w-full bg-black border border-stone-800 text-white rounded-none px-4 py-3 pr-10 focus:outline-none focus:border-white transition-colors appearance-none"
                                                     >
-                                                        <option value="Revenue">Revenue</option>
-                                                        <option value="Net Income">Net Income</option>
-                                                        <option value="Free Cash Flow">Free Cash Flow</option>
+                                                        {(metricOptions.includes(forecastMetric) ? metricOptions : [forecastMetric, ...metricOptions]).map(m => <option key={m} value={m}>{m}</option>)}
                                                     </select>
                                                     <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-stone-500">
                                                         <ChevronDown size={16} />
                                                     </div>
                                                 </div>
                                             </div>
+
+                                            {metricOptions.length > 1 && (
+                                                <div>
+                                                    <label className="block text-xs font-bold uppercase tracking-widest text-stone-400 mb-3">Also Forecast</label>
+                                                    <div className="flex flex-wrap gap-2">
+                                                        {metricOptions.filter(m => m !== forecastMetric).map(m => {
+                                                            const on = extraMetrics.includes(m);
+                                                            return (
+                                                                <button
+                                                                    key={m}
+                                                                    onClick={() => setExtraMetrics(on ? extraMetrics.filter(x => x !== m) : [...extraMetrics, m])}
+                                                                    className={`px-3 py-1.5 border text-xs transition-colors ${on ? 'bg-white text-black border-white' : 'border-stone-800 text-stone-400 hover:border-white'}`}
+                                                                >
+                                                                    {m}
+                                                                </button>
+                                                            );
+                                                        })}
+                                                    </div>
+                                                    <p className="text-[10px] text-stone-500 mt-2">Each metric gets its own line and cone on the chart</p>
+                                                </div>
+                                            )}
                                             
+                                            <div>
+                                                <label className="block text-xs font-bold uppercase tracking-widest text-stone-400 mb-3">Forecast Model</label>
+                                                <div className="relative">
+                                                    <select 
+                                                        value={forecastModel} 
+                                                        onChange={(e) => setForecastModel(e.target.value as ForecastModel)}
+                                                        className="w-full bg-black border border-stone-800 text-white rounded-none px-4 py-3 pr-10 focus:outline-none focus:border-white transition-colors appearance-none"
+                                                    >
+                                                        {FORECAST_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                                    </select>
+                                                    <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-stone-500">
+                                                        <ChevronDown size={16} />
+                                                    </div>
+                                                </div>
+                                                <p className="text-[10px] text-stone-500 mt-2">{FORECAST_MODELS.find(m => m.id === forecastModel)?.description}</p>
+                                            </div>
+
                                             <div>
                                                 <label className="block text-xs font-bold uppercase tracking-widest text-stone-400 mb-3">Forecast Horizon</label>
                                                 <div className="relative pt-2">
                                                     <input 
                                                         type="range" 
-                                                        min="1" max="10" 
+                                                        min="1" max={MAX_FORECAST_HORIZON} 
                                                         value={forecastHorizon} 
                                                         onChange={(e) => setForecastHorizon(parseInt(e.target.value))}
                                                         style={{ accentColor: 'white' }}
@@ -955,25 +1559,58 @@ json.dumps(result)
                                             </div>
 
                                             <div>
-                                                <label className="block text-xs font-bold uppercase tracking-widest text-stone-400 mb-3">Scenario Sensitivity (Risk)</label>
-                                                <div className="relative pt-2">
-                                                    <input 
-                                                        type="range" 
-                                                        min="5" max="30" step="5"
-                                                        value={forecastSensitivity} 
-                                                        onChange={(e) => setForecastSensitivity(parseInt(e.target.value))}
-                                                        style={{ accentColor: 'white' }}
-                                                        className="w-full h-1 bg-stone-800 rounded-none appearance-none cursor-pointer focus:outline-none focus:ring-0"
-                                                    />
+                                                <label className="block text-xs font-bold uppercase tracking-widest text-stone-400 mb-3">Uncertainty Cone</label>
+                                                <div className="grid grid-cols-2 gap-px bg-stone-800 border border-stone-800">
+                                                    {([['interval', 'Prediction Interval'], ['scenario', 'Scenario Spread']] as [ConeMode, string][]).map(([mode, label]) => (
+                                                        <button 
+                                                            key={mode} 
+                                                            onClick={() => setConeMode(mode)} 
+                                                            className={`px-2 py-2 text-[10px] font-bold uppercase tracking-widest transition-colors ${coneMode === mode ? 'bg-white text-black' : 'bg-black text-stone-400 hover:text-white'}`}
+                                                        >
+                                                            {label}
+                                                        </button>
+                                                    ))}
                                                 </div>
-                                                <div className="text-right text-white font-mono mt-2 border-b border-stone-800 inline-block float-right pb-1 text-sm">±{forecastSensitivity}% Spread</div>
                                             </div>
+
+                                            {coneMode === 'interval' ? (
+                                                <div>
+                                                    <label className="block text-xs font-bold uppercase tracking-widest text-stone-400 mb-3">Confidence Level</label>
+                                                    <div className="flex gap-2">
+                                                        {CONFIDENCE_LEVELS.map(level => (
+                                                            <button 
+                                                                key={level} 
+                                                                onClick={() => setConfidenceLevel(level)} 
+                                                                className={`flex-1 py-2 border font-mono text-sm transition-colors ${confidenceLevel === level ? 'bg-white text-black border-white' : 'border-stone-800 text-stone-400 hover:border-white'}`}
+                                                            >
+                                                                {level}%
+                                                            </button>
+                                                        ))}
+                                                    </div>
+                                                    <p className="text-[10px] text-stone-500 mt-2">Student's t interval from the model's fitted residuals</p>
+                                                </div>
+                                            ) : (
+                                                <div>
+                                                    <label className="block text-xs font-bold uppercase tracking-widest text-stone-400 mb-3">Scenario Sensitivity (Risk)</label>
+                                                    <div className="relative pt-2">
+                                                        <input 
+                                                            type="range" 
+                                                            min="5" max="30" step="5"
+                                                            value={forecastSensitivity} 
+                                                            onChange={(e) => setForecastSensitivity(parseInt(e.target.value))}
+                                                            style={{ accentColor: 'white' }}
+                                                            className="w-full h-1 bg-stone-800 rounded-none appearance-none cursor-pointer focus:outline-none focus:ring-0"
+                                                        />
+                                                    </div>
+                                                    <div className="text-right text-white font-mono mt-2 border-b border-stone-800 inline-block float-right pb-1 text-sm">±{forecastSensitivity}% Spread</div>
+                                                </div>
+                                            )}
                                         </div>
                                     </div>
                                     
                                     <div className="p-6 bg-stone-50 border border-stone-200 rounded-none">
                                         <p className="text-sm text-stone-600 italic leading-relaxed mb-4">
-                                            "The engine utilizes {pythonStatus === 'ready' ? 'NumPy (Python)' : 'Linear Regression'} to project future performance trends. The shaded region represents the Confidence Interval based on your sensitivity input."
+                                            "The engine fits a {forecastModelLabel(forecastModel)} model {pythonStatus === 'ready' ? 'in NumPy (Python)' : 'in JavaScript'} to project future performance trends. The shaded region represents {coneMode === 'interval' ? `the ${confidenceLevel}% prediction interval derived from the fit residuals` : 'the Bull/Bear spread set by your sensitivity input'}."
                                         </p>
                                         {pythonStatus === 'loading' && (
                                             <div className="flex items-center gap-2 text-xs text-stone-400">
@@ -992,28 +1629,64 @@ json.dumps(result)
                                 <div className="lg:col-span-2 bg-white border border-stone-200 rounded-none p-10 shadow-none flex flex-col">
                                     <div className="flex justify-between items-start mb-8">
                                         <h3 className="font-serif text-3xl text-black">Scenario Analysis</h3>
-                                        {computeSource && (
-                                            <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs font-bold border ${computeSource.includes('Python') ? 'bg-black text-white border-black' : 'bg-stone-100 text-stone-600 border-stone-200'}`}>
-                                                {computeSource.includes('Python') ? <CheckCircle2 size={12} /> : <AlertTriangle size={12} />}
-                                                Powered by {computeSource}
-                                            </div>
-                                        )}
+                                        <div className="flex items-center gap-2">
+                                            <ParityBadge report={parity.Forecast} />
+                                            {computeSource && (
+                                                <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs font-bold border ${computeSource.includes('Python') ? 'bg-black text-white border-black' : 'bg-stone-100 text-stone-600 border-stone-200'}`}>
+                                                    {computeSource.includes('Python') ? <CheckCircle2 size={12} /> : <AlertTriangle size={12} />}
+                                                    Powered by {computeSource}
+                                                </div>
+                                            )}
+                                        </div>
                                     </div>
                                     
-                                    {forecastData.length > 0 ? (
-                                        <ForecastChart data={forecastData} targetCol={forecastMetric} />
+                                    {plottedSeries.length > 0 ? (
+                                        <ForecastChart series={plottedSeries} formatLabel={periodLabel} bandNames={coneMode === 'interval' ? ['Upper Bound', 'Lower Bound'] : undefined} onOverride={dragOverride} />
+                                    ) : failedSeries.length > 0 ? (
+                                        <div className="h-72 flex flex-col items-center justify-center gap-2 text-stone-500 text-xs uppercase tracking-widest">
+                                            <AlertTriangle size={16} /> {failedSeries.map(f => f.error).join(' · ')}
+                                        </div>
                                     ) : (
                                         <div className="h-72 flex items-center justify-center text-stone-300 font-mono text-xs uppercase tracking-widest">Initializing Model...</div>
                                     )}
                                     <div className="mt-8 flex justify-center gap-8 text-xs font-bold uppercase tracking-widest">
                                         <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-none bg-black"></div> Historical</div>
                                         <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-full border border-stone-400 bg-stone-100"></div> Forecast</div>
-                                        <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-none bg-stone-200"></div> Uncertainty Cone</div>
+                                        <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-none bg-stone-200"></div> {coneMode === 'interval' ? `${confidenceLevel}% Prediction Interval` : `±${forecastSensitivity}% Scenario`}</div>
+                                        {plottedSeries.some(s => s.rows.some(r => r.Model !== undefined)) && (
+                                            <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-none bg-black"></div> Analyst Override</div>
+                                        )}
                                     </div>
 
-                                    <StrategicInsight metric={forecastMetric} data={forecastData} horizon={forecastHorizon} />
+                                    {plottedSeries.length > 0 && failedSeries.length > 0 && (
+                                        <p className="mt-4 text-center text-xs text-stone-500">Not forecast: {failedSeries.map(f => `${f.metric} (${f.error})`).join(', ')}</p>
+                                    )}
+
+                                    {coneMode === 'interval' && noIntervalSeries.length > 0 && (
+                                        <p className="mt-4 text-center text-xs text-stone-500">Too few periods left after fitting {forecastModelLabel(forecastModel)} to estimate a prediction interval{plottedSeries.length > 1 ? ` for ${noIntervalSeries.join(', ')}` : ''}.</p>
+                                    )}
+
+                                    {primarySeries && primarySeries.rows.length > 0 && (
+                                        <DiagnosticsPanel diagnostics={primarySeries.diagnostics} metric={forecastMetric} modelLabel={forecastModelLabel(forecastModel)} formatLabel={periodLabel} />
+                                    )}
+
+                                    <StrategicInsight insights={commentary} />
                                 </div>
                             </div>
+
+                            {plottedSeries.length > 0 && (
+                                <OverridePanel
+                                    series={plottedSeries}
+                                    overrides={overrides}
+                                    log={overrideLog}
+                                    analyst={analyst}
+                                    onAnalystChange={changeAnalyst}
+                                    onChange={changeOverride}
+                                    formatLabel={periodLabel}
+                                />
+                            )}
+
+                            <BacktestPanel data={periodData} metric={forecastMetric} model={forecastModel} periodsPerYear={periodsPerYear} horizonSteps={forecastHorizon * periodsPerYear} formatLabel={periodLabel} />
                         </motion.div>
                     )}
 
@@ -1040,8 +1713,9 @@ json.dumps(result)
                                     <p className="text-xs text-stone-400 uppercase tracking-widest mb-8">Actuals vs Budget (Gray = Unfavorable)</p>
                                     
                                     <VarianceChart 
-                                        data={data.map(d => ({ Year: d.Year, Variance: (d.Revenue || 0) - (d.Budget || 0) }))} 
+                                        data={periodData.map(d => ({ Year: d.Year, Variance: (d.Revenue || 0) - (d.Budget || 0) }))} 
                                         metric="Revenue" 
+                                        formatLabel={periodLabel}
                                     />
                                 </div>
 
@@ -1100,7 +1774,7 @@ json.dumps(result)
                              <SectionHeading title="Intrinsic Valuation" subtitle="DCF Model" />
 
                              <ToolDescription 
-                                context="Determines the intrinsic enterprise value of the entity using a 2-Stage Discounted Cash Flow (DCF) model. It projects Free Cash Flows into the future and discounts them back to present value using the Weighted Average Cost of Capital (WACC)." 
+                                context="Determines the intrinsic enterprise value of the entity using a multi-stage Discounted Cash Flow (DCF) model. Revenue growth, net margin, capex and working capital drivers (fitted from history, editable per year) produce one consistent projection of Revenue, Net Income and Free Cash Flow over an explicit horizon; an optional fade period steps growth down to its terminal rate, and the terminal value comes from Gordon growth or an exit EV/FCF or EV/EBITDA multiple. Every stage is discounted back to present value using the Weighted Average Cost of Capital (WACC)." 
                                 utility="Investment bankers and Equity Researchers rely on this to justify target share prices. The 'Valuation Bridge' visualizes how much of the company's value is derived from near-term cash flows versus the long-term Terminal Value." 
                             />
 
@@ -1110,22 +1784,26 @@ json.dumps(result)
                                     <div className="bg-white border border-stone-200 rounded-none p-8 shadow-none">
                                         <div className="flex justify-between items-start mb-6">
                                             <h3 className="font-serif text-xl text-black">Model Assumptions</h3>
-                                            {valuationSource && (
-                                                <div className={`flex items-center gap-2 px-2 py-0.5 rounded-sm text-[10px] font-bold border ${valuationSource.includes('Python') ? 'bg-black text-white border-black' : 'bg-stone-100 text-stone-600 border-stone-200'}`}>
-                                                    {valuationSource.includes('Python') ? <CheckCircle2 size={10} /> : <AlertTriangle size={10} />}
-                                                    {valuationSource === 'Python/NumPy' ? 'NUMPY ENGINE' : 'JS FALLBACK'}
-                                                </div>
-                                            )}
+                                            <div className="flex flex-col items-end gap-1">
+                                                {valuationSource && (
+                                                    <div className={`flex items-center gap-2 px-2 py-0.5 rounded-sm text-[10px] font-bold border ${valuationSource.includes('Python') ? 'bg-black text-white border-black' : 'bg-stone-100 text-stone-600 border-stone-200'}`}>
+                                                        {valuationSource.includes('Python') ? <CheckCircle2 size={10} /> : <AlertTriangle size={10} />}
+                                                        {valuationSource === 'Python/NumPy' ? 'NUMPY ENGINE' : 'JS FALLBACK'}
+                                                    </div>
+                                                )}
+                                                <ParityBadge report={parity.Valuation} />
+                                            </div>
                                         </div>
                                         
                                         <div className="space-y-5">
                                             <div>
-                                                <label className="text-[10px] font-bold text-stone-500 uppercase tracking-widest">WACC (%)</label>
+                                                <label className="text-[10px] font-bold text-stone-500 uppercase tracking-widest">WACC (%){waccInputs ? ' · from builder' : ''}</label>
                                                 <input 
                                                     type="number" 
                                                     value={wacc} 
+                                                    readOnly={!!waccInputs}
                                                     onChange={e => setWacc(Number(e.target.value))} 
-                                                    className="w-full mt-2 px-4 py-3 bg-stone-50 border border-stone-200 rounded-none font-mono text-sm text-black focus:outline-none focus:ring-0 focus:border-black transition-all placeholder-stone-400"
+                                                    className={`w-full mt-2 px-4 py-3 border rounded-none font-mono text-sm focus:outline-none focus:ring-0 transition-all placeholder-stone-400 ${waccInputs ? 'bg-white border-stone-100 text-stone-500' : 'bg-stone-50 border-stone-200 text-black focus:border-black'}`}
                                                 />
                                             </div>
                                             <div>
@@ -1158,9 +1836,20 @@ json.dumps(result)
                                         </div>
                                     </div>
 
+                                    <WaccPanel inputs={waccInputs} onChange={changeWaccInputs} />
+
+                                    <StructurePanel structure={valuationStructure} onChange={setValuationStructure} calendar={valuationCalendar} />
+
                                     <div className="bg-black border border-black rounded-none p-8 text-center">
                                         <p className="text-xs font-bold text-stone-400 uppercase tracking-widest mb-2">Fair Value per Share</p>
-                                        <div className="font-serif text-5xl text-white">${valuationResult.sharePrice.toFixed(2)}</div>
+                                        {valuationResult.success ? (
+                                            <div className="font-serif text-5xl text-white">${valuationResult.sharePrice.toFixed(2)}</div>
+                                        ) : (
+                                            <>
+                                                <div className="font-serif text-5xl text-stone-600">—</div>
+                                                {valuationResult.error && <p className="text-xs text-stone-300 mt-3 flex items-start gap-2 text-left"><AlertTriangle size={12} className="shrink-0 mt-0.5" /> {valuationResult.error}</p>}
+                                            </>
+                                        )}
                                     </div>
                                 </div>
 
@@ -1168,11 +1857,118 @@ json.dumps(result)
                                 <div className="lg:col-span-8">
                                      <div className="bg-white rounded-none p-10 border border-stone-200 text-black h-full relative">
                                         <h3 className="font-serif text-3xl text-black mb-2">Valuation Bridge</h3>
-                                        <p className="text-xs text-stone-400 uppercase tracking-widest mb-8">Contribution to Enterprise Value</p>
+                                        <p className="text-xs text-stone-400 uppercase tracking-widest mb-8">Contribution to Enterprise Value by Stage</p>
                                         <WaterfallChart data={valuationResult.waterfall} />
                                      </div>
                                 </div>
                              </div>
+
+                             {projection && (
+                                <SensitivityTable
+                                    grid={valuationGrid}
+                                    settings={sensitivitySettings}
+                                    onChange={setSensitivitySettings}
+                                    multipleAvailable={valuationStructure.terminal !== 'gordon'}
+                                />
+                             )}
+
+                             {projection && (
+                                <DriverPanel
+                                    schedule={projection.schedule}
+                                    fitted={projection.fit.schedule}
+                                    edited={driverEdits !== null}
+                                    rows={projectedRows}
+                                    baseRevenue={projection.fit.baseRevenue}
+                                    onChange={setDriverEdits}
+                                    onReset={() => setDriverEdits(null)}
+                                />
+                             )}
+
+                             <MonteCarloPanel
+                                inputs={simulationInputs}
+                                structure={valuationStructure}
+                                onChange={setSimulationEdits}
+                                onReset={() => setSimulationEdits(null)}
+                                result={simulationResult}
+                                source={simulationSource || ''}
+                                parity={parity['Monte Carlo']}
+                             />
+                        </motion.div>
+                    )}
+
+                    {/* TAB 5: ENTITY COMPARISON */}
+                    {activeTab === 'compare' && (
+                        <motion.div 
+                            key="compare"
+                            initial={{ opacity: 0, y: 20 }} 
+                            animate={{ opacity: 1, y: 0 }} 
+                            exit={{ opacity: 0, y: -20 }}
+                            transition={{ duration: 0.5 }}
+                        >
+                            <SectionHeading title="Peer Benchmarking" subtitle="Multi-Entity" />
+
+                            <ToolDescription 
+                                context="Places every entity in the workspace side by side. Each keeps its own dataset and DCF assumptions; the comparison runs them all through the same period view and valuation engine." 
+                                utility="Coverage analysts following a group of utilities need relative, not absolute, answers: who is growing faster, who earns the better return, and which name screens cheapest on intrinsic value." 
+                            />
+
+                            <EntityComparison entities={workspaceEntities} activeId={activeEntityId} periodSettings={periodSettings} forecast={comparisonForecast} />
+                        </motion.div>
+                    )}
+
+                    {/* TAB 6: DATA INTEGRITY */}
+                    {activeTab === 'integrity' && (
+                        <motion.div 
+                            key="integrity"
+                            initial={{ opacity: 0, y: 20 }} 
+                            animate={{ opacity: 1, y: 0 }} 
+                            exit={{ opacity: 0, y: -20 }}
+                            transition={{ duration: 0.5 }}
+                        >
+                            <SectionHeading title="Data Quality Report" subtitle="Data Integrity" />
+
+                            <ToolDescription 
+                                context="Runs a configurable set of validation rules over the loaded dataset: duplicate or missing periods, statistical outliers, Net Income exceeding Revenue, sign flips, abrupt period-over-period moves and synthesized Budget lines." 
+                                utility="Bad inputs silently corrupt every forecast and valuation downstream. Tune each rule's severity, threshold and score weight to your reporting standards, then inspect the highlighted cells before relying on the model." 
+                            />
+
+                            <IntegrityPanel 
+                                data={data} 
+                                report={integrityReport} 
+                                config={integrityConfig} 
+                                onConfigChange={setIntegrityConfig} 
+                            />
+                        </motion.div>
+                    )}
+
+                    {/* TAB 7: DATA EDITOR */}
+                    {activeTab === 'data' && (
+                        <motion.div 
+                            key="data"
+                            initial={{ opacity: 0, y: 20 }} 
+                            animate={{ opacity: 1, y: 0 }} 
+                            exit={{ opacity: 0, y: -20 }}
+                            transition={{ duration: 0.5 }}
+                        >
+                            <SectionHeading title="Source Dataset" subtitle="Data Editor" />
+
+                            <ToolDescription 
+                                context="A spreadsheet-style editor over the working dataset. Correct individual figures, add periods or metrics, type in budget lines, or paste blocks straight from Excel." 
+                                utility="Fixing a single bad number should not require re-exporting a file. Every edit flows immediately into the forecast, variance, valuation and integrity views, and the full edit history can be undone or redone." 
+                            />
+
+                            <DataGrid data={data} onChange={handleGridChange} history={dataHistory} fiscalYearEnd={periodSettings.fiscalYearEnd} />
+
+                            <div className="mt-12 border border-stone-200 p-8">
+                                <label className="block text-[10px] font-bold text-stone-500 uppercase tracking-widest mb-3">Model Notes</label>
+                                <textarea 
+                                    value={notes} 
+                                    onChange={e => setNotes(e.target.value)} 
+                                    rows={4} 
+                                    placeholder="Sources, adjustments, open questions... Saved with the workspace and in exported model files." 
+                                    className="w-full px-4 py-3 bg-stone-50 border border-stone-200 rounded-none text-sm text-black focus:outline-none focus:ring-0 focus:border-black transition-all placeholder-stone-400"
+                                />
+                            </div>
                         </motion.div>
                     )}
                 </AnimatePresence>
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, History } from 'lucide-react';
+import { FinancialRecord } from '../types';
+import { MarketTrendChart } from './FinancialCharts';
+import { runBacktest } from '../lib/backtest';
+import { ForecastModel, forecastModelLabel } from '../lib/forecast';
+
+const fmt = (v: number | null, digits = 0) => v === null ? '—' : v.toLocaleString(undefined, { maximumFractionDigits: digits, minimumFractionDigits: digits });
+
+// Walk-forward accuracy of every forecast model on the metric being projected. Click a row to overlay
+// that model's one-step-ahead predictions on the chart.
+export const BacktestPanel = ({ data, metric, model, periodsPerYear, horizonSteps, formatLabel }: {
+    data: FinancialRecord[],
+    metric: string,
+    model: ForecastModel,
+    periodsPerYear: number,
+    horizonSteps: number,
+    formatLabel: (t: number) => string
+}) => {
+    const report = useMemo(() => {
+        const points = data.filter(d => d[metric] !== undefined && d[metric] !== null);
+        return runBacktest(points.map(d => d.Year), points.map(d => d[metric] as number), periodsPerYear, horizonSteps);
+    }, [data, metric, periodsPerYear, horizonSteps]);
+
+    const [shown, setShown] = useState<string[]>([forecastModelLabel(model)]);
+    useEffect(() => { setShown([forecastModelLabel(model)]); }, [model]);
+
+    const toggle = (label: string) => setShown(prev => prev.includes(label) ? prev.filter(l => l !== label) : [...prev, label]);
+
+    const ranked = report.scores.filter(s => s.mape !== null).sort((a, b) => a.mape! - b.mape!);
+    const best = ranked[0]?.model;
+
+    return (
+        <div className="bg-white border border-stone-200 p-10 mt-8">
+            <div className="flex justify-between items-start mb-2">
+                <h3 className="font-serif text-3xl text-black flex items-center gap-3"><History size={20} /> Backtest</h3>
+                <span className="text-[10px] font-bold uppercase tracking-widest text-stone-400">{report.origins} walk-forward origin(s)</span>
+            </div>
+            <p className="text-xs text-stone-400 uppercase tracking-widest mb-8">One-step-ahead {metric} predictions vs actuals</p>
+
+            {report.warnings.map(w => (
+                <div key={w} className="flex items-start gap-2 mb-4 p-3 bg-stone-50 border-l-2 border-black text-xs text-stone-700">
+                    <AlertTriangle size={12} className="mt-0.5 shrink-0" /> {w}
+                </div>
+            ))}
+
+            {report.series.length > 0 && (
+                <MarketTrendChart data={report.series} dataKey="Actual" series={['Actual', ...shown]} formatLabel={formatLabel} />
+            )}
+
+            <table className="w-full text-xs mt-8">
+                <thead>
+                    <tr className="text-[10px] uppercase tracking-widest text-stone-500 border-b border-black">
+                        <th className="text-left py-2">Method</th>
+                        <th className="text-right py-2">MAPE</th>
+                        <th className="text-right py-2">RMSE</th>
+                        <th className="text-right py-2">Bias</th>
+                        <th className="text-right py-2">Points</th>
+                    </tr>
+                </thead>
+                <tbody className="font-mono">
+                    {report.scores.map(s => (
+                        <tr
+                            key={s.model}
+                            onClick={() => toggle(s.label)}
+                            className={`border-b border-stone-100 cursor-pointer hover:bg-stone-50 ${s.model === model ? 'font-bold text-black' : 'text-stone-600'}`}
+                        >
+                            <td className="py-2 font-sans">
+                                <span className={`inline-block w-2 h-2 mr-2 border border-black ${shown.includes(s.label) ? 'bg-black' : ''}`} />
+                                {s.label}
+                                {s.model === best && <span className="ml-2 text-[9px] px-1.5 py-px bg-black text-white uppercase tracking-widest">Best</span>}
+                            </td>
+                            <td className="py-2 text-right">{s.mape === null ? '—' : `${fmt(s.mape, 1)}%`}</td>
+                            <td className="py-2 text-right">{fmt(s.rmse)}</td>
+                            <td className="py-2 text-right">{s.bias === null ? '—' : `${s.bias > 0 ? '+' : ''}${fmt(s.bias)}`}</td>
+                            <td className="py-2 text-right">{s.points}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <p className="text-[10px] text-stone-400 mt-3">Bias is the mean of predicted minus actual: positive means the method over-forecast.</p>
+        </div>
+    );
+};
@@ -0,0 +1,257 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { Plus, Trash2, Undo2, Redo2, X, ClipboardPaste } from 'lucide-react';
+import { FinancialRecord } from '../types';
+import { coerceNumber, tokenizeCSV } from '../lib/csv';
+import { ParsedPeriod, parsePeriodLabel } from '../lib/periods';
+import { HistoryControls } from '../lib/history';
+import { rowLabel } from '../lib/integrity';
+
+const HIDDEN_COLUMNS = new Set(['Month', 'PeriodMonths']);
+
+export interface CellEdit {
+  row: number;
+  column: string;
+}
+
+const formatCell = (v: number | undefined) => (v === undefined || v === null || isNaN(v) ? '' : String(v));
+
+const isUndoKey = (e: React.KeyboardEvent) => (e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'z' && !e.shiftKey;
+const isRedoKey = (e: React.KeyboardEvent) => (e.metaKey || e.ctrlKey) && (e.key.toLowerCase() === 'y' || (e.key.toLowerCase() === 'z' && e.shiftKey));
+
+// Moves a row to the period a Year cell was set to. Year, Month and PeriodMonths change together so the row
+// never keeps the month of its old period; a date without a period length keeps the row's own length.
+const withPeriod = (row: FinancialRecord, period: ParsedPeriod): FinancialRecord => {
+    const { Month, PeriodMonths, ...rest } = row;
+    if (period.Month === undefined) return { ...rest, Year: period.Year } as FinancialRecord;
+    return { ...rest, Year: period.Year, Month: period.Month, PeriodMonths: period.PeriodMonths ?? PeriodMonths ?? 1 } as FinancialRecord;
+};
+
+// A single editable cell. Edits are held as a draft and committed on blur / Enter so that one
+// change is one undo step rather than one per keystroke. Year cells show and accept period labels.
+const GridCell = ({ value, isYear, label, fiscalYearEnd, onCommit, onCommitPeriod, onPaste, history }: {
+    value: number | undefined,
+    isYear: boolean,
+    label?: string,
+    fiscalYearEnd: number,
+    onCommit: (v: number | undefined) => void,
+    onCommitPeriod: (period: ParsedPeriod) => void,
+    onPaste: (text: string) => void,
+    history: HistoryControls
+}) => {
+    const committed = isYear && label ? label : formatCell(value);
+    const [draft, setDraft] = useState(committed);
+    const [invalid, setInvalid] = useState(false);
+
+    useEffect(() => {
+        setDraft(committed);
+        setInvalid(false);
+    }, [committed]);
+
+    const commit = () => {
+        if (draft === committed) return;
+        if (draft.trim() === '') {
+            if (isYear) { setDraft(committed); return; }
+            onCommit(undefined);
+            return;
+        }
+        const parsed = isYear ? parsePeriodLabel(draft, fiscalYearEnd) : coerceNumber(draft);
+        if (parsed === null) {
+            setInvalid(true);
+            return;
+        }
+        if (typeof parsed === 'number') onCommit(parsed);
+        else onCommitPeriod(parsed);
+    };
+
+    return (
+        <input
+            value={draft}
+            onChange={e => { setDraft(e.target.value); setInvalid(false); }}
+            onBlur={commit}
+            onKeyDown={e => {
+                if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                else if (e.key === 'Escape') setDraft(committed);
+                // Hand undo/redo to the grid history when there is no in-cell edit to undo
+                else if (draft === committed && isUndoKey(e)) { e.preventDefault(); history.undo(); }
+                else if (draft === committed && isRedoKey(e)) { e.preventDefault(); history.redo(); }
+            }}
+            onPaste={e => {
+                const text = e.clipboardData.getData('text/plain');
+                // Single values paste into the cell like normal; blocks fan out across the grid
+                if (/[\t\n]/.test(text.trim())) {
+                    e.preventDefault();
+                    onPaste(text);
+                }
+            }}
+            className={`w-full bg-transparent text-right font-mono text-xs px-3 py-2 focus:outline-none focus:bg-stone-100 ${invalid ? 'outline outline-1 outline-black bg-stone-200' : ''} ${isYear ? 'font-bold' : ''}`}
+            title={invalid ? (isYear ? 'Not a period' : 'Not a number') : undefined}
+        />
+    );
+};
+
+// Empty row for the period after `last`, matching its granularity
+const nextPeriodRow = (last?: FinancialRecord): FinancialRecord => {
+    if (!last) return { Year: new Date().getFullYear() } as FinancialRecord;
+    if (last.Month === undefined) return { Year: last.Year + 1 } as FinancialRecord;
+    const step = last.PeriodMonths || 1;
+    const month = last.Month + step;
+    return { Year: last.Year + (month > 12 ? 1 : 0), Month: ((month - 1) % 12) + 1, PeriodMonths: step } as FinancialRecord;
+};
+
+export const DataGrid = ({ data, onChange, history, fiscalYearEnd }: {
+    data: FinancialRecord[],
+    onChange: (next: FinancialRecord[], edits: CellEdit[]) => void,
+    history: HistoryControls,
+    fiscalYearEnd: number // Places fiscal quarter labels ("Q2 FY24") typed or pasted into the Year column
+}) => {
+    const [extraColumns, setExtraColumns] = useState<string[]>([]);
+    const [newColumn, setNewColumn] = useState('');
+
+    const columns = useMemo(() => {
+        const cols: string[] = ['Year'];
+        data.forEach(r => Object.keys(r).forEach(k => {
+            if (!HIDDEN_COLUMNS.has(k) && !cols.includes(k)) cols.push(k);
+        }));
+        extraColumns.forEach(c => { if (!cols.includes(c)) cols.push(c); });
+        return cols;
+    }, [data, extraColumns]);
+
+    const setCell = (row: number, column: string, value: number | undefined) => {
+        const next = data.map((r, i) => {
+            if (i !== row) return r;
+            const copy = { ...r };
+            if (value === undefined) delete copy[column];
+            else copy[column] = value;
+            return copy;
+        });
+        onChange(next, [{ row, column }]);
+    };
+
+    const setPeriod = (row: number, period: ParsedPeriod) =>
+        onChange(data.map((r, i) => (i === row ? withPeriod(r, period) : r)), [{ row, column: 'Year' }]);
+
+    // Pastes a tab/newline separated block (as copied from Excel) with its top-left at (row, col)
+    const pasteBlock = (row: number, colIdx: number, text: string) => {
+        const block = tokenizeCSV(text, '\t');
+        const next = data.map(r => ({ ...r }));
+        const edits: CellEdit[] = [];
+
+        block.forEach((cells, r) => {
+            const target = row + r;
+            if (target >= next.length) next.push(nextPeriodRow(next[next.length - 1]));
+            cells.forEach((raw, c) => {
+                const column = columns[colIdx + c];
+                if (!column) return;
+                if (column === 'Year') {
+                    const period = parsePeriodLabel(raw, fiscalYearEnd);
+                    if (period === null) return;
+                    next[target] = withPeriod(next[target], period);
+                } else {
+                    const num = coerceNumber(raw);
+                    if (num === null) return;
+                    next[target][column] = num;
+                }
+                edits.push({ row: target, column });
+            });
+        });
+        onChange(next, edits);
+    };
+
+    const addRow = () => onChange([...data, nextPeriodRow(data[data.length - 1])], []);
+
+    const deleteRow = (row: number) => onChange(data.filter((_, i) => i !== row), []);
+
+    const addColumn = () => {
+        const name = newColumn.trim();
+        if (!name || columns.includes(name)) return;
+        setExtraColumns([...extraColumns, name]);
+        setNewColumn('');
+    };
+
+    const deleteColumn = (column: string) => {
+        setExtraColumns(extraColumns.filter(c => c !== column));
+        if (!data.some(r => r[column] !== undefined)) return;
+        onChange(data.map(r => {
+            const copy = { ...r };
+            delete copy[column];
+            return copy;
+        }), []);
+    };
+
+    const buttonClass = "px-4 py-2 border border-stone-200 text-xs font-bold uppercase tracking-widest hover:border-black transition-colors flex items-center gap-2 disabled:opacity-30 disabled:hover:border-stone-200";
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex gap-2">
+                    <button onClick={history.undo} disabled={!history.canUndo} className={buttonClass} title="Undo (Ctrl+Z)"><Undo2 size={12} /> Undo</button>
+                    <button onClick={history.redo} disabled={!history.canRedo} className={buttonClass} title="Redo (Ctrl+Y)"><Redo2 size={12} /> Redo</button>
+                    <button onClick={addRow} className={buttonClass}><Plus size={12} /> Add Row</button>
+                </div>
+                <div className="flex gap-2">
+                    <input
+                        value={newColumn}
+                        onChange={e => setNewColumn(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') addColumn(); }}
+                        placeholder="New column name"
+                        className="px-3 py-2 bg-stone-50 border border-stone-200 rounded-none font-mono text-xs text-black focus:outline-none focus:border-black"
+                    />
+                    <button onClick={addColumn} disabled={!newColumn.trim()} className={buttonClass}><Plus size={12} /> Add Column</button>
+                </div>
+            </div>
+
+            <div className="border border-stone-200 overflow-x-auto">
+                <table className="w-full">
+                    <thead>
+                        <tr className="bg-stone-50 text-[10px] uppercase tracking-widest text-stone-500">
+                            {columns.map(c => (
+                                <th key={c} className="text-right px-3 py-2 whitespace-nowrap">
+                                    <span className="inline-flex items-center gap-1">
+                                        {c}
+                                        {c !== 'Year' && (
+                                            <button onClick={() => deleteColumn(c)} className="text-stone-300 hover:text-black" title={`Delete column ${c}`}><X size={10} /></button>
+                                        )}
+                                    </span>
+                                </th>
+                            ))}
+                            <th className="w-8" />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {data.map((r, row) => (
+                            <tr key={row} className="border-t border-stone-100 hover:bg-stone-50">
+                                {columns.map((c, colIdx) => (
+                                    <td key={c} className="p-0 border-r border-stone-100 min-w-[110px]">
+                                        <GridCell
+                                            value={r[c]}
+                                            isYear={c === 'Year'}
+                                            label={c === 'Year' ? rowLabel(r) : undefined}
+                                            fiscalYearEnd={fiscalYearEnd}
+                                            onCommit={v => setCell(row, c, v)}
+                                            onCommitPeriod={p => setPeriod(row, p)}
+                                            onPaste={text => pasteBlock(row, colIdx, text)}
+                                            history={history}
+                                        />
+                                    </td>
+                                ))}
+                                <td className="px-2 text-center">
+                                    <button onClick={() => deleteRow(row)} className="text-stone-300 hover:text-black" title="Delete row"><Trash2 size={12} /></button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {data.length === 0 && <div className="p-6 text-center text-stone-300 text-xs uppercase tracking-widest">No rows — add one or paste from a spreadsheet</div>}
+            </div>
+
+            <p className="text-xs text-stone-400 flex items-center gap-2">
+                <ClipboardPaste size={12} /> Paste a block copied from Excel into any cell to fill the grid from that point. Enter commits a cell, Escape reverts it.
+            </p>
+        </div>
+    );
+};
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Microscope } from 'lucide-react';
+import { ResidualChart } from './FinancialCharts';
+import { RegressionDiagnostics, summarizeDiagnostics } from '../lib/forecast';
+
+// Fit quality of the target metric's forecast, shown under the Scenario Analysis chart
+export const DiagnosticsPanel = ({ diagnostics, metric, modelLabel, formatLabel }: {
+    diagnostics?: RegressionDiagnostics,
+    metric: string,
+    modelLabel: string,
+    formatLabel: (t: number) => string
+}) => (
+    <div className="mt-8 pt-8 border-t border-stone-200">
+        <h4 className="font-bold text-[10px] uppercase tracking-widest text-black mb-4 flex items-center gap-2">
+            <Microscope size={12} /> Regression Diagnostics: {metric}
+        </h4>
+        {!diagnostics ? (
+            <p className="text-xs text-stone-500">
+                Diagnostics are reported for the least-squares models (Linear Regression, Log-Linear, Polynomial). {modelLabel} is not a trend regression.
+            </p>
+        ) : (
+            <>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-px bg-stone-200 border border-stone-200">
+                    {summarizeDiagnostics(diagnostics).map(stat => (
+                        <div key={stat.label} className="bg-white p-3">
+                            <p className="text-[10px] font-bold uppercase tracking-widest text-stone-500">{stat.label}</p>
+                            <p className="font-mono text-sm text-black mt-1">{stat.value}</p>
+                            <p className="text-[10px] text-stone-400 mt-0.5">{stat.reading}</p>
+                        </div>
+                    ))}
+                </div>
+
+                <p className="text-[10px] font-bold text-stone-500 uppercase tracking-widest mt-6 mb-2">
+                    Residuals vs Time{diagnostics.logScale ? ' (log scale)' : ''}
+                </p>
+                <ResidualChart data={diagnostics.residuals} highlight={diagnostics.highLeverage} formatLabel={formatLabel} />
+                <p className="text-[10px] text-stone-400 mt-2">
+                    {diagnostics.highLeverage.length
+                        ? `High leverage (above ${(2 * diagnostics.params / diagnostics.n).toFixed(2)}), shown in black: ${diagnostics.highLeverage.map(formatLabel).join(', ')}. These periods pull hardest on the fitted trend.`
+                        : 'No period has high leverage; no single point dominates the fitted trend.'}
+                </p>
+            </>
+        )}
+    </div>
+);
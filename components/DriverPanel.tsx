@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { RotateCcw, SlidersHorizontal } from 'lucide-react';
+import { DriverSchedule } from '../types';
+import { DRIVER_FIELDS, ProjectionRow } from '../lib/drivers';
+
+const OUTPUT_ROWS: (keyof ProjectionRow)[] = ['Revenue', 'Net Income', 'Net Capex', 'Change in WC', 'Free Cash Flow'];
+const ROW_LABELS: Partial<Record<keyof ProjectionRow, string>> = { Override: 'Analyst Override' };
+
+const money = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+// Per-year driver inputs and the integrated projection they produce. The DCF values the FCF row.
+export const DriverPanel = ({ schedule, fitted, edited, rows, baseRevenue, onChange, onReset }: {
+    schedule: DriverSchedule,
+    fitted: DriverSchedule,
+    edited: boolean,
+    rows: ProjectionRow[],
+    baseRevenue: number,
+    onChange: (schedule: DriverSchedule) => void,
+    onReset: () => void
+}) => {
+    const setCell = (field: keyof DriverSchedule, year: number, value: number) =>
+        onChange({ ...schedule, [field]: schedule[field].map((v, i) => i === year ? value : v) });
+
+    const years = Array.from({ length: schedule.growth.length }, (_, i) => i);
+    // Overrides of forecast FCF show as their own line just above the FCF they feed into
+    const overridden = rows.some(r => r.Override);
+    const outputRows = overridden ? [...OUTPUT_ROWS.slice(0, -1), 'Override' as const, 'Free Cash Flow' as const] : OUTPUT_ROWS;
+
+    return (
+        <div className="bg-white border border-stone-200 p-10 mt-12">
+            <div className="flex justify-between items-start mb-2">
+                <h3 className="font-serif text-3xl text-black flex items-center gap-3"><SlidersHorizontal size={20} /> Projection Drivers</h3>
+                <div className="flex items-center gap-4">
+                    <span className="text-[10px] font-bold uppercase tracking-widest text-stone-400">{edited ? 'Edited' : 'Fitted from history'}</span>
+                    {edited && (
+                        <button onClick={onReset} className="flex items-center gap-2 px-3 py-1 border border-stone-200 text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:border-black hover:text-black transition-colors">
+                            <RotateCcw size={12} /> Refit
+                        </button>
+                    )}
+                </div>
+            </div>
+            <p className="text-xs text-stone-400 uppercase tracking-widest mb-8">Revenue, Net Income and FCF projected together from last year's revenue of ${money(baseRevenue)}</p>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="text-[10px] uppercase tracking-widest text-stone-500 border-b border-black">
+                            <th className="text-left py-2">Driver</th>
+                            {years.map(i => <th key={i} className="text-right py-2 px-1">Y+{i + 1}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {DRIVER_FIELDS.map(({ id, label }) => (
+                            <tr key={id} className="border-b border-stone-100">
+                                <td className="py-2 pr-4 text-stone-600 whitespace-nowrap">{label}</td>
+                                {years.map(i => (
+                                    <td key={i} className="py-1 px-1">
+                                        <input
+                                            type="number"
+                                            step={0.1}
+                                            value={schedule[id][i]}
+                                            onChange={e => setCell(id, i, Number(e.target.value))}
+                                            title={`Fitted: ${fitted[id][i]}`}
+                                            className={`w-full min-w-[64px] text-right bg-stone-50 border rounded-none px-2 py-1.5 font-mono text-xs text-black focus:outline-none focus:border-black transition-colors ${schedule[id][i] !== fitted[id][i] ? 'border-black' : 'border-stone-200'}`}
+                                        />
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                        {outputRows.map(key => (
+                            <tr key={key} className={key === 'Free Cash Flow' ? 'border-t border-black font-bold text-black' : 'border-b border-stone-100 text-stone-600'}>
+                                <td className="py-2 pr-4 whitespace-nowrap">{ROW_LABELS[key] || key}</td>
+                                {rows.map(r => <td key={r.Year} className="py-2 px-1 text-right font-mono">{money(r[key] ?? 0)}</td>)}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-[10px] text-stone-400 mt-3">FCF = Net Income − Net Capex − Change in WC{overridden ? ' + Analyst Override (from overridden FCF forecast periods)' : ''}. Cells that differ from the fitted value are outlined.</p>
+        </div>
+    );
+};
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Building2, Plus, X } from 'lucide-react';
+import { Entity } from '../types';
+
+// Workspace entity switcher. Double-click a name to rename it.
+export const EntityBar = ({ entities, activeId, onSelect, onAdd, onRemove, onRename }: {
+    entities: Entity[],
+    activeId: string,
+    onSelect: (id: string) => void,
+    onAdd: () => void,
+    onRemove: (id: string) => void,
+    onRename: (id: string, name: string) => void
+}) => {
+    const [editing, setEditing] = useState<string | null>(null);
+    const [draft, setDraft] = useState('');
+
+    const commit = () => {
+        if (editing && draft.trim()) onRename(editing, draft.trim());
+        setEditing(null);
+    };
+
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-2 mb-8">
+            <span className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-stone-500 mr-2">
+                <Building2 size={12} className="text-black" /> Entities
+            </span>
+            {entities.map(e => (
+                <div
+                    key={e.id}
+                    className={`flex items-center gap-2 px-4 py-1.5 border text-xs font-bold tracking-wider transition-colors ${e.id === activeId ? 'bg-black text-white border-black' : 'bg-white text-stone-500 border-stone-200 hover:border-black cursor-pointer'}`}
+                    onClick={() => onSelect(e.id)}
+                    onDoubleClick={() => { setEditing(e.id); setDraft(e.name); }}
+                >
+                    {editing === e.id ? (
+                        <input
+                            autoFocus
+                            value={draft}
+                            onChange={ev => setDraft(ev.target.value)}
+                            onBlur={commit}
+                            onKeyDown={ev => { if (ev.key === 'Enter') commit(); else if (ev.key === 'Escape') setEditing(null); }}
+                            onClick={ev => ev.stopPropagation()}
+                            className="bg-transparent focus:outline-none w-32 border-b border-current"
+                        />
+                    ) : (
+                        <span title="Double-click to rename">{e.name}</span>
+                    )}
+                    {entities.length > 1 && (
+                        <button
+                            onClick={ev => { ev.stopPropagation(); onRemove(e.id); }}
+                            className={e.id === activeId ? 'text-stone-400 hover:text-white' : 'text-stone-300 hover:text-black'}
+                            title={`Remove ${e.name}`}
+                        >
+                            <X size={10} />
+                        </button>
+                    )}
+                </div>
+            ))}
+            <button onClick={onAdd} className="flex items-center gap-1 px-3 py-1.5 border border-dashed border-stone-300 text-xs font-bold uppercase tracking-widest text-stone-500 hover:border-black hover:text-black transition-colors">
+                <Plus size={12} /> Add
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { Entity } from '../types';
+import { MarketTrendChart } from './FinancialCharts';
+import { PeriodSettings, toPeriodView, formatPeriod } from '../lib/periods';
+import { computeMarketMetrics, formatMarketMetrics } from '../lib/metrics';
+import { computeDCF, dcfCalendar, dcfStructure, projectionHorizon } from '../lib/dcf';
+import { buildProjection } from '../lib/drivers';
+import { ForecastModel } from '../lib/forecast';
+import { recordsFcfOverrideDeltas, withFcfOverrides } from '../lib/overrides';
+
+const METRICS = ['Revenue', 'Net Income', 'Free Cash Flow'];
+
+const money = (n: number) => '$' + n.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+export const EntityComparison = ({ entities, activeId, periodSettings, forecast }: {
+    entities: Entity[],
+    activeId: string,
+    periodSettings: PeriodSettings,
+    forecast: { metrics: string[]; model: ForecastModel; horizon: number } // Shared settings the FCF overrides apply against
+}) => {
+    const [metric, setMetric] = useState('Revenue');
+
+    // Every entity goes through the same period view and JS engines so rows are comparable
+    const rows = useMemo(() => entities.map(e => {
+        const view = toPeriodView(e.data, periodSettings);
+        const metrics = computeMarketMetrics(view.records);
+        const options = { periodsPerYear: view.periodsPerYear, ttm: periodSettings.rollup === 'ttm' && view.periodsPerYear > 1 };
+        const horizon = projectionHorizon(dcfStructure(e.assumptions));
+        const projection = buildProjection(view.records, options, e.drivers, horizon);
+        // FCF overrides move the valuation exactly as on the Valuation tab
+        const projected = projection && withFcfOverrides(projection.rows, recordsFcfOverrideDeltas(view.records, e.overrides || [], forecast, options, horizon));
+        const dcf = projected ? computeDCF(projected, e.assumptions, dcfCalendar(view.records, view.periodsPerYear, periodSettings.fiscalYearEnd)) : null;
+        return { entity: e, view, metrics, display: formatMarketMetrics(metrics), dcf };
+    }), [entities, periodSettings, forecast]);
+
+    // Series are keyed by id; names are for display only and may repeat
+    const seriesNames = useMemo(() => Object.fromEntries(entities.map(e => [e.id, e.name])), [entities]);
+
+    // Overlay only makes sense on a shared time axis; fall back to the coarsest granularity in use
+    const granularity = rows.some(r => r.view.granularity === 'annual') ? 'annual' : rows.some(r => r.view.granularity === 'quarterly') ? 'quarterly' : 'monthly';
+    const overlay = useMemo(() => {
+        const byYear = new Map<number, Record<string, number>>();
+        rows.forEach(({ entity }) => {
+            const view = toPeriodView(entity.data, { ...periodSettings, granularity });
+            view.records.forEach(r => {
+                const row = byYear.get(r.Year) || { Year: r.Year };
+                if (r[metric] !== undefined) row[entity.id] = r[metric] as number;
+                byYear.set(r.Year, row);
+            });
+        });
+        return [...byYear.values()].sort((a, b) => a.Year - b.Year);
+    }, [rows, metric, periodSettings, granularity]);
+
+    const ranked = [...rows]
+        .filter(r => r.dcf?.success && isFinite(r.dcf.sharePrice))
+        .sort((a, b) => b.dcf!.sharePrice - a.dcf!.sharePrice);
+
+    return (
+        <div className="space-y-12">
+            <div className="bg-white rounded-none border border-stone-200 p-10 shadow-none">
+                <div className="flex justify-between items-center mb-8 border-b border-stone-100 pb-6">
+                    <h3 className="font-serif text-3xl text-black">{metric} Overlay</h3>
+                    <div className="relative">
+                        <select
+                            value={metric}
+                            onChange={e => setMetric(e.target.value)}
+                            className="bg-black text-white rounded-none px-4 py-1 pr-8 text-xs font-bold uppercase tracking-widest appearance-none focus:outline-none"
+                        >
+                            {METRICS.map(m => <option key={m} value={m}>{m}</option>)}
+                        </select>
+                        <ChevronDown size={12} className="absolute right-2 top-1/2 -translate-y-1/2 text-white pointer-events-none" />
+                    </div>
+                </div>
+                <MarketTrendChart data={overlay} dataKey={metric} series={entities.map(e => e.id)} seriesNames={seriesNames} formatLabel={t => formatPeriod(t, granularity)} />
+                <div className="mt-6 flex flex-wrap justify-center gap-6 text-xs font-bold uppercase tracking-widest text-stone-500">
+                    {entities.map((e, i) => <span key={e.id} className={e.id === activeId ? 'text-black' : ''}>{i + 1}. {e.name}</span>)}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
+                <div className="border border-stone-200 p-10">
+                    <h3 className="font-serif text-2xl text-black mb-2">KPI Comparison</h3>
+                    <p className="text-xs text-stone-400 uppercase tracking-widest mb-8">Market Vision metrics per entity</p>
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-[10px] uppercase tracking-widest text-stone-500 border-b border-black">
+                                <th className="text-left py-2">Entity</th>
+                                <th className="text-right py-2">Implied ROE</th>
+                                <th className="text-right py-2">Rate Base</th>
+                                <th className="text-right py-2">Avg Revenue</th>
+                                <th className="text-right py-2">Peak Revenue</th>
+                            </tr>
+                        </thead>
+                        <tbody className="font-mono">
+                            {rows.map(({ entity, display }) => (
+                                <tr key={entity.id} className={`border-b border-stone-100 ${entity.id === activeId ? 'font-bold text-black' : 'text-stone-600'}`}>
+                                    <td className="py-2 font-sans">{entity.name}</td>
+                                    <td className="py-2 text-right">{display.roe}</td>
+                                    <td className="py-2 text-right">{display.rateBase}</td>
+                                    <td className="py-2 text-right">{display.avgRev}</td>
+                                    <td className="py-2 text-right">{display.maxRev}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="bg-black text-white p-10">
+                    <h3 className="font-serif text-2xl text-white mb-2">Fair Value Ranking</h3>
+                    <p className="text-xs text-stone-500 uppercase tracking-widest mb-8">DCF per entity, own assumptions (JS engine)</p>
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-[10px] uppercase tracking-widest text-stone-500 border-b border-stone-700">
+                                <th className="text-left py-2">#</th>
+                                <th className="text-left py-2">Entity</th>
+                                <th className="text-right py-2">WACC</th>
+                                <th className="text-right py-2">Enterprise Value</th>
+                                <th className="text-right py-2">Fair Value / Share</th>
+                            </tr>
+                        </thead>
+                        <tbody className="font-mono">
+                            {ranked.map(({ entity, dcf }, i) => (
+                                <tr key={entity.id} className={`border-b border-stone-800 ${entity.id === activeId ? 'text-white font-bold' : 'text-stone-400'}`}>
+                                    <td className="py-2">{i + 1}</td>
+                                    <td className="py-2 font-sans">{entity.name}</td>
+                                    <td className="py-2 text-right">{entity.assumptions.wacc}%</td>
+                                    <td className="py-2 text-right">{money(dcf!.enterpriseValue)}</td>
+                                    <td className="py-2 text-right">${dcf!.sharePrice.toFixed(2)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {ranked.length < rows.length && (
+                        <p className="text-xs text-stone-500 mt-4">{rows.length - ranked.length} entity(ies) without enough data or valid assumptions to value.</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -5,20 +5,27 @@
 */
 
 import React from 'react';
-import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, LineChart, Line, BarChart, Bar, Cell, ComposedChart, ReferenceLine } from 'recharts';
+import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, LineChart, Line, BarChart, Bar, Cell, ComposedChart, ReferenceLine, Customized } from 'recharts';
+import { ForecastSeries, ForecastRow, mergeForecastSeries } from '../lib/forecast';
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+// Formats the numeric period index on the X axis (e.g. 2024.25 -> "Q2 FY24"). Defaults to the raw value.
+type LabelFormatter = (value: number) => string;
+
+// Cone guide lines, shown muted in the tooltip
+const BAND_NAMES = ['Optimistic', 'Pessimistic', 'Upper Bound', 'Lower Bound'];
+
+const CustomTooltip = ({ active, payload, label, formatLabel }: any) => {
   if (active && payload && payload.length) {
     return (
       <div className="bg-white border border-black p-3 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
-        <p className="text-stone-500 text-xs mb-1 font-serif uppercase tracking-widest border-b border-stone-200 pb-1">{label}</p>
+        <p className="text-stone-500 text-xs mb-1 font-serif uppercase tracking-widest border-b border-stone-200 pb-1">{formatLabel ? formatLabel(label) : label}</p>
         {payload.map((p: any, index: number) => {
             if (p.value === null || p.value === undefined) return null;
             // Skip rendering 'Confidence Interval' array in tooltip text, only show single lines
-            if (p.name === 'Confidence Interval') return null;
+            if (String(p.name).endsWith('Confidence Interval')) return null;
             
             return (
-                <p key={index} className={`font-mono font-bold text-sm ${p.name === 'Optimistic' || p.name === 'Pessimistic' ? 'text-stone-400 text-xs' : 'text-black'}`}>
+                <p key={index} className={`font-mono font-bold text-sm ${BAND_NAMES.some(b => String(p.name).endsWith(b)) ? 'text-stone-400 text-xs' : 'text-black'}`}>
                     {p.name}: {typeof p.value === 'number' ? p.value.toLocaleString() : p.value}
                 </p>
             );
@@ -59,7 +66,18 @@ const ValuationTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
-export const MarketTrendChart = ({ data, dataKey }: { data: any[], dataKey: string }) => {
+// Grayscale stroke styles used to tell overlaid series apart
+const SERIES_STYLES = [
+  { stroke: '#000000', dash: '0' },
+  { stroke: '#737373', dash: '0' },
+  { stroke: '#000000', dash: '6 3' },
+  { stroke: '#a3a3a3', dash: '0' },
+  { stroke: '#525252', dash: '2 2' },
+  { stroke: '#a3a3a3', dash: '6 3' },
+];
+
+// `seriesNames` maps overlay keys to the label shown in the legend and tooltip, when the keys are ids
+export const MarketTrendChart = ({ data, dataKey, formatLabel, series, seriesNames }: { data: any[], dataKey: string, formatLabel?: LabelFormatter, series?: string[], seriesNames?: Record<string, string> }) => {
   return (
     <div className="h-72 w-full">
       <ResponsiveContainer width="100%" height="100%">
@@ -71,51 +89,146 @@ export const MarketTrendChart = ({ data, dataKey }: { data: any[], dataKey: stri
             </linearGradient>
           </defs>
           <CartesianGrid strokeDasharray="0" stroke="#e5e5e5" vertical={false} />
-          <XAxis dataKey="Year" tick={{fontFamily: 'Inter', fontSize: 12, fill: '#000000'}} axisLine={{stroke: '#000000'}} tickLine={false} />
+          <XAxis dataKey="Year" tickFormatter={formatLabel} tick={{fontFamily: 'Inter', fontSize: 12, fill: '#000000'}} axisLine={{stroke: '#000000'}} tickLine={false} />
           <YAxis tick={{fontFamily: 'Inter', fontSize: 12, fill: '#000000'}} axisLine={false} tickLine={false} />
-          <Tooltip content={<CustomTooltip />} />
-          <Area type="monotone" dataKey={dataKey} stroke="#000000" strokeWidth={2} fillOpacity={1} fill="url(#colorValue)" name={dataKey} />
+          <Tooltip content={<CustomTooltip formatLabel={formatLabel} />} />
+          {series ? (
+            // Overlay mode: one unfilled line per series, e.g. one per entity
+            series.map((key, i) => {
+              const style = SERIES_STYLES[i % SERIES_STYLES.length];
+              return <Area key={key} type="monotone" dataKey={key} stroke={style.stroke} strokeDasharray={style.dash} strokeWidth={2} fill="none" name={seriesNames?.[key] ?? key} connectNulls />;
+            })
+          ) : (
+            <Area type="monotone" dataKey={dataKey} stroke="#000000" strokeWidth={2} fillOpacity={1} fill="url(#colorValue)" name={dataKey} />
+          )}
         </AreaChart>
       </ResponsiveContainer>
     </div>
   );
 };
 
-export const ForecastChart = ({ data, targetCol }: { data: any[], targetCol: string }) => {
+// Called with the new value when a forecast point is dragged and released
+type OverrideHandler = (metric: string, year: number, value: number) => void;
+
+// Markers and drag handles for the forecast points, drawn inside the chart via <Customized>, which passes
+// in the chart's own state: the laid-out points of every Line and the Y axis scale. Overridden points are
+// drawn as squares joined to a hollow marker at the model's value. While dragging, the point follows the
+// pointer (captured, so it keeps tracking outside the handle) and the new value is reported on release.
+const OverrideLayer = ({ formattedGraphicalItems, yAxisMap, series, lineName, onOverride }: any) => {
+    const [drag, setDrag] = React.useState<{ metric: string, year: number, x: number, y: number, top: number } | null>(null);
+    const yAxis: any = yAxisMap && Object.values(yAxisMap)[0];
+    if (!yAxis || !formattedGraphicalItems) return null;
+    const clampY = (y: number) => Math.min(yAxis.y + yAxis.height, Math.max(yAxis.y, y));
+    const valueAt = (y: number) => Math.round(yAxis.scale.invert(y));
+
+    return (
+        <g>
+            {(series as ForecastSeries[]).map((ser, i) => {
+                const line = formattedGraphicalItems.find((g: any) => g.item.props.name === lineName(ser.metric));
+                const points = (line?.props.points || []).filter((p: any) => p.payload.s[i] && p.payload.s[i].Historical === undefined && p.value !== null && p.value !== undefined);
+                return points.map((p: any) => {
+                    const row = p.payload.s[i];
+                    const dragging = drag && drag.metric === ser.metric && drag.year === p.payload.Year;
+                    const y = dragging ? drag.y : p.y;
+                    const overridden = row.Model !== undefined;
+                    return (
+                        <g key={`${ser.metric}-${p.payload.Year}`}>
+                            {overridden && !dragging && (
+                                <>
+                                    <line x1={p.x} x2={p.x} y1={yAxis.scale(row.Model)} y2={y} stroke="#000" strokeWidth={1} strokeDasharray="2 2" />
+                                    <circle cx={p.x} cy={yAxis.scale(row.Model)} r={3} fill="#fff" stroke="#888888" strokeWidth={1.5} />
+                                </>
+                            )}
+                            {(overridden || dragging) && <rect x={p.x - 5} y={y - 5} width={10} height={10} fill="#000" stroke="#fff" strokeWidth={1.5} />}
+                            {dragging && (
+                                <text x={p.x + 10} y={y - 8} fontSize={11} fontFamily="monospace" fontWeight="bold" fill="#000">{valueAt(y).toLocaleString()}</text>
+                            )}
+                            {onOverride && (
+                                <circle
+                                    cx={p.x}
+                                    cy={y}
+                                    r={10}
+                                    fill="transparent"
+                                    style={{ cursor: 'ns-resize', touchAction: 'none' }}
+                                    onPointerDown={(e: React.PointerEvent<SVGCircleElement>) => {
+                                        e.currentTarget.setPointerCapture(e.pointerId);
+                                        const top = e.currentTarget.ownerSVGElement!.getBoundingClientRect().top;
+                                        setDrag({ metric: ser.metric, year: p.payload.Year, x: p.x, y: p.y, top });
+                                    }}
+                                    onPointerMove={(e: React.PointerEvent<SVGCircleElement>) => {
+                                        if (dragging) setDrag({ ...drag, y: clampY(e.clientY - drag.top) });
+                                    }}
+                                    onPointerUp={() => {
+                                        if (!dragging) return;
+                                        setDrag(null);
+                                        if (Math.abs(drag.y - p.y) >= 2) onOverride(ser.metric, drag.year, valueAt(drag.y));
+                                    }}
+                                >
+                                    <title>{overridden ? `Override${row.Note ? `: ${row.Note}` : ''}. Drag to change.` : 'Drag to override'}</title>
+                                </circle>
+                            )}
+                        </g>
+                    );
+                });
+            })}
+        </g>
+    );
+};
+
+// One line, cone and pair of guides per series. With several series each is prefixed with its metric
+// name and drawn in its own grayscale style; the cone is a translucent wash of the line colour.
+// Analyst overrides are marked on the chart; with `onOverride`, forecast points can be dragged to set them.
+export const ForecastChart = ({ series, formatLabel, bandNames = ['Optimistic', 'Pessimistic'], onOverride }: { series: ForecastSeries[], formatLabel?: LabelFormatter, bandNames?: [string, string], onOverride?: OverrideHandler }) => {
+    const data = mergeForecastSeries(series);
+    const multi = series.length > 1;
+    const name = (metric: string, label: string) => multi ? `${metric} ${label}` : label;
     return (
       <div className="h-72 w-full">
         <ResponsiveContainer width="100%" height="100%">
           <ComposedChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
             <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" vertical={false} />
-            <XAxis dataKey="Year" tick={{fontFamily: 'Inter', fontSize: 12, fill: '#000000'}} axisLine={{stroke: '#000000'}} tickLine={false} />
+            <XAxis dataKey="Year" tickFormatter={formatLabel} tick={{fontFamily: 'Inter', fontSize: 12, fill: '#000000'}} axisLine={{stroke: '#000000'}} tickLine={false} />
             <YAxis tick={{fontFamily: 'Inter', fontSize: 12, fill: '#000000'}} axisLine={false} tickLine={false} />
-            <Tooltip content={<CustomTooltip />} />
-            
-            {/* Confidence Interval Area using Range Tuple [Low, High] */}
-            <Area type="monotone" dataKey="Confidence" stroke="none" fill="#f5f5f4" name="Confidence Interval" />
-            
-            {/* Guides for High/Low */}
-             <Line type="monotone" dataKey="High" stroke="#d6d3d1" strokeWidth={1} strokeDasharray="3 3" dot={false} name="Optimistic" />
-             <Line type="monotone" dataKey="Low" stroke="#d6d3d1" strokeWidth={1} strokeDasharray="3 3" dot={false} name="Pessimistic" />
+            <Tooltip content={<CustomTooltip formatLabel={formatLabel} />} />
+
+            {series.map((ser, i) => {
+                const style = multi ? SERIES_STYLES[i % SERIES_STYLES.length] : { stroke: '#000000', dash: '0' };
+                const key = (field: keyof ForecastRow) => (row: any) => row.s[i]?.[field] ?? null;
+                return (
+                    <React.Fragment key={ser.metric}>
+                        {/* Confidence Interval Area using Range Tuple [Low, High] */}
+                        <Area type="monotone" dataKey={key('Confidence')} stroke="none" fill={multi ? style.stroke : '#f5f5f4'} fillOpacity={multi ? 0.08 : 1} name={name(ser.metric, 'Confidence Interval')} />
+
+                        {/* Guides for High/Low */}
+                        <Line type="monotone" dataKey={key('High')} stroke="#d6d3d1" strokeWidth={1} strokeDasharray="3 3" dot={false} name={name(ser.metric, bandNames[0])} />
+                        <Line type="monotone" dataKey={key('Low')} stroke="#d6d3d1" strokeWidth={1} strokeDasharray="3 3" dot={false} name={name(ser.metric, bandNames[1])} />
 
-            {/* Main Lines */}
-            <Line type="monotone" dataKey="Historical" stroke="#000000" strokeWidth={2} dot={{r: 4, fill: '#000000'}} activeDot={{r: 6}} connectNulls />
-            <Line type="monotone" dataKey="Forecast" stroke="#888888" strokeWidth={2} strokeDasharray="5 5" dot={{r: 4, fill: '#888888'}} activeDot={{r: 6}} />
+                        {/* Main Lines */}
+                        <Line type="monotone" dataKey={key('Historical')} stroke={style.stroke} strokeDasharray={style.dash} strokeWidth={2} dot={{r: 4, fill: style.stroke}} activeDot={{r: 6}} connectNulls name={multi ? ser.metric : 'Historical'} />
+                        <Line type="monotone" dataKey={key('Forecast')} stroke={multi ? style.stroke : '#888888'} strokeWidth={2} strokeDasharray="5 5" dot={{r: 4, fill: multi ? style.stroke : '#888888'}} activeDot={{r: 6}} name={name(ser.metric, 'Forecast')} />
+
+                        {/* Model value behind an override; no line, it only surfaces in the tooltip */}
+                        <Line dataKey={key('Model')} stroke="none" dot={false} activeDot={false} legendType="none" name={name(ser.metric, 'Model (before override)')} />
+                    </React.Fragment>
+                );
+            })}
+
+            <Customized component={<OverrideLayer series={series} lineName={(metric: string) => name(metric, 'Forecast')} onOverride={onOverride} />} />
           </ComposedChart>
         </ResponsiveContainer>
       </div>
     );
   };
 
-export const VarianceChart = ({ data, metric }: { data: any[], metric: string }) => {
+export const VarianceChart = ({ data, metric, formatLabel }: { data: any[], metric: string, formatLabel?: LabelFormatter }) => {
     return (
         <div className="h-72 w-full">
             <ResponsiveContainer width="100%" height="100%">
                 <BarChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
                     <CartesianGrid strokeDasharray="0" stroke="#e5e5e5" vertical={false} />
-                    <XAxis dataKey="Year" tick={{fontFamily: 'Inter', fontSize: 12, fill: '#000000'}} axisLine={{stroke: '#000000'}} tickLine={false} />
+                    <XAxis dataKey="Year" tickFormatter={formatLabel} tick={{fontFamily: 'Inter', fontSize: 12, fill: '#000000'}} axisLine={{stroke: '#000000'}} tickLine={false} />
                     <YAxis tick={{fontFamily: 'Inter', fontSize: 12, fill: '#000000'}} axisLine={false} tickLine={false} />
-                    <Tooltip content={<CustomTooltip />} />
+                    <Tooltip content={<CustomTooltip formatLabel={formatLabel} />} />
                     <ReferenceLine y={0} stroke="#000" />
                     <Bar dataKey="Variance" name="Variance vs Budget">
                         {data.map((entry, index) => (
@@ -128,6 +241,29 @@ export const VarianceChart = ({ data, metric }: { data: any[], metric: string })
     )
 }
 
+// In-sample residuals over time; `highlight` years (e.g. high leverage) are drawn in black
+export const ResidualChart = ({ data, highlight = [], formatLabel }: { data: { Year: number, Residual: number }[], highlight?: number[], formatLabel?: LabelFormatter }) => {
+    return (
+        <div className="h-48 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="0" stroke="#e5e5e5" vertical={false} />
+                    <XAxis dataKey="Year" tickFormatter={formatLabel} tick={{fontFamily: 'Inter', fontSize: 11, fill: '#000000'}} axisLine={{stroke: '#000000'}} tickLine={false} />
+                    <YAxis tick={{fontFamily: 'Inter', fontSize: 11, fill: '#000000'}} axisLine={false} tickLine={false} />
+                    <Tooltip content={<CustomTooltip formatLabel={formatLabel} />} cursor={{fill: 'rgba(0,0,0,0.05)'}} />
+                    <ReferenceLine y={0} stroke="#000" />
+                    <Bar dataKey="Residual" name="Residual">
+                        {data.map((entry, index) => (
+                            <Cell key={`cell-${index}`} fill={highlight.includes(entry.Year) ? '#000000' : '#a8a29e'} />
+                        ))}
+                    </Bar>
+                </BarChart>
+            </ResponsiveContainer>
+        </div>
+    )
+}
+
+// Each stage's bar floats on the running total (its `range`), so the stages visibly sum to Enterprise Value
 export const WaterfallChart = ({ data }: { data: any[] }) => {
     return (
         <div className="h-72 w-full">
@@ -137,7 +273,7 @@ export const WaterfallChart = ({ data }: { data: any[] }) => {
                      <XAxis dataKey="name" tick={{fontFamily: 'Inter', fontSize: 12, fill: '#000000'}} axisLine={{stroke: '#000000'}} tickLine={false} />
                      <YAxis tick={{fontFamily: 'Inter', fontSize: 12, fill: '#000000'}} axisLine={false} tickLine={false} />
                      <Tooltip content={<ValuationTooltip />} cursor={{fill: 'rgba(0,0,0,0.05)'}} />
-                     <Bar dataKey="value">
+                     <Bar dataKey="range">
                         {data.map((entry, index) => (
                             <Cell key={`cell-${index}`} fill={entry.isTotal ? '#000000' : (entry.value >= 0 ? '#666666' : '#bbbbbb')} />
                         ))}
@@ -147,3 +283,78 @@ export const WaterfallChart = ({ data }: { data: any[] }) => {
         </div>
     )
 }
+
+const FanTooltip = ({ active, payload, label, formatLabel }: any) => {
+  if (active && payload && payload.length) {
+    const d = payload[0].payload;
+    return (
+      <div className="bg-white border border-black p-3 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+        <p className="text-stone-500 text-xs mb-1 font-serif uppercase tracking-widest border-b border-stone-200 pb-1">{formatLabel ? formatLabel(label) : label}</p>
+        <p className="font-mono text-xs text-stone-400">P95: {d.Outer[1].toLocaleString()}</p>
+        <p className="font-mono text-xs text-stone-500">P75: {d.Inner[1].toLocaleString()}</p>
+        <p className="font-mono font-bold text-sm text-black">P50: {d.Median.toLocaleString()}</p>
+        <p className="font-mono text-xs text-stone-500">P25: {d.Inner[0].toLocaleString()}</p>
+        <p className="font-mono text-xs text-stone-400">P5: {d.Outer[0].toLocaleString()}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+// Percentile fan: P5-P95 and P25-P75 bands around the median path
+export const FanChart = ({ data, formatLabel }: { data: any[], formatLabel?: LabelFormatter }) => {
+    const rows = data.map(d => ({ Year: d.Year, Outer: [Math.round(d.P5), Math.round(d.P95)], Inner: [Math.round(d.P25), Math.round(d.P75)], Median: Math.round(d.P50) }));
+    return (
+        <div className="h-72 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={rows} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" vertical={false} />
+                    <XAxis dataKey="Year" tickFormatter={formatLabel} tick={{fontFamily: 'Inter', fontSize: 12, fill: '#000000'}} axisLine={{stroke: '#000000'}} tickLine={false} />
+                    <YAxis tick={{fontFamily: 'Inter', fontSize: 12, fill: '#000000'}} axisLine={false} tickLine={false} />
+                    <Tooltip content={<FanTooltip formatLabel={formatLabel} />} />
+                    <Area type="monotone" dataKey="Outer" stroke="none" fill="#f5f5f4" name="P5-P95" />
+                    <Area type="monotone" dataKey="Inner" stroke="none" fill="#d6d3d1" name="P25-P75" />
+                    <Line type="monotone" dataKey="Median" stroke="#000000" strokeWidth={2} dot={{r: 3, fill: '#000000'}} name="Median" />
+                </ComposedChart>
+            </ResponsiveContainer>
+        </div>
+    );
+};
+
+const HistogramTooltip = ({ active, payload }: any) => {
+  if (active && payload && payload.length) {
+    const b = payload[0].payload;
+    return (
+      <div className="bg-white border border-black p-3 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+        <p className="text-stone-500 text-xs mb-1 font-serif uppercase tracking-widest border-b border-stone-200 pb-1">${b.lower.toFixed(2)} – ${b.upper.toFixed(2)}</p>
+        <p className="font-mono font-bold text-sm text-black">Paths: {b.count.toLocaleString()}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+// Frequency of simulated outcomes. `markers` (e.g. percentiles) are drawn on the bin containing them.
+export const HistogramChart = ({ data, markers = [] }: { data: { lower: number, upper: number, count: number }[], markers?: { label: string, value: number }[] }) => {
+    const rows = data.map((b, i) => ({ ...b, bin: i }));
+    const binOf = (v: number) => {
+        const i = rows.findIndex(b => v < b.upper);
+        return i === -1 ? rows.length - 1 : i;
+    };
+    return (
+        <div className="h-72 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={rows} margin={{ top: 20, right: 30, left: 0, bottom: 0 }} barCategoryGap={1}>
+                    <CartesianGrid strokeDasharray="0" stroke="#e5e5e5" vertical={false} />
+                    <XAxis dataKey="bin" tickFormatter={(i: number) => `$${rows[i]?.lower.toFixed(0)}`} tick={{fontFamily: 'Inter', fontSize: 12, fill: '#000000'}} axisLine={{stroke: '#000000'}} tickLine={false} />
+                    <YAxis tick={{fontFamily: 'Inter', fontSize: 12, fill: '#000000'}} axisLine={false} tickLine={false} />
+                    <Tooltip content={<HistogramTooltip />} cursor={{fill: 'rgba(0,0,0,0.05)'}} />
+                    <Bar dataKey="count" fill="#a8a29e" />
+                    {markers.map(m => (
+                        <ReferenceLine key={m.label} x={binOf(m.value)} stroke="#000" strokeDasharray={m.label === 'P50' ? '0' : '4 2'} label={{ value: m.label, position: 'top', fontSize: 10, fill: '#000' }} />
+                    ))}
+                </BarChart>
+            </ResponsiveContainer>
+        </div>
+    );
+};
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { FileSpreadsheet, X } from 'lucide-react';
+import { sheetToGrid, guessHeaderRow, detectLayout, SheetImportOptions, SheetLayout } from '../lib/workbook';
+
+const PREVIEW_ROWS = 8;
+const PREVIEW_COLS = 8;
+
+const labelClass = "block text-[10px] font-bold text-stone-500 uppercase tracking-widest mb-2";
+const inputClass = "w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-none font-mono text-sm text-black focus:outline-none focus:ring-0 focus:border-black transition-all";
+
+export const ImportDialog = ({ workbook, fileName, onCancel, onImport }: {
+    workbook: any,
+    fileName: string,
+    onCancel: () => void,
+    onImport: (opts: SheetImportOptions) => void
+}) => {
+    const sheetNames: string[] = workbook.SheetNames || [];
+    const [sheet, setSheet] = useState(sheetNames[0] || '');
+    const [range, setRange] = useState('');
+    const [headerRow, setHeaderRow] = useState(1);
+    const [layout, setLayout] = useState<SheetLayout>('rows');
+
+    const grid = useMemo(() => {
+        try {
+            return sheetToGrid(workbook, sheet, range);
+        } catch {
+            return [];
+        }
+    }, [workbook, sheet, range]);
+
+    // Re-guess the header row and layout whenever the source block changes
+    useEffect(() => {
+        const guessed = guessHeaderRow(grid);
+        setHeaderRow(guessed);
+        setLayout(detectLayout(grid, guessed));
+    }, [grid]);
+
+    const detected = detectLayout(grid, headerRow);
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-black/40 flex items-center justify-center p-6">
+            <div className="bg-white border border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between px-8 py-5 border-b border-stone-200">
+                    <div className="flex items-center gap-3">
+                        <FileSpreadsheet size={18} />
+                        <h3 className="font-serif text-2xl text-black">Import Workbook</h3>
+                        <span className="text-xs font-mono text-stone-400">{fileName}</span>
+                    </div>
+                    <button onClick={onCancel} className="text-stone-400 hover:text-black"><X size={18} /></button>
+                </div>
+
+                <div className="p-8 space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                        <div>
+                            <label className={labelClass}>Sheet</label>
+                            <select value={sheet} onChange={e => setSheet(e.target.value)} className={inputClass}>
+                                {sheetNames.map(n => <option key={n} value={n}>{n}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Range (optional)</label>
+                            <input value={range} onChange={e => setRange(e.target.value)} placeholder="e.g. A3:H20" className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Header Row</label>
+                            <input type="number" min={1} max={Math.max(grid.length, 1)} value={headerRow} onChange={e => setHeaderRow(Math.max(1, Number(e.target.value)))} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Layout</label>
+                            <select value={layout} onChange={e => setLayout(e.target.value as SheetLayout)} className={inputClass}>
+                                <option value="rows">Periods as rows</option>
+                                <option value="columns">Periods as columns (transpose)</option>
+                            </select>
+                        </div>
+                    </div>
+
+                    <p className="text-xs text-stone-400 uppercase tracking-widest">
+                        Detected layout: {detected === 'columns' ? 'Periods as columns' : 'Periods as rows'}
+                    </p>
+
+                    <div className="border border-stone-200 overflow-x-auto">
+                        <table className="w-full text-xs font-mono">
+                            <tbody>
+                                {grid.slice(0, Math.max(PREVIEW_ROWS, headerRow + 3)).map((row, r) => (
+                                    <tr key={r} className={r + 1 === headerRow ? 'bg-black text-white font-bold' : r + 1 < headerRow ? 'text-stone-300' : 'text-stone-700'}>
+                                        <td className="px-2 py-1 text-stone-400 border-r border-stone-200 w-8">{r + 1}</td>
+                                        {row.slice(0, PREVIEW_COLS).map((cell, c) => (
+                                            <td key={c} className="px-2 py-1 whitespace-nowrap">{String(cell)}</td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {grid.length === 0 && <div className="p-6 text-center text-stone-300 text-xs uppercase tracking-widest">No cells in selection</div>}
+                    </div>
+
+                    <div className="flex justify-end gap-3">
+                        <button onClick={onCancel} className="px-6 py-3 border border-stone-200 text-xs font-bold uppercase tracking-widest hover:border-black transition-colors">Cancel</button>
+                        <button
+                            onClick={() => onImport({ sheet, range, headerRow, layout })}
+                            disabled={grid.length === 0}
+                            className="px-6 py-3 bg-black text-white text-xs font-bold uppercase tracking-widest hover:bg-stone-800 transition-colors disabled:opacity-30"
+                        >
+                            Import Sheet
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
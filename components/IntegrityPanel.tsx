@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { FinancialRecord } from '../types';
+import { INTEGRITY_RULES, IntegrityFinding, IntegrityReport, RuleConfig, Severity, rowLabel } from '../lib/integrity';
+
+const SEVERITY_RANK: Record<Severity, number> = { info: 0, warning: 1, error: 2 };
+
+// Monochrome severity scale: error = solid black, warning = mid gray, info = outlined
+const CELL_STYLE: Record<Severity, string> = {
+    error: 'bg-black text-white font-bold',
+    warning: 'bg-stone-300 text-black font-bold',
+    info: 'bg-white text-black outline outline-1 outline-black -outline-offset-1',
+};
+
+const inputClass = "w-16 px-2 py-1 bg-stone-50 border border-stone-200 rounded-none font-mono text-xs text-black focus:outline-none focus:border-black";
+
+export const IntegrityPanel = ({ data, report, config, onConfigChange }: {
+    data: FinancialRecord[],
+    report: IntegrityReport,
+    config: Record<string, RuleConfig>,
+    onConfigChange: (config: Record<string, RuleConfig>) => void
+}) => {
+    const [focusRule, setFocusRule] = useState<string | null>(null);
+
+    const columns = useMemo(() => {
+        const cols = new Set<string>();
+        data.forEach(r => Object.keys(r).forEach(k => { if (k !== 'Month' && k !== 'PeriodMonths') cols.add(k); }));
+        return ['Year', ...[...cols].filter(c => c !== 'Year')];
+    }, [data]);
+
+    // Worst finding per cell, limited to the focused rule when one is selected
+    const cellFindings = useMemo(() => {
+        const map = new Map<string, IntegrityFinding[]>();
+        report.findings
+            .filter(f => f.row !== undefined && (!focusRule || f.ruleId === focusRule))
+            .forEach(f => {
+                const key = `${f.row}:${f.column ?? 'Year'}`;
+                map.set(key, [...(map.get(key) || []), f]);
+            });
+        return map;
+    }, [report, focusRule]);
+
+    const update = (id: string, patch: Partial<RuleConfig>) => onConfigChange({ ...config, [id]: { ...config[id], ...patch } });
+
+    return (
+        <div className="space-y-12">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="bg-black text-white p-8 flex flex-col justify-between">
+                    <p className="text-xs font-bold text-stone-400 uppercase tracking-widest mb-2 flex items-center gap-2"><ShieldCheck size={12} /> Integrity Score</p>
+                    <div className="font-serif text-6xl">{report.score}%</div>
+                    <p className="text-xs text-stone-400 mt-2">{report.score === 100 ? 'EXCELLENT — no anomalies detected' : `${report.findings.length} finding(s) across ${data.length} rows`}</p>
+                </div>
+                <div className="md:col-span-2 border border-stone-200 p-8 grid grid-cols-3 gap-6">
+                    {(['error', 'warning', 'info'] as Severity[]).map(sev => (
+                        <div key={sev}>
+                            <p className="text-[10px] font-bold uppercase tracking-widest text-stone-500 mb-2 flex items-center gap-2">
+                                <span className={`inline-block w-3 h-3 ${CELL_STYLE[sev]}`} /> {sev}
+                            </p>
+                            <p className="font-serif text-4xl text-black">{report.findings.filter(f => f.severity === sev).length}</p>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="border border-stone-200">
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="bg-stone-50 text-[10px] uppercase tracking-widest text-stone-500">
+                            <th className="text-left px-4 py-3">Rule</th>
+                            <th className="text-left px-4 py-3">Severity</th>
+                            <th className="text-left px-4 py-3">Threshold</th>
+                            <th className="text-left px-4 py-3">Weight</th>
+                            <th className="text-right px-4 py-3">Findings</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {INTEGRITY_RULES.map(rule => {
+                            const cfg = config[rule.id];
+                            const count = report.counts[rule.id] || 0;
+                            return (
+                                <tr
+                                    key={rule.id}
+                                    onClick={() => setFocusRule(focusRule === rule.id ? null : rule.id)}
+                                    className={`border-t border-stone-100 cursor-pointer ${focusRule === rule.id ? 'bg-stone-100' : 'hover:bg-stone-50'} ${cfg.enabled ? '' : 'opacity-40'}`}
+                                >
+                                    <td className="px-4 py-3">
+                                        <label className="flex items-start gap-3" onClick={e => e.stopPropagation()}>
+                                            <input type="checkbox" checked={cfg.enabled} onChange={e => update(rule.id, { enabled: e.target.checked })} className="mt-0.5 accent-black" />
+                                            <span>
+                                                <span className="font-bold text-black block">{rule.label}</span>
+                                                <span className="text-stone-400">{rule.description}</span>
+                                            </span>
+                                        </label>
+                                    </td>
+                                    <td className="px-4 py-3" onClick={e => e.stopPropagation()}>
+                                        <select value={cfg.severity} onChange={e => update(rule.id, { severity: e.target.value as Severity })} className={`${inputClass} w-24`}>
+                                            <option value="error">Error</option>
+                                            <option value="warning">Warning</option>
+                                            <option value="info">Info</option>
+                                        </select>
+                                    </td>
+                                    <td className="px-4 py-3" onClick={e => e.stopPropagation()}>
+                                        {rule.thresholdLabel ? (
+                                            <label className="flex items-center gap-2 text-stone-400">
+                                                <input type="number" step="any" value={cfg.threshold} onChange={e => update(rule.id, { threshold: Number(e.target.value) })} className={inputClass} />
+                                                {rule.thresholdLabel}
+                                            </label>
+                                        ) : <span className="text-stone-300">—</span>}
+                                    </td>
+                                    <td className="px-4 py-3" onClick={e => e.stopPropagation()}>
+                                        <input type="number" min={0} value={cfg.weight} onChange={e => update(rule.id, { weight: Number(e.target.value) })} className={inputClass} />
+                                    </td>
+                                    <td className="px-4 py-3 text-right font-mono font-bold">{count}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <div>
+                <div className="flex justify-between items-baseline mb-4">
+                    <h3 className="font-serif text-2xl text-black">Dataset Inspection</h3>
+                    <p className="text-xs text-stone-400 uppercase tracking-widest">
+                        {focusRule ? `Showing: ${INTEGRITY_RULES.find(r => r.id === focusRule)?.label}` : 'Showing all rules — click a rule to filter'}
+                    </p>
+                </div>
+                <div className="border border-stone-200 overflow-x-auto">
+                    <table className="w-full text-xs font-mono">
+                        <thead>
+                            <tr className="bg-stone-50 text-[10px] uppercase tracking-widest text-stone-500">
+                                {columns.map(c => <th key={c} className="text-right px-3 py-2 whitespace-nowrap">{c}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {data.map((r, row) => (
+                                <tr key={row} className="border-t border-stone-100">
+                                    {columns.map(c => {
+                                        const hits = cellFindings.get(`${row}:${c}`);
+                                        const worst = hits?.reduce((a, f) => SEVERITY_RANK[f.severity] > SEVERITY_RANK[a] ? f.severity : a, 'info' as Severity);
+                                        const value = c === 'Year' ? rowLabel(r) : r[c];
+                                        return (
+                                            <td
+                                                key={c}
+                                                className={`text-right px-3 py-2 whitespace-nowrap ${worst ? CELL_STYLE[worst] : 'text-stone-700'}`}
+                                                title={hits?.map(f => f.message).join('\n')}
+                                            >
+                                                {value === undefined || value === null ? '∅' : typeof value === 'number' ? value.toLocaleString() : value}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
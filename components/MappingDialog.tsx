@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useMemo } from 'react';
+import { Columns, Save, Trash2, X } from 'lucide-react';
+import {
+    CANONICAL_FIELDS, ColumnMapping, MappingProfile, suggestMapping, mappingFromSuggestions,
+    missingFields, headerSignature, loadProfiles, saveProfile, deleteProfile
+} from '../lib/mapping';
+
+const labelClass = "block text-[10px] font-bold text-stone-500 uppercase tracking-widest mb-2";
+const inputClass = "w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-none font-mono text-sm text-black focus:outline-none focus:ring-0 focus:border-black transition-all";
+
+export const MappingDialog = ({ headers, sample, sourceName, onCancel, onApply }: {
+    headers: string[],
+    sample: (string | number)[][],
+    sourceName: string,
+    onCancel: () => void,
+    onApply: (mapping: ColumnMapping) => void
+}) => {
+    const suggestions = useMemo(() => suggestMapping(headers), [headers]);
+    const [mapping, setMapping] = useState<ColumnMapping>(() => mappingFromSuggestions(suggestions));
+    const [profiles, setProfiles] = useState<MappingProfile[]>(loadProfiles);
+    const [profileName, setProfileName] = useState('');
+
+    const missing = missingFields(mapping);
+    const duplicates = CANONICAL_FIELDS.filter(f => Object.values(mapping).filter(t => t === f).length > 1);
+    const canApply = !missing.includes('Year') && duplicates.length === 0;
+
+    const applyProfile = (name: string) => {
+        const profile = profiles.find(p => p.name === name);
+        if (!profile) return;
+        setProfileName(profile.name);
+        // Only take targets for headers this file actually has
+        setMapping(prev => Object.fromEntries(headers.map(h => [h, profile.mapping[h] ?? prev[h]])));
+    };
+
+    const handleSave = () => {
+        if (!profileName.trim()) return;
+        setProfiles(saveProfile({ name: profileName.trim(), signature: headerSignature(headers), mapping }));
+    };
+
+    const handleDelete = () => {
+        setProfiles(deleteProfile(profileName));
+        setProfileName('');
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-black/40 flex items-center justify-center p-6">
+            <div className="bg-white border border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between px-8 py-5 border-b border-stone-200">
+                    <div className="flex items-center gap-3">
+                        <Columns size={18} />
+                        <h3 className="font-serif text-2xl text-black">Map Columns</h3>
+                        <span className="text-xs font-mono text-stone-400">{sourceName}</span>
+                    </div>
+                    <button onClick={onCancel} className="text-stone-400 hover:text-black"><X size={18} /></button>
+                </div>
+
+                <div className="p-8 space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                        <div>
+                            <label className={labelClass}>Apply Saved Profile</label>
+                            <select value={profiles.some(p => p.name === profileName) ? profileName : ''} onChange={e => applyProfile(e.target.value)} className={inputClass}>
+                                <option value="">— None —</option>
+                                {profiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Profile Name</label>
+                            <input value={profileName} onChange={e => setProfileName(e.target.value)} placeholder="e.g. Vendor A export" className={inputClass} />
+                        </div>
+                        <div className="flex gap-2">
+                            <button onClick={handleSave} disabled={!profileName.trim()} className="flex-1 px-4 py-2 border border-black text-xs font-bold uppercase tracking-widest hover:bg-black hover:text-white transition-colors flex items-center justify-center gap-2 disabled:opacity-30">
+                                <Save size={12} /> Save Profile
+                            </button>
+                            {profiles.some(p => p.name === profileName) && (
+                                <button onClick={handleDelete} className="px-3 py-2 border border-stone-200 text-stone-500 hover:border-black hover:text-black" title="Delete profile">
+                                    <Trash2 size={12} />
+                                </button>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="border border-stone-200">
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="bg-stone-50 text-[10px] uppercase tracking-widest text-stone-500">
+                                    <th className="text-left px-3 py-2">Source Column</th>
+                                    <th className="text-left px-3 py-2">Sample</th>
+                                    <th className="text-left px-3 py-2">Maps To</th>
+                                    <th className="text-right px-3 py-2">Match</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {headers.map((h, i) => {
+                                    const target = mapping[h] ?? h;
+                                    const suggestion = suggestions[h];
+                                    return (
+                                        <tr key={h} className="border-t border-stone-100">
+                                            <td className="px-3 py-2 font-mono text-black">{h}</td>
+                                            <td className="px-3 py-2 font-mono text-stone-400 whitespace-nowrap">
+                                                {sample.slice(0, 3).map(r => String(r[i] ?? '')).join(' · ')}
+                                            </td>
+                                            <td className="px-3 py-2">
+                                                <select
+                                                    value={target}
+                                                    onChange={e => setMapping(prev => ({ ...prev, [h]: e.target.value }))}
+                                                    className={`${inputClass} py-1 ${duplicates.includes(target as any) ? 'border-black' : ''}`}
+                                                >
+                                                    {CANONICAL_FIELDS.map(f => <option key={f} value={f}>{f}</option>)}
+                                                    {!CANONICAL_FIELDS.includes(h as any) && <option value={h}>Keep as "{h}"</option>}
+                                                    <option value="">Ignore</option>
+                                                </select>
+                                            </td>
+                                            <td className="px-3 py-2 text-right font-mono text-stone-500">
+                                                {suggestion.confidence > 0 && suggestion.target === target ? `${Math.round(suggestion.confidence * 100)}%` : '—'}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="text-xs text-stone-500 space-y-1">
+                        {missing.length > 0 && <p>Unmapped fields: {missing.join(', ')}{missing.includes('Budget') ? ' (Budget will be synthesized from Revenue)' : ''}</p>}
+                        {duplicates.length > 0 && <p className="text-black font-bold">Mapped more than once: {duplicates.join(', ')}</p>}
+                        {missing.includes('Year') && <p className="text-black font-bold">A Year column is required.</p>}
+                    </div>
+
+                    <div className="flex justify-end gap-3">
+                        <button onClick={onCancel} className="px-6 py-3 border border-stone-200 text-xs font-bold uppercase tracking-widest hover:border-black transition-colors">Cancel</button>
+                        <button
+                            onClick={() => onApply(mapping)}
+                            disabled={!canApply}
+                            className="px-6 py-3 bg-black text-white text-xs font-bold uppercase tracking-widest hover:bg-stone-800 transition-colors disabled:opacity-30"
+                        >
+                            Apply Mapping
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
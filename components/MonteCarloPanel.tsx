@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { AlertTriangle, CheckCircle2, Dices, RotateCcw } from 'lucide-react';
+import { DCFStructure } from '../types';
+import { FanChart, HistogramChart } from './FinancialCharts';
+import { ParityBadge } from './ParityBadge';
+import { ParityReport } from '../lib/parity';
+import { SimulationInputs, SimulationResult, Distribution, DistributionKind, DISTRIBUTION_KINDS, SIMULATED_VARIABLES, PATH_COUNTS, toHistogram } from '../lib/montecarlo';
+import { terminalLabel } from '../lib/dcf';
+
+const inputClass = "w-full bg-stone-50 border border-stone-200 rounded-none px-2 py-2 font-mono text-xs text-black focus:outline-none focus:border-black transition-colors";
+
+const yearLabel = (t: number) => t === 0 ? 'Base' : `Y+${t}`;
+
+export const MonteCarloPanel = ({ inputs, structure, onChange, onReset, result, source, parity }: {
+    inputs: SimulationInputs,
+    structure: DCFStructure,
+    onChange: (inputs: SimulationInputs) => void,
+    onReset: () => void,
+    result: SimulationResult | null,
+    source: string,
+    parity?: ParityReport
+}) => {
+    const setDistribution = (id: keyof SimulationInputs['distributions'], patch: Partial<Distribution>) =>
+        onChange({ ...inputs, distributions: { ...inputs.distributions, [id]: { ...inputs.distributions[id], ...patch } } });
+
+    const ok = result?.success;
+
+    return (
+        <div className="bg-white border border-stone-200 p-10 mt-12">
+            <div className="flex justify-between items-start mb-2">
+                <h3 className="font-serif text-3xl text-black flex items-center gap-3"><Dices size={20} /> Monte Carlo</h3>
+                <div className="flex items-center gap-2">
+                    <ParityBadge report={parity} />
+                    {source && (
+                        <div className={`flex items-center gap-2 px-2 py-0.5 rounded-sm text-[10px] font-bold border ${source.includes('Python') ? 'bg-black text-white border-black' : 'bg-stone-100 text-stone-600 border-stone-200'}`}>
+                            {source.includes('Python') ? <CheckCircle2 size={10} /> : <AlertTriangle size={10} />}
+                            {source === 'Python/NumPy' ? 'NUMPY ENGINE' : 'JS FALLBACK'}
+                        </div>
+                    )}
+                </div>
+            </div>
+            <p className="text-xs text-stone-400 uppercase tracking-widest mb-8">{inputs.paths.toLocaleString()} simulated paths over {structure.horizon + structure.fadeYears} years · {terminalLabel(structure)} terminal value</p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-12 gap-12">
+                {/* Distribution editor */}
+                <div className="lg:col-span-5">
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-[10px] uppercase tracking-widest text-stone-500 border-b border-black">
+                                <th className="text-left py-2">Input</th>
+                                <th className="text-left py-2 px-1">Shape</th>
+                                <th className="text-left py-2 px-1">Low</th>
+                                <th className="text-left py-2 px-1">Base</th>
+                                <th className="text-left py-2 px-1">High</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {SIMULATED_VARIABLES.map(({ id, label }) => {
+                                const d = inputs.distributions[id];
+                                return (
+                                    <tr key={id} className="border-b border-stone-100">
+                                        <td className="py-2 pr-2 text-stone-600">{label}</td>
+                                        <td className="py-2 px-1">
+                                            <select value={d.kind} onChange={e => setDistribution(id, { kind: e.target.value as DistributionKind })} className={inputClass}>
+                                                {DISTRIBUTION_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+                                            </select>
+                                        </td>
+                                        {(['low', 'base', 'high'] as const).map(field => (
+                                            <td key={field} className="py-2 px-1">
+                                                <input
+                                                    type="number"
+                                                    step={0.1}
+                                                    value={d[field]}
+                                                    disabled={field === 'base' && d.kind === 'uniform'}
+                                                    onChange={e => setDistribution(id, { [field]: Number(e.target.value) })}
+                                                    className={`${inputClass} disabled:opacity-40`}
+                                                />
+                                            </td>
+                                        ))}
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    <p className="text-[10px] text-stone-400 mt-3">For Normal inputs, Base is the mean and Low/High are the 5th and 95th percentiles. Growth is drawn afresh every year; the others once per path.</p>
+
+                    <div className="flex items-end gap-4 mt-6">
+                        <label className="flex-1 text-[10px] font-bold text-stone-500 uppercase tracking-widest">
+                            Paths
+                            <select value={inputs.paths} onChange={e => onChange({ ...inputs, paths: Number(e.target.value) })} className={`${inputClass} mt-2`}>
+                                {PATH_COUNTS.map(n => <option key={n} value={n}>{n.toLocaleString()}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex-1 text-[10px] font-bold text-stone-500 uppercase tracking-widest">
+                            Seed
+                            <input type="number" step={1} value={inputs.seed} onChange={e => onChange({ ...inputs, seed: Number(e.target.value) })} className={`${inputClass} mt-2`} />
+                        </label>
+                        <button onClick={onReset} className="flex items-center gap-2 px-3 py-2 border border-stone-200 text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:border-black hover:text-black transition-colors" title="Refit the distributions from history and the DCF assumptions">
+                            <RotateCcw size={12} /> Reset
+                        </button>
+                    </div>
+
+                    {ok && (
+                        <div className="grid grid-cols-3 gap-px bg-stone-200 border border-stone-200 mt-8">
+                            {([['P5', result.p5], ['P50', result.p50], ['P95', result.p95]] as const).map(([label, v]) => (
+                                <div key={label} className={`p-4 text-center ${label === 'P50' ? 'bg-black text-white' : 'bg-white text-black'}`}>
+                                    <p className={`text-[10px] font-bold uppercase tracking-widest mb-1 ${label === 'P50' ? 'text-stone-400' : 'text-stone-500'}`}>{label}</p>
+                                    <p className="font-serif text-2xl">${v.toFixed(2)}</p>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {ok && (
+                        <p className="text-[10px] text-stone-400 mt-3">
+                            Mean ${result.mean.toFixed(2)} per share.
+                        </p>
+                    )}
+                </div>
+
+                {/* Outputs */}
+                <div className="lg:col-span-7 space-y-10">
+                    {result && !result.success ? (
+                        <div className="h-72 flex flex-col items-center justify-center gap-2 text-stone-500 text-xs uppercase tracking-widest text-center">
+                            <AlertTriangle size={16} /> {result.error}
+                        </div>
+                    ) : ok ? (
+                        <>
+                            <div>
+                                <p className="text-[10px] font-bold text-stone-500 uppercase tracking-widest mb-4">Revenue Paths (P5 / P25 / P50 / P75 / P95)</p>
+                                <FanChart data={result.fan} formatLabel={yearLabel} />
+                            </div>
+                            <div>
+                                <p className="text-[10px] font-bold text-stone-500 uppercase tracking-widest mb-4">Fair Value per Share</p>
+                                <HistogramChart data={toHistogram(result.values)} markers={[{ label: 'P5', value: result.p5 }, { label: 'P50', value: result.p50 }, { label: 'P95', value: result.p95 }]} />
+                            </div>
+                        </>
+                    ) : (
+                        <div className="h-72 flex items-center justify-center text-stone-300 font-mono text-xs uppercase tracking-widest">Simulating...</div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { History, PenLine, X } from 'lucide-react';
+import { ForecastOverride, OverrideLogEntry } from '../types';
+import { ForecastSeries } from '../lib/forecast';
+import { OverrideChange, findOverride } from '../lib/overrides';
+
+const inputClass = "w-full bg-stone-50 border rounded-none px-2 py-1.5 font-mono text-xs text-black focus:outline-none focus:border-black transition-colors";
+
+const money = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+// Typed overrides for one forecast series at a time, plus the log of every change. Inputs commit on blur
+// or Enter rather than per keystroke, so the log records finished values only.
+export const OverridePanel = ({ series, overrides, log, analyst, onAnalystChange, onChange, formatLabel }: {
+    series: ForecastSeries[],
+    overrides: ForecastOverride[],
+    log: OverrideLogEntry[],
+    analyst: string,
+    onAnalystChange: (name: string) => void,
+    onChange: (change: OverrideChange) => void,
+    formatLabel: (t: number) => string
+}) => {
+    const [selected, setSelected] = useState<string | null>(null);
+    const active = series.find(s => s.metric === selected) || series[0];
+    if (!active) return null;
+    const future = active.rows.filter(r => r.Historical === null && r.Forecast !== null);
+
+    const commitValue = (year: number, text: string, note?: string) => {
+        const value = text.trim() === '' ? null : Number(text);
+        if (value !== null && !isFinite(value)) return;
+        onChange({ metric: active.metric, year, value, note });
+    };
+    const blurOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => { if (e.key === 'Enter') e.currentTarget.blur(); };
+
+    return (
+        <div className="bg-white border border-stone-200 p-10 mt-12">
+            <div className="flex justify-between items-start mb-2">
+                <h3 className="font-serif text-3xl text-black flex items-center gap-3"><PenLine size={20} /> Analyst Overrides</h3>
+                <label className="flex items-center gap-3 text-[10px] font-bold text-stone-500 uppercase tracking-widest">
+                    Analyst
+                    <input value={analyst} onChange={e => onAnalystChange(e.target.value)} placeholder="Your name" className={`${inputClass} border-stone-200 w-40 font-sans`} />
+                </label>
+            </div>
+            <p className="text-xs text-stone-400 uppercase tracking-widest mb-8">Type a value below or drag a forecast point on the chart. Overrides feed the commentary, the export and, for Free Cash Flow, the DCF.</p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-12 gap-12">
+                <div className="lg:col-span-7">
+                    {series.length > 1 && (
+                        <div className="flex flex-wrap gap-2 mb-4">
+                            {series.map(s => (
+                                <button
+                                    key={s.metric}
+                                    onClick={() => setSelected(s.metric)}
+                                    className={`px-3 py-1 border text-[10px] font-bold uppercase tracking-widest transition-colors ${s.metric === active.metric ? 'bg-black text-white border-black' : 'border-stone-200 text-stone-500 hover:border-black hover:text-black'}`}
+                                >
+                                    {s.metric}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-[10px] uppercase tracking-widest text-stone-500 border-b border-black">
+                                <th className="text-left py-2">Period</th>
+                                <th className="text-right py-2 px-2">Model</th>
+                                <th className="text-left py-2 px-1">Override</th>
+                                <th className="text-left py-2 px-1">Note</th>
+                                <th className="w-6"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {future.map(row => {
+                                const o = findOverride(overrides, active.metric, row.Year);
+                                const model = row.Model ?? row.Forecast!;
+                                return (
+                                    <tr key={row.Year} className="border-b border-stone-100">
+                                        <td className="py-2 pr-2 text-stone-600 whitespace-nowrap">{formatLabel(row.Year)}</td>
+                                        <td className="py-2 px-2 text-right font-mono text-stone-500">{money(model)}</td>
+                                        <td className="py-1 px-1">
+                                            {/* Keyed on the stored value so a drag on the chart refreshes the field */}
+                                            <input
+                                                key={`${active.metric}-${row.Year}-${o?.value ?? ''}`}
+                                                type="number"
+                                                defaultValue={o?.value ?? ''}
+                                                placeholder={money(model).replace(/,/g, '')}
+                                                onBlur={e => commitValue(row.Year, e.target.value, o?.note)}
+                                                onKeyDown={blurOnEnter}
+                                                className={`${inputClass} min-w-[96px] text-right ${o ? 'border-black' : 'border-stone-200'}`}
+                                            />
+                                        </td>
+                                        <td className="py-1 px-1">
+                                            <input
+                                                key={`${active.metric}-${row.Year}-${o?.note ?? ''}`}
+                                                defaultValue={o?.note ?? ''}
+                                                disabled={!o}
+                                                placeholder={o ? 'Justification' : ''}
+                                                onBlur={e => o && onChange({ metric: active.metric, year: row.Year, value: o.value, note: e.target.value })}
+                                                onKeyDown={blurOnEnter}
+                                                className={`${inputClass} border-stone-200 font-sans disabled:opacity-40`}
+                                            />
+                                        </td>
+                                        <td className="py-1 text-right">
+                                            {o && (
+                                                <button onClick={() => onChange({ metric: active.metric, year: row.Year, value: null })} className="text-stone-400 hover:text-black" title="Clear override">
+                                                    <X size={12} />
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="lg:col-span-5">
+                    <p className="text-[10px] font-bold text-stone-500 uppercase tracking-widest mb-4 flex items-center gap-2"><History size={12} /> Change Log</p>
+                    {log.length === 0 ? (
+                        <p className="text-xs text-stone-400 font-serif italic">No overrides yet. The forecast is the model's own.</p>
+                    ) : (
+                        <ul className="max-h-80 overflow-y-auto divide-y divide-stone-100 text-xs">
+                            {[...log].reverse().map((entry, i) => (
+                                <li key={log.length - i} className="py-2">
+                                    <div className="flex justify-between gap-4 text-[10px] text-stone-400 font-mono">
+                                        <span>{entry.analyst}</span>
+                                        <span>{new Date(entry.at).toLocaleString()}</span>
+                                    </div>
+                                    <p className="text-stone-800 mt-1">
+                                        {entry.metric}, {formatLabel(entry.year)}:{' '}
+                                        <span className="font-mono">
+                                            {entry.previous === null ? 'model' : money(entry.previous)} → {entry.value === null ? 'model' : money(entry.value)}
+                                        </span>
+                                    </p>
+                                    {entry.note && <p className="text-stone-500 font-serif italic mt-0.5">{entry.note}</p>}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
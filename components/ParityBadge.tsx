@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Scale } from 'lucide-react';
+import { ParityReport } from '../lib/parity';
+
+// Shown beside an engine badge while parity mode is on: whether the JS fallback reproduced the kernel
+export const ParityBadge = ({ report }: { report?: ParityReport }) => {
+    if (!report) return null;
+    const ok = report.mismatches.length === 0;
+    const title = ok
+        ? `NumPy and JS agree on all ${report.checked} fields`
+        : report.mismatches.slice(0, 10).map(m => `${m.field}: python ${JSON.stringify(m.python)}, js ${JSON.stringify(m.js)}`).join('\n');
+    return (
+        <div title={title} className={`flex items-center gap-2 px-2 py-0.5 rounded-sm text-[10px] font-bold border ${ok ? 'bg-white text-black border-black' : 'bg-black text-white border-black'}`}>
+            <Scale size={10} />
+            {ok ? 'PARITY OK' : `PARITY: ${report.mismatches.length} DIFF${report.mismatches.length > 1 ? 'S' : ''}`}
+        </div>
+    );
+};
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Calendar } from 'lucide-react';
+import { Granularity, PeriodSettings, Rollup } from '../lib/periods';
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const GRANULARITY_LABELS: Record<Granularity, string> = { annual: 'Fiscal Year', quarterly: 'Quarterly', monthly: 'Monthly' };
+
+const selectClass = "bg-white border border-stone-200 rounded-none px-3 py-2 text-xs font-mono text-black focus:outline-none focus:border-black transition-colors";
+
+// `columns` are the numeric columns outside FLOW_FIELDS; the user can mark any of them as a flow to be summed
+export const PeriodControls = ({ settings, onChange, available, dropped, columns }: {
+    settings: PeriodSettings,
+    onChange: (settings: PeriodSettings) => void,
+    available: Granularity[],
+    dropped: number,
+    columns: string[]
+}) => {
+    const granularity = available.includes(settings.granularity) ? settings.granularity : available[0];
+    const subAnnual = granularity !== 'annual';
+    const flows = settings.flowColumns || [];
+    // Only data finer than annual is ever aggregated
+    const aggregates = available.length > 1;
+
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-6 mb-16 text-[10px] font-bold uppercase tracking-widest text-stone-500">
+            <div className="flex items-center gap-2">
+                <Calendar size={12} className="text-black" /> Periods
+            </div>
+            <label className="flex items-center gap-2">
+                Granularity
+                <select value={granularity} onChange={e => onChange({ ...settings, granularity: e.target.value as Granularity })} className={selectClass}>
+                    {available.map(g => <option key={g} value={g}>{GRANULARITY_LABELS[g]}</option>)}
+                </select>
+            </label>
+            <label className="flex items-center gap-2">
+                Basis
+                <select value={subAnnual ? settings.rollup : 'periodic'} disabled={!subAnnual} onChange={e => onChange({ ...settings, rollup: e.target.value as Rollup })} className={`${selectClass} disabled:opacity-40`}>
+                    <option value="periodic">Discrete Period</option>
+                    <option value="ttm">Trailing Twelve Months</option>
+                </select>
+            </label>
+            <label className="flex items-center gap-2">
+                Fiscal Year End
+                <select value={settings.fiscalYearEnd} onChange={e => onChange({ ...settings, fiscalYearEnd: Number(e.target.value) })} className={selectClass}>
+                    {MONTH_NAMES.map((m, i) => <option key={m} value={i + 1}>{m}</option>)}
+                </select>
+            </label>
+            {aggregates && columns.length > 0 && (
+                <div className="flex items-center gap-2" title="Flows are summed across periods; other columns take their period-end value">
+                    Flows
+                    {columns.map(c => {
+                        const on = flows.includes(c);
+                        return (
+                            <button
+                                key={c}
+                                onClick={() => onChange({ ...settings, flowColumns: on ? flows.filter(x => x !== c) : [...flows, c] })}
+                                className={`px-2 py-1 border normal-case tracking-normal font-mono transition-colors ${on ? 'bg-black text-white border-black' : 'bg-white text-stone-500 border-stone-200 hover:border-black'}`}
+                            >
+                                {c}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+            {dropped > 0 && (
+                <span title="Buckets missing underlying months, or annual-only rows that a quarterly or monthly view cannot split" className="text-stone-400 normal-case tracking-normal font-normal">{dropped} incomplete or annual-only period(s) excluded</span>
+            )}
+        </div>
+    );
+};
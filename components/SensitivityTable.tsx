@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Grid3x3 } from 'lucide-react';
+import { SensitivityGrid, SensitivitySettings, SENSITIVITY_AXES, SENSITIVITY_SIZE } from '../lib/dcf';
+
+const STEP_INPUT = "w-16 ml-2 px-2 py-1 bg-stone-900 border border-stone-700 rounded-none font-mono text-xs text-white focus:outline-none focus:border-white";
+
+// WACC x terminal growth (or exit multiple) table of implied share price, shaded like the Sensitivity Matrix
+export const SensitivityTable = ({ grid, settings, onChange, multipleAvailable }: {
+    grid: SensitivityGrid,
+    settings: SensitivitySettings,
+    onChange: (settings: SensitivitySettings) => void,
+    multipleAvailable: boolean // Exit multiple columns need an exit-multiple terminal value
+}) => {
+    const set = (patch: Partial<SensitivitySettings>) => onChange({ ...settings, ...patch });
+    const axis = SENSITIVITY_AXES.find(a => a.id === grid.column)!;
+    const prices = grid.cells.flat().map(c => c.sharePrice).filter((v): v is number => v !== null);
+    const maxVal = Math.max(...prices);
+    const minVal = Math.min(...prices);
+    const mid = (SENSITIVITY_SIZE - 1) / 2;
+
+    return (
+        <div className="bg-black rounded-none p-10 text-white shadow-none border border-black mt-12">
+            <div className="flex flex-wrap justify-between items-start gap-4 mb-8">
+                <div>
+                    <h3 className="font-serif text-3xl text-white mb-2 flex items-center gap-3"><Grid3x3 size={20} /> DCF Sensitivity</h3>
+                    <p className="text-xs text-stone-500 uppercase tracking-widest">Implied Share Price: WACC vs {axis.label}</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-4 text-[10px] font-bold uppercase tracking-widest text-stone-500">
+                    <div className="flex border border-stone-700">
+                        {SENSITIVITY_AXES.map(a => (
+                            <button
+                                key={a.id}
+                                disabled={a.id === 'exitMultiple' && !multipleAvailable}
+                                title={a.id === 'exitMultiple' && !multipleAvailable ? 'Choose an exit-multiple terminal value to vary the multiple' : undefined}
+                                onClick={() => set({ column: a.id })}
+                                className={`px-3 py-1 transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${grid.column === a.id ? 'bg-white text-black' : 'text-stone-400 hover:text-white'}`}
+                            >
+                                {a.label}
+                            </button>
+                        ))}
+                    </div>
+                    <label>WACC Step
+                        <input type="number" step={0.05} value={settings.waccStep} onChange={e => set({ waccStep: Number(e.target.value) })} className={STEP_INPUT} />
+                    </label>
+                    {grid.column === 'termGrowth' ? (
+                        <label>Growth Step
+                            <input type="number" step={0.05} value={settings.growthStep} onChange={e => set({ growthStep: Number(e.target.value) })} className={STEP_INPUT} />
+                        </label>
+                    ) : (
+                        <label>Multiple Step
+                            <input type="number" step={0.5} value={settings.multipleStep} onChange={e => set({ multipleStep: Number(e.target.value) })} className={STEP_INPUT} />
+                        </label>
+                    )}
+                </div>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full border-separate border-spacing-1 text-xs">
+                    <thead>
+                        <tr>
+                            <th className="text-left text-[10px] text-stone-500 font-mono uppercase tracking-widest pb-2">WACC ↓ / {axis.label} →</th>
+                            {grid.columns.map((v, c) => <th key={c} className="text-center font-mono text-stone-400 pb-2">{v}{axis.unit}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {grid.waccs.map((wacc, r) => (
+                            <tr key={r}>
+                                <td className="font-mono text-stone-400 pr-4">{wacc}%</td>
+                                {grid.cells[r].map((cell, c) => {
+                                    const base = r === mid && c === mid;
+                                    if (cell.sharePrice === null) {
+                                        return (
+                                            <td key={c} title={cell.error} className={`text-center py-3 font-mono text-stone-600 border ${base ? 'border-white' : 'border-stone-800'}`}>n/a</td>
+                                        );
+                                    }
+                                    // 0 = Dark Gray, 1 = White
+                                    const normalized = maxVal > minVal ? (cell.sharePrice - minVal) / (maxVal - minVal) : 1;
+                                    const lightness = 20 + (normalized * 80);
+                                    return (
+                                        <td
+                                            key={c}
+                                            className={`text-center py-3 font-mono font-bold cursor-default ${base ? 'outline outline-2 outline-offset-1 outline-white' : ''}`}
+                                            style={{ backgroundColor: `hsl(0, 0%, ${lightness}%)`, color: lightness < 50 ? 'white' : 'black' }}
+                                            title={`WACC ${wacc}%, ${axis.label} ${grid.columns[c]}${axis.unit}: $${cell.sharePrice.toFixed(2)}`}
+                                        >
+                                            ${cell.sharePrice.toFixed(2)}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-[10px] text-stone-500 mt-4">Each cell re-runs the DCF with every other assumption unchanged. The outlined cell is the base case; n/a marks combinations with no valid value (hover for the reason).</p>
+        </div>
+    );
+};
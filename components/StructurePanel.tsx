@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ChevronDown, Layers, X } from 'lucide-react';
+import { DCFStructure, TerminalMethod } from '../types';
+import { TERMINAL_METHODS, MAX_HORIZON, MAX_FADE_YEARS, DCFCalendar, fiscalDate } from '../lib/dcf';
+
+const INPUT = "w-full mt-2 px-4 py-3 bg-stone-50 border border-stone-200 rounded-none font-mono text-sm text-black focus:outline-none focus:ring-0 focus:border-black transition-all placeholder-stone-400";
+const LABEL = "text-[10px] font-bold text-stone-500 uppercase tracking-widest";
+
+// The DCF needs a valuation date before the end of year 1, so the picker stops the day before. YYYY-MM-DD
+// dates parse as UTC midnight, so whole days can be subtracted without time-zone drift.
+const dayBefore = (iso: string) => new Date(Date.parse(iso) - 86400000).toISOString().slice(0, 10);
+
+// Stage layout of the DCF: explicit years, the optional fade to terminal growth, how the terminal value is set,
+// and when the valuation is struck
+export const StructurePanel = ({ structure, onChange, calendar }: {
+    structure: DCFStructure,
+    onChange: (structure: DCFStructure) => void,
+    calendar?: DCFCalendar // Absent without data; the valuation date then has nothing to fall in
+}) => {
+    const set = (patch: Partial<DCFStructure>) => onChange({ ...structure, ...patch });
+    const yearOneStart = calendar ? fiscalDate(calendar.lastActualEnd, calendar.fiscalYearEnd) : undefined;
+    const yearOneEnd = calendar ? fiscalDate(calendar.lastActualEnd + 1, calendar.fiscalYearEnd) : undefined;
+
+    return (
+        <div className="bg-white border border-stone-200 rounded-none p-8 shadow-none">
+            <h3 className="font-serif text-xl text-black mb-6 flex items-center gap-2"><Layers size={16} /> DCF Stages</h3>
+            <div className="space-y-5">
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className={LABEL}>Explicit Years</label>
+                        <input type="number" min={1} max={MAX_HORIZON} step={1} value={structure.horizon} onChange={e => set({ horizon: Number(e.target.value) })} className={INPUT} />
+                    </div>
+                    <div>
+                        <label className={LABEL}>Fade Years</label>
+                        <input type="number" min={0} max={MAX_FADE_YEARS} step={1} value={structure.fadeYears} onChange={e => set({ fadeYears: Number(e.target.value) })} className={INPUT} />
+                    </div>
+                </div>
+                <div>
+                    <label className={LABEL}>Terminal Value</label>
+                    <div className="relative">
+                        <select value={structure.terminal} onChange={e => set({ terminal: e.target.value as TerminalMethod })} className={`${INPUT} pr-10 appearance-none`}>
+                            {TERMINAL_METHODS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                        </select>
+                        <ChevronDown size={14} className="absolute right-4 top-1/2 mt-1 -translate-y-1/2 pointer-events-none text-stone-500" />
+                    </div>
+                </div>
+                {structure.terminal !== 'gordon' && (
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className={LABEL}>Exit Multiple (x)</label>
+                            <input type="number" step={0.5} value={structure.exitMultiple} onChange={e => set({ exitMultiple: Number(e.target.value) })} className={INPUT} />
+                        </div>
+                        {structure.terminal === 'exit-ebitda' && (
+                            <div>
+                                <label className={LABEL}>EBITDA Margin (%)</label>
+                                <input type="number" step={0.5} value={structure.ebitdaMargin} onChange={e => set({ ebitdaMargin: Number(e.target.value) })} className={INPUT} />
+                            </div>
+                        )}
+                    </div>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className={LABEL}>Valuation Date</label>
+                        <div className="relative">
+                            <input
+                                type="date"
+                                min={yearOneStart}
+                                max={yearOneEnd && dayBefore(yearOneEnd)}
+                                value={structure.valuationDate ?? yearOneStart ?? ''}
+                                disabled={!calendar}
+                                onChange={e => set({ valuationDate: e.target.value || null })}
+                                className={`${INPUT} ${structure.valuationDate ? 'pr-10' : ''} disabled:opacity-50`}
+                            />
+                            {structure.valuationDate && (
+                                <button onClick={() => set({ valuationDate: null })} title="Value at the end of the last actual period" className="absolute right-4 top-1/2 mt-1 -translate-y-1/2 text-stone-400 hover:text-black transition-colors">
+                                    <X size={14} />
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                    <div>
+                        <label className={LABEL}>Cash Flow Timing</label>
+                        <div className="flex mt-2 border border-stone-200">
+                            {([false, true] as const).map(midYear => (
+                                <button
+                                    key={String(midYear)}
+                                    onClick={() => set({ midYear })}
+                                    className={`flex-1 py-3 text-[10px] font-bold uppercase tracking-widest transition-colors ${!!structure.midYear === midYear ? 'bg-black text-white' : 'bg-stone-50 text-stone-500 hover:text-black'}`}
+                                >
+                                    {midYear ? 'Mid-Year' : 'Year-End'}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+                <p className="text-[10px] text-stone-400 leading-relaxed">
+                    {calendar
+                        ? `Year 1 runs from ${yearOneStart} to ${yearOneEnd}; a valuation date inside it counts only the part of year 1 still ahead. `
+                        : ''}
+                    {structure.midYear
+                        ? 'Cash flows are discounted from the middle of each year. '
+                        : ''}
+                    {structure.fadeYears > 0
+                        ? `Years ${structure.horizon + 1}-${structure.horizon + structure.fadeYears}: revenue and FCF growth step from the last explicit year's rate to terminal growth. `
+                        : ''}
+                    {structure.terminal === 'gordon'
+                        ? 'Terminal value grows the final FCF at terminal growth in perpetuity.'
+                        : `Terminal value is the final year's ${structure.terminal === 'exit-fcf' ? 'FCF' : 'EBITDA (Revenue x margin)'} times the exit multiple.`}
+                </p>
+            </div>
+        </div>
+    );
+};
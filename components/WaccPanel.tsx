@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { AlertTriangle, Calculator, X } from 'lucide-react';
+import { WaccInputs } from '../types';
+import { DEFAULT_WACC_INPUTS, computeWacc, summarizeWacc } from '../lib/wacc';
+
+const INPUT = "w-full mt-2 px-3 py-2 bg-stone-50 border border-stone-200 rounded-none font-mono text-sm text-black focus:outline-none focus:ring-0 focus:border-black transition-all";
+const LABEL = "text-[10px] font-bold text-stone-500 uppercase tracking-widest";
+
+const FIELDS: { id: keyof WaccInputs; label: string; step: number }[] = [
+    { id: 'riskFreeRate', label: 'Risk-Free Rate (%)', step: 0.05 },
+    { id: 'equityRiskPremium', label: 'Equity Risk Premium (%)', step: 0.1 },
+    { id: 'costOfDebt', label: 'Pre-Tax Cost of Debt (%)', step: 0.1 },
+    { id: 'taxRate', label: 'Tax Rate (%)', step: 1 },
+    { id: 'debtWeight', label: 'Target D / (D + E) (%)', step: 1 },
+];
+
+// Optional CAPM build-up of WACC; null inputs = WACC is typed directly in Model Assumptions
+export const WaccPanel = ({ inputs, onChange }: {
+    inputs: WaccInputs | null,
+    onChange: (inputs: WaccInputs | null) => void
+}) => {
+    if (!inputs) {
+        return (
+            <button
+                onClick={() => onChange(DEFAULT_WACC_INPUTS)}
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-dashed border-stone-300 text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:border-black hover:text-black transition-colors"
+            >
+                <Calculator size={12} /> Build WACC from CAPM
+            </button>
+        );
+    }
+
+    const result = computeWacc(inputs);
+    const set = (patch: Partial<WaccInputs>) => onChange({ ...inputs, ...patch });
+
+    return (
+        <div className="bg-white border border-stone-200 rounded-none p-8 shadow-none">
+            <div className="flex justify-between items-start mb-6">
+                <h3 className="font-serif text-xl text-black flex items-center gap-2"><Calculator size={16} /> WACC Builder</h3>
+                <button onClick={() => onChange(null)} title="Enter WACC directly" className="text-stone-400 hover:text-black transition-colors">
+                    <X size={14} />
+                </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label className={LABEL}>Beta</label>
+                    <input type="number" step={0.05} value={inputs.beta} onChange={e => set({ beta: Number(e.target.value) })} className={INPUT} />
+                </div>
+                <div>
+                    <label className={LABEL}>Beta Basis</label>
+                    <div className="flex mt-2 border border-stone-200">
+                        {(['levered', 'unlevered'] as const).map(basis => (
+                            <button
+                                key={basis}
+                                onClick={() => set({ betaBasis: basis })}
+                                className={`flex-1 py-2 text-[10px] font-bold uppercase tracking-widest transition-colors ${inputs.betaBasis === basis ? 'bg-black text-white' : 'bg-stone-50 text-stone-500 hover:text-black'}`}
+                            >
+                                {basis}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                {inputs.betaBasis === 'levered' && (
+                    <div className="col-span-2">
+                        <label className={LABEL}>D / (D + E) Behind Beta (%)</label>
+                        <input type="number" step={1} value={inputs.betaDebtWeight} onChange={e => set({ betaDebtWeight: Number(e.target.value) })} className={INPUT} />
+                    </div>
+                )}
+                {FIELDS.map(({ id, label, step }) => (
+                    <div key={id}>
+                        <label className={LABEL}>{label}</label>
+                        <input type="number" step={step} value={inputs[id] as number} onChange={e => set({ [id]: Number(e.target.value) })} className={INPUT} />
+                    </div>
+                ))}
+            </div>
+
+            {result.success ? (
+                <table className="w-full text-xs mt-6 border-t border-black">
+                    <tbody>
+                        {summarizeWacc(inputs, result).slice(0, -1).map(row => (
+                            <tr key={row.label} className="border-b border-stone-100">
+                                <td className="py-1.5 text-stone-500">{row.label}</td>
+                                <td className="py-1.5 text-right font-mono text-black">{row.value}</td>
+                            </tr>
+                        ))}
+                        <tr className="font-bold text-black">
+                            <td className="py-2">WACC</td>
+                            <td className="py-2 text-right font-mono">{result.wacc.toFixed(2)}%</td>
+                        </tr>
+                    </tbody>
+                </table>
+            ) : (
+                <p className="text-xs text-black mt-6 flex items-start gap-2">
+                    <AlertTriangle size={12} className="shrink-0 mt-0.5" /> {result.error} WACC keeps its last valid value.
+                </p>
+            )}
+        </div>
+    );
+};
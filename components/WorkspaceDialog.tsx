@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { FolderOpen, Copy, Trash2, X } from 'lucide-react';
+import { StoredWorkspace, WorkspaceSnapshot, listWorkspaces, saveNamedWorkspace, duplicateWorkspace, deleteWorkspace } from '../lib/workspace';
+
+const labelClass = "block text-[10px] font-bold text-stone-500 uppercase tracking-widest mb-2";
+const inputClass = "w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-none font-mono text-sm text-black focus:outline-none focus:ring-0 focus:border-black transition-all";
+
+export const WorkspaceDialog = ({ snapshot, currentName, onLoad, onSaved, onClose }: {
+    snapshot: WorkspaceSnapshot,
+    currentName: string | null,
+    onLoad: (workspace: StoredWorkspace) => void,
+    onSaved: (name: string) => void,
+    onClose: () => void
+}) => {
+    const [workspaces, setWorkspaces] = useState<StoredWorkspace[]>([]);
+    const [name, setName] = useState(currentName || '');
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = () => listWorkspaces().then(setWorkspaces).catch(err => setError(err.message));
+
+    useEffect(() => { refresh(); }, []);
+
+    // Every store operation refreshes the list afterwards and reports failures inline
+    const run = async (op: () => Promise<unknown>) => {
+        setError(null);
+        try {
+            await op();
+        } catch (err: any) {
+            setError(err.message);
+        }
+        refresh();
+    };
+
+    const save = () => run(async () => {
+        const trimmed = name.trim();
+        await saveNamedWorkspace(trimmed, snapshot);
+        onSaved(trimmed);
+    });
+
+    const overwriting = workspaces.some(w => w.name === name.trim());
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-black/40 flex items-center justify-center p-6">
+            <div className="bg-white border border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between px-8 py-5 border-b border-stone-200">
+                    <div className="flex items-center gap-3">
+                        <FolderOpen size={18} />
+                        <h3 className="font-serif text-2xl text-black">Workspaces</h3>
+                        <span className="text-xs font-mono text-stone-400">stored in this browser only</span>
+                    </div>
+                    <button onClick={onClose} className="text-stone-400 hover:text-black"><X size={18} /></button>
+                </div>
+
+                <div className="p-8 space-y-6">
+                    <div>
+                        <label className={labelClass}>Save Current Workspace As</label>
+                        <div className="flex gap-3">
+                            <input
+                                value={name}
+                                onChange={e => setName(e.target.value)}
+                                onKeyDown={e => { if (e.key === 'Enter' && name.trim()) save(); }}
+                                placeholder="e.g. Q3 utilities review"
+                                className={inputClass}
+                            />
+                            <button
+                                onClick={save}
+                                disabled={!name.trim()}
+                                className="px-6 py-2 bg-black text-white text-xs font-bold uppercase tracking-widest hover:bg-stone-800 transition-colors disabled:opacity-30 whitespace-nowrap"
+                            >
+                                {overwriting ? 'Overwrite' : 'Save'}
+                            </button>
+                        </div>
+                    </div>
+
+                    {error && <p className="text-xs text-black font-bold">Storage error: {error}</p>}
+
+                    <div className="border border-stone-200">
+                        {workspaces.length === 0 && (
+                            <p className="px-4 py-6 text-center text-xs text-stone-400 uppercase tracking-widest">No saved workspaces yet</p>
+                        )}
+                        {workspaces.map(w => (
+                            <div key={w.id} className="flex items-center justify-between px-4 py-3 border-b border-stone-100 last:border-b-0">
+                                <div>
+                                    <p className={`text-sm ${w.name === currentName ? 'font-bold text-black' : 'text-stone-700'}`}>{w.name}</p>
+                                    <p className="text-[10px] font-mono text-stone-400">
+                                        {new Date(w.savedAt).toLocaleString()} · {w.snapshot.entities.length} entit{w.snapshot.entities.length === 1 ? 'y' : 'ies'}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-3">
+                                    <button onClick={() => onLoad(w)} className="px-4 py-1 border border-black text-[10px] font-bold uppercase tracking-widest hover:bg-black hover:text-white transition-colors">Load</button>
+                                    <button onClick={() => run(() => duplicateWorkspace(w.id))} className="text-stone-400 hover:text-black" title={`Duplicate ${w.name}`}><Copy size={14} /></button>
+                                    <button
+                                        onClick={() => { if (confirm(`Delete workspace "${w.name}"?`)) run(() => deleteWorkspace(w.id)); }}
+                                        className="text-stone-400 hover:text-black"
+                                        title={`Delete ${w.name}`}
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <p className="text-xs text-stone-500">The current session is also autosaved and restored on the next visit.</p>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ForecastModel, FORECAST_MODELS, fitForecast } from './forecast';
+
+// --- WALK-FORWARD BACKTEST ---
+// For every origin from MIN_TRAIN onwards, each model is fitted on the history up to that point and
+// asked for the next period; the prediction is scored against what actually happened. All models share
+// the same origins so their scores are comparable.
+
+// Enough history for every model in FORECAST_MODELS to fit
+export const MIN_TRAIN = Math.max(...FORECAST_MODELS.map(m => m.minPoints));
+// Fewer scored origins than this and the scores mean little
+export const MIN_ORIGINS = 3;
+
+export interface BacktestScore {
+  model: ForecastModel;
+  label: string;
+  mape: number | null; // %, over non-zero actuals
+  rmse: number | null;
+  bias: number | null; // Mean of predicted - actual; positive = over-forecasting
+  points: number;
+}
+
+export interface BacktestReport {
+  scores: BacktestScore[];
+  // One row per scored period: { Year, Actual, <model label>: one-step prediction, ... }
+  series: Record<string, number | null>[];
+  origins: number;
+  warnings: string[];
+}
+
+export const runBacktest = (t: number[], y: number[], periodsPerYear: number, horizonSteps: number): BacktestReport => {
+    const origins = Math.max(0, y.length - MIN_TRAIN);
+    const warnings: string[] = [];
+
+    if (origins < MIN_ORIGINS) {
+        warnings.push(`Only ${origins} period(s) can be backtested; at least ${MIN_TRAIN + MIN_ORIGINS} periods of history are needed for meaningful scores.`);
+    }
+    if (y.length < 2 * horizonSteps) {
+        warnings.push(`History (${y.length} periods) covers less than twice the ${horizonSteps}-period forecast horizon. Scores only cover one-step-ahead accuracy; errors compound further out.`);
+    }
+
+    const series: Record<string, number | null>[] = [];
+    for (let i = MIN_TRAIN; i < y.length; i++) series.push({ Year: t[i], Actual: y[i] });
+
+    const scores = FORECAST_MODELS.map(m => {
+        const errors: number[] = [];
+        const pctErrors: number[] = [];
+        series.forEach((row, k) => {
+            const i = MIN_TRAIN + k;
+            const fit = fitForecast(t.slice(0, i), y.slice(0, i), m.id, 1, periodsPerYear);
+            const predicted = fit.success ? fit.predictions[0] : null;
+            row[m.label] = predicted === null ? null : Math.round(predicted);
+            if (predicted === null || !isFinite(predicted)) return;
+            errors.push(predicted - y[i]);
+            if (y[i] !== 0) pctErrors.push(Math.abs((predicted - y[i]) / y[i]) * 100);
+        });
+        const mean = (v: number[]) => v.length ? v.reduce((a, b) => a + b, 0) / v.length : null;
+        return {
+            model: m.id,
+            label: m.label,
+            mape: mean(pctErrors),
+            rmse: errors.length ? Math.sqrt(mean(errors.map(e => e * e))!) : null,
+            bias: mean(errors),
+            points: errors.length,
+        };
+    });
+
+    return { scores, series, origins, warnings };
+};
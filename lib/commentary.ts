@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FinancialRecord } from '../types';
+import { SeriesOptions, linearFit } from './dcf';
+import { annualTotals } from './drivers';
+import { ForecastRow } from './forecast';
+import { periodKey } from './integrity';
+
+// --- COMMENTARY ENGINE ---
+// Each rule looks at one aspect of the model and either stays silent or returns a sentence together with
+// the figures that triggered it, so every line of commentary can be traced back to a number on screen.
+// Rules are independent; the engine simply runs them in order.
+
+export type Tone = 'positive' | 'neutral' | 'caution';
+
+export interface Evidence {
+  label: string;
+  value: string;
+  source: string; // Where the figure lives in the app, e.g. "Risk Control"
+}
+
+export interface Insight {
+  ruleId: string;
+  tone: Tone;
+  text: string;
+  evidence: Evidence[];
+}
+
+export interface CommentaryContext {
+  metric: string;
+  modelLabel: string;
+  horizon: number; // Forecast horizon, years
+  history: FinancialRecord[];
+  forecast: ForecastRow[]; // Rows of the target metric's forecast series
+  series: SeriesOptions;
+  valuation: { terminalValue: number; enterpriseValue: number } | null; // Present values
+  synthesizedBudget: string[]; // periodKey() of rows whose Budget was filled in by the importer
+  formatPeriod: (t: number) => string;
+}
+
+export interface CommentaryRule {
+  id: string;
+  label: string;
+  evaluate: (ctx: CommentaryContext) => Omit<Insight, 'ruleId'> | null;
+}
+
+// Thresholds at which a rule has something worth saying
+const MARGIN_SHIFT_PP = 1;      // Net margin change, percentage points
+const VOLATILE_GROWTH_SD = 15;  // Standard deviation of period growth, %
+const STEADY_GROWTH_SD = 3;
+const VARIANCE_STREAK = 3;      // Consecutive periods on the same side of Budget
+const TV_SHARE_HIGH = 75;       // Terminal value share of EV, %
+const TV_SHARE_LOW = 50;
+const SLOPE_SHIFT = 25;         // Forecast vs historical slope, % difference
+
+const num = (n: number, digits = 0) => n.toLocaleString(undefined, { maximumFractionDigits: digits, minimumFractionDigits: digits });
+const money = (n: number) => `${n < 0 ? '-' : ''}$${num(Math.abs(n))}`;
+const pct = (n: number, digits = 1) => `${num(n, digits)}%`;
+const signed = (n: number, digits = 1) => `${n > 0 ? '+' : ''}${num(n, digits)}`;
+
+const actuals = (ctx: CommentaryContext) => ctx.history.filter(d => typeof d[ctx.metric] === 'number');
+const forecastEnd = (ctx: CommentaryContext) => {
+    const future = ctx.forecast.filter(r => r.Historical === null && r.Forecast !== null);
+    return future[future.length - 1];
+};
+
+export const COMMENTARY_RULES: CommentaryRule[] = [
+    {
+        id: 'trajectory',
+        label: 'Forecast Trajectory',
+        evaluate: (ctx) => {
+            const start = actuals(ctx).pop();
+            const end = forecastEnd(ctx);
+            if (!start || !end) return null;
+            const from = start[ctx.metric] as number;
+            const to = end.Forecast!;
+            const evidence: Evidence[] = [
+                { label: `${ctx.metric}, ${ctx.formatPeriod(start.Year)} actual`, value: money(from), source: 'Neural Forecast' },
+                { label: `${ctx.metric}, ${ctx.formatPeriod(end.Year)} forecast`, value: money(to), source: 'Neural Forecast' },
+            ];
+
+            // CAGR is only defined between two positive values; otherwise describe the absolute move
+            if (from > 0 && to > 0) {
+                const cagr = (Math.pow(to / from, 1 / ctx.horizon) - 1) * 100;
+                const strength = Math.abs(cagr) > 10 ? 'aggressive' : Math.abs(cagr) > 5 ? 'moderate' : 'gradual';
+                evidence.push({ label: 'Implied CAGR', value: pct(cagr, 2), source: 'Neural Forecast' });
+                return {
+                    tone: cagr >= 0 ? 'positive' : 'caution',
+                    text: Math.abs(cagr) < 1
+                        ? `The ${ctx.modelLabel} model projects ${ctx.metric} broadly flat over the next ${ctx.horizon} years (CAGR ${pct(cagr, 2)}).`
+                        : `The ${ctx.modelLabel} model projects ${strength} ${cagr > 0 ? 'growth' : 'contraction'} in ${ctx.metric}, at a CAGR of ${pct(cagr, 2)} over the next ${ctx.horizon} years to ${money(to)}.`,
+                    evidence,
+                };
+            }
+            evidence.push({ label: 'Change', value: money(to - from), source: 'Neural Forecast' });
+            const crossing = from <= 0 && to > 0 ? ', turning positive' : from >= 0 && to < 0 ? ', turning negative' : '';
+            return {
+                tone: to >= from ? 'positive' : 'caution',
+                text: `The ${ctx.modelLabel} model takes ${ctx.metric} from ${money(from)} to ${money(to)} over ${ctx.horizon} years${crossing}. A growth rate is not meaningful across zero or negative values.`,
+                evidence,
+            };
+        },
+    },
+    {
+        id: 'margin-trend',
+        label: 'Margin Expansion / Compression',
+        evaluate: (ctx) => {
+            const revenue = annualTotals(ctx.history, 'Revenue', ctx.series);
+            const netIncome = annualTotals(ctx.history, 'Net Income', ctx.series);
+            if (revenue.length < 2 || revenue[0] === 0 || revenue[revenue.length - 1] === 0) return null;
+            const first = (netIncome[0] / revenue[0]) * 100;
+            const last = (netIncome[netIncome.length - 1] / revenue[revenue.length - 1]) * 100;
+            const shift = last - first;
+            if (Math.abs(shift) < MARGIN_SHIFT_PP) return null;
+            return {
+                tone: shift > 0 ? 'positive' : 'caution',
+                text: `Net margin has ${shift > 0 ? 'expanded' : 'compressed'} by ${num(Math.abs(shift), 1)} percentage points over ${revenue.length} fiscal years, from ${pct(first)} to ${pct(last)}.`,
+                evidence: [
+                    { label: 'Net margin, first full year', value: pct(first), source: 'Dataset' },
+                    { label: 'Net margin, latest full year', value: pct(last), source: 'Dataset' },
+                    { label: 'Change', value: `${signed(shift)} pp`, source: 'Dataset' },
+                ],
+            };
+        },
+    },
+    {
+        id: 'volatility',
+        label: 'Historical Volatility',
+        evaluate: (ctx) => {
+            const values = actuals(ctx).map(d => d[ctx.metric] as number);
+            const growth = values.slice(1).map((v, i) => values[i] !== 0 ? ((v - values[i]) / Math.abs(values[i])) * 100 : NaN).filter(isFinite);
+            if (growth.length < 3) return null;
+            const mean = growth.reduce((s, g) => s + g, 0) / growth.length;
+            const sd = Math.sqrt(growth.reduce((s, g) => s + (g - mean) ** 2, 0) / (growth.length - 1));
+            if (sd < VOLATILE_GROWTH_SD && sd > STEADY_GROWTH_SD) return null;
+            const evidence: Evidence[] = [
+                { label: `Std. dev. of period-over-period ${ctx.metric} growth`, value: pct(sd), source: 'Dataset' },
+                { label: 'Periods measured', value: String(growth.length), source: 'Dataset' },
+            ];
+            return sd >= VOLATILE_GROWTH_SD
+                ? { tone: 'caution', text: `${ctx.metric} history is volatile (growth swings with a standard deviation of ${pct(sd)} per period), so the forecast deserves a wide margin of error.`, evidence }
+                : { tone: 'positive', text: `${ctx.metric} history is unusually steady (growth standard deviation of ${pct(sd)} per period), which supports the reliability of the trend.`, evidence };
+        },
+    },
+    {
+        id: 'budget-streak',
+        label: 'Budget Variance Streak',
+        evaluate: (ctx) => {
+            // Budgets the importer filled in from Revenue would beat it by construction. Rolled-up periods cannot
+            // be traced back to their source rows, so any filled-in budget they might contain silences the rule.
+            const filled = new Set(ctx.synthesizedBudget);
+            const traced = ctx.history.filter(d => filled.has(periodKey(d))).length;
+            if (traced < filled.size) return null;
+            const rows = ctx.history.filter(d => typeof d.Revenue === 'number' && typeof d.Budget === 'number' && !filled.has(periodKey(d)));
+            const variance = rows.map(d => d.Revenue - d.Budget);
+            const last = variance[variance.length - 1];
+            if (!last) return null;
+            let streak = 0;
+            while (streak < variance.length && Math.sign(variance[variance.length - 1 - streak]) === Math.sign(last)) streak++;
+            if (streak < VARIANCE_STREAK) return null;
+            const total = variance.slice(-streak).reduce((s, v) => s + v, 0);
+            const from = ctx.formatPeriod(rows[rows.length - streak].Year);
+            const to = ctx.formatPeriod(rows[rows.length - 1].Year);
+            return {
+                tone: last > 0 ? 'positive' : 'caution',
+                text: last > 0
+                    ? `Revenue has beaten budget for ${streak} consecutive periods (${from} to ${to}), by ${money(total)} in total; budgets may be conservative.`
+                    : `Revenue has missed budget for ${streak} consecutive periods (${from} to ${to}), by ${money(Math.abs(total))} in total, suggesting a persistent planning gap.`,
+                evidence: [
+                    { label: 'Consecutive periods', value: String(streak), source: 'Risk Control' },
+                    { label: `Cumulative variance vs Budget, ${from} to ${to}`, value: money(total), source: 'Risk Control' },
+                ],
+            };
+        },
+    },
+    {
+        id: 'terminal-share',
+        label: 'Terminal Value Dependence',
+        evaluate: (ctx) => {
+            if (!ctx.valuation || !(ctx.valuation.enterpriseValue > 0)) return null;
+            const share = (ctx.valuation.terminalValue / ctx.valuation.enterpriseValue) * 100;
+            if (share < TV_SHARE_HIGH && share > TV_SHARE_LOW) return null;
+            const evidence: Evidence[] = [
+                { label: 'Terminal value (PV)', value: money(ctx.valuation.terminalValue), source: 'Valuation' },
+                { label: 'Enterprise value', value: money(ctx.valuation.enterpriseValue), source: 'Valuation' },
+                { label: 'Terminal share of EV', value: pct(share), source: 'Valuation' },
+            ];
+            return share >= TV_SHARE_HIGH
+                ? { tone: 'caution', text: `${pct(share, 0)} of enterprise value sits in the terminal value, so the valuation leans heavily on WACC and terminal growth assumptions.`, evidence }
+                : { tone: 'positive', text: `Only ${pct(share, 0)} of enterprise value comes from the terminal value; most of the valuation is backed by explicit-period cash flows.`, evidence };
+        },
+    },
+    {
+        id: 'slope-change',
+        label: 'Forecast vs History Slope',
+        evaluate: (ctx) => {
+            const points = actuals(ctx);
+            const end = forecastEnd(ctx);
+            if (points.length < 2 || !end) return null;
+            const { slope: historical } = linearFit(points.map(d => d.Year), points.map(d => d[ctx.metric] as number));
+            const start = points[points.length - 1];
+            const projected = (end.Forecast! - (start[ctx.metric] as number)) / (end.Year - start.Year);
+            if (!isFinite(historical) || !isFinite(projected) || historical === 0) return null;
+            const shift = ((projected - historical) / Math.abs(historical)) * 100;
+            const reversal = Math.sign(projected) !== Math.sign(historical);
+            if (!reversal && Math.abs(shift) < SLOPE_SHIFT) return null;
+            return {
+                tone: 'neutral',
+                text: reversal
+                    ? `The forecast reverses the historical direction of ${ctx.metric}: ${money(historical)} per year historically versus ${money(projected)} per year projected.`
+                    : `The forecast ${shift > 0 ? 'accelerates' : 'decelerates'} ${ctx.metric} relative to history: ${money(projected)} per year projected versus a ${money(historical)} per year historical trend.`,
+                evidence: [
+                    { label: 'Historical trend (OLS slope)', value: `${money(historical)} / yr`, source: 'Dataset' },
+                    { label: 'Forecast slope', value: `${money(projected)} / yr`, source: 'Neural Forecast' },
+                    { label: 'Difference', value: `${signed(shift, 0)}%`, source: 'Neural Forecast' },
+                ],
+            };
+        },
+    },
+    {
+        id: 'analyst-overrides',
+        label: 'Analyst Overrides',
+        evaluate: (ctx) => {
+            const overridden = ctx.forecast.filter(r => r.Model !== undefined && r.Forecast !== null);
+            if (overridden.length === 0) return null;
+            const moved = overridden.reduce((s, r) => s + (r.Forecast! - r.Model!), 0);
+            return {
+                tone: 'neutral',
+                text: `${overridden.length} forecast period${overridden.length > 1 ? 's carry' : ' carries'} an analyst override, moving ${ctx.metric} by ${money(moved)} in total against the ${ctx.modelLabel} model; the figures above include them.`,
+                evidence: overridden.map(r => ({
+                    label: `${ctx.formatPeriod(r.Year)}${r.Note ? ` (${r.Note})` : ''}`,
+                    value: `${money(r.Model!)} → ${money(r.Forecast!)}`,
+                    source: 'Analyst Override',
+                })),
+            };
+        },
+    },
+];
+
+export const generateCommentary = (ctx: CommentaryContext, rules = COMMENTARY_RULES): Insight[] =>
+    rules.flatMap(rule => {
+        const insight = rule.evaluate(ctx);
+        return insight ? [{ ruleId: rule.id, ...insight }] : [];
+    });
@@ -0,0 +1,265 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FinancialRecord, ParseIssue } from '../types';
+import { parsePeriodLabel, normalizePeriods } from './periods';
+import { periodKey } from './integrity';
+
+export type Delimiter = ',' | ';' | '\t';
+export type DecimalSeparator = '.' | ',';
+
+export interface CSVParseResult extends TableParseResult {
+  headers: string[];
+  delimiter: Delimiter;
+  decimal: DecimalSeparator;
+}
+
+const DELIMITERS: Delimiter[] = [',', ';', '\t'];
+
+// --- TOKENIZER (RFC 4180) ---
+// Handles quoted fields, escaped quotes ("") and delimiters / line breaks inside quotes.
+// Accepts CRLF, LF and bare CR line endings.
+export const tokenizeCSV = (text: string, delimiter: Delimiter = ','): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let i = 0;
+
+    const src = text.charCodeAt(0) === 0xFEFF ? text.slice(1) : text;
+
+    const endRow = () => {
+        row.push(field);
+        // Skip blank lines entirely
+        if (!(row.length === 1 && row[0].trim() === '')) rows.push(row);
+        row = [];
+        field = '';
+    };
+
+    while (i < src.length) {
+        const ch = src[i];
+
+        if (inQuotes) {
+            if (ch === '"') {
+                if (src[i + 1] === '"') {
+                    field += '"';
+                    i += 2;
+                    continue;
+                }
+                inQuotes = false;
+            } else {
+                field += ch;
+            }
+            i++;
+            continue;
+        }
+
+        if (ch === '"' && field.trim() === '') {
+            field = '';
+            inQuotes = true;
+        } else if (ch === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (ch === '\r' || ch === '\n') {
+            endRow();
+            if (ch === '\r' && src[i + 1] === '\n') i++;
+        } else {
+            field += ch;
+        }
+        i++;
+    }
+
+    if (field !== '' || row.length > 0) endRow();
+    return rows;
+};
+
+// Picks the delimiter that yields the most consistent, multi-column split of the first lines.
+export const detectDelimiter = (text: string): Delimiter => {
+    const sample = text.slice(0, 8192);
+    let best: Delimiter = ',';
+    let bestScore = -1;
+
+    for (const d of DELIMITERS) {
+        const rows = tokenizeCSV(sample, d).slice(0, 10);
+        if (rows.length === 0) continue;
+        const width = rows[0].length;
+        if (width < 2) continue;
+        const consistent = rows.filter(r => r.length === width).length;
+        const score = consistent * width;
+        if (score > bestScore) {
+            bestScore = score;
+            best = d;
+        }
+    }
+    return best;
+};
+
+// --- NUMBER COERCION ---
+
+// Guesses the decimal separator from the numeric-looking cells of a table.
+// "1.234,56" / "12,5" style values vote for comma, "1,234.56" / "12.5" for dot.
+export const detectDecimalSeparator = (cells: string[], delimiter: Delimiter): DecimalSeparator => {
+    let comma = 0;
+    let dot = 0;
+    for (const raw of cells) {
+        const v = raw.replace(/[^\d.,]/g, '');
+        if (/\d,\d{1,2}$/.test(v) || /\.\d{3},\d+$/.test(v)) comma++;
+        else if (/\d\.\d{1,2}$/.test(v) || /,\d{3}\.\d+$/.test(v)) dot++;
+    }
+    if (comma === dot) return delimiter === ';' ? ',' : '.';
+    return comma > dot ? ',' : '.';
+};
+
+/**
+ * Converts a spreadsheet-style cell into a number. Understands currency symbols,
+ * thousands separators, accounting negatives "(1,200)", trailing minus, and
+ * percentages (returned as the percent value, e.g. "12.5%" -> 12.5).
+ * Thousands separators must split the integer part into groups of three, so a value
+ * written for the other decimal convention ("12,5" or "1.234,5" when `decimal` is '.')
+ * is rejected rather than misread. A cell may carry one sign marker at most; "--5" or "(-5)"
+ * returns null instead of flipping the sign. Returns null when the cell is not numeric.
+ */
+export const coerceNumber = (raw: string | number | null | undefined, decimal: DecimalSeparator = '.'): number | null => {
+    if (raw === null || raw === undefined) return null;
+    if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+
+    let s = raw.trim();
+    if (s === '') return null;
+
+    // Count sign markers: "(5)", "-5", "5-" and "$-5" each carry exactly one
+    let signs = 0;
+    if (/^\(.*\)$/.test(s)) {
+        signs++;
+        s = s.slice(1, -1).trim();
+    }
+    if (s.endsWith('-')) {
+        signs++;
+        s = s.slice(0, -1).trim();
+    }
+    if (s.startsWith('-')) {
+        signs++;
+        s = s.slice(1).trim();
+    } else if (s.startsWith('+')) {
+        s = s.slice(1).trim();
+    }
+
+    // Currency symbols / codes and percent signs
+    s = s.replace(/^(USD|EUR|GBP|CAD|\$|€|£|¥)\s*/i, '').replace(/\s*(USD|EUR|GBP|CAD|\$|€|£|¥)$/i, '');
+    if (s.startsWith('-')) {
+        signs++;
+        s = s.slice(1);
+    }
+    if (signs > 1) return null;
+    const negative = signs === 1;
+    s = s.replace(/%$/, '').trim();
+
+    const [whole, ...fraction] = s.split(decimal);
+    if (fraction.length > 1) return null;
+    // Thousands separators may also be spaces / apostrophes (1 234 / 1'234), but only between full groups of three
+    const separator = decimal === '.' ? "[,\\s\\u00a0']" : "[.\\s\\u00a0']";
+    if (new RegExp(separator).test(whole) && !new RegExp(`^\\d{1,3}(${separator}\\d{3})+$`).test(whole)) return null;
+    s = whole.replace(new RegExp(separator, 'g'), '') + (fraction.length ? `.${fraction[0]}` : '');
+
+    if (!/^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(s)) return null;
+    const n = Number(s);
+    if (!Number.isFinite(n)) return null;
+    return negative ? -n : n;
+};
+
+export interface TableParseResult {
+  records: FinancialRecord[];
+  errors: ParseIssue[];
+  synthesizedBudget: string[]; // periodKey() of rows whose Budget was defaulted
+}
+
+/**
+ * Turns a header row plus body cells into records. Shared by the CSV and workbook importers.
+ * Cells may already be numbers (spreadsheets) or raw strings (CSV). The Year column may hold
+ * quarter, month or date labels; see `parsePeriodLabel`.
+ */
+export const tableToRecords = (headers: string[], body: (string | number)[][], decimal: DecimalSeparator = '.', fiscalYearEnd = 12): TableParseResult => {
+    const errors: ParseIssue[] = [];
+    const records: FinancialRecord[] = [];
+    const isBlank = (c: string | number | undefined) => c === undefined || c === null || String(c).trim() === '';
+
+    // Columns without a single numeric cell are descriptive (notes, labels) and are dropped once,
+    // rather than flagged on every row.
+    const textColumns = new Set(headers.filter((h, i) =>
+        h !== 'Year' && body.every(cells => isBlank(cells[i]) || coerceNumber(cells[i], decimal) === null)
+    ));
+    textColumns.forEach(h => errors.push({ row: 0, column: h, message: 'Non-numeric column ignored' }));
+
+    body.forEach((cells, idx) => {
+        const rowNum = idx + 1;
+        if (cells.length !== headers.length) {
+            errors.push({ row: rowNum, message: `Expected ${headers.length} fields, found ${cells.length}` });
+        }
+
+        const obj: any = {};
+        headers.forEach((h, i) => {
+            const raw = cells[i];
+            if (textColumns.has(h) || isBlank(raw)) return;
+            if (h === 'Year') {
+                const period = parsePeriodLabel(raw, fiscalYearEnd);
+                if (period) Object.assign(obj, period);
+                else errors.push({ row: rowNum, column: h, message: `Unrecognised period "${String(raw).trim()}"` });
+                return;
+            }
+            const num = coerceNumber(raw, decimal);
+            if (num === null) {
+                errors.push({ row: rowNum, column: h, message: `Non-numeric value "${String(raw).trim()}"` });
+                return;
+            }
+            obj[h] = num;
+        });
+
+        if (typeof obj.Year !== 'number') {
+            errors.push({ row: rowNum, column: 'Year', message: 'Missing or invalid Year; row skipped' });
+            return;
+        }
+
+        records.push(obj as FinancialRecord);
+    });
+
+    const normalized = normalizePeriods(records, fiscalYearEnd);
+    const synthesizedBudget: string[] = [];
+    normalized.forEach(r => {
+        // Only an absent Budget is filled in; a reported Budget of 0 stands
+        if (r.Budget === undefined && r.Revenue !== undefined) {
+            r.Budget = Math.round(r.Revenue * 0.95);
+            synthesizedBudget.push(periodKey(r));
+        }
+    });
+
+    return { records: normalized, errors, synthesizedBudget };
+};
+
+// --- PARSER ---
+
+// A header row plus raw body cells, before any column mapping or number coercion.
+export interface RawTable {
+  headers: string[];
+  body: (string | number)[][];
+  decimal: DecimalSeparator;
+}
+
+export const readCSVTable = (text: string): RawTable & { delimiter: Delimiter } => {
+    const delimiter = detectDelimiter(text);
+    const rows = tokenizeCSV(text, delimiter);
+    const headers = (rows[0] || []).map(h => h.trim());
+    const body = rows.slice(1);
+    const decimal = detectDecimalSeparator(body.flat(), delimiter);
+    return { headers, body, decimal, delimiter };
+};
+
+export const parseCSV = (text: string): CSVParseResult => {
+    const { headers, body, decimal, delimiter } = readCSVTable(text);
+
+    if (body.length === 0) {
+        return { headers: [], records: [], errors: [{ row: 0, message: 'File contains no data rows' }], synthesizedBudget: [], delimiter, decimal };
+    }
+
+    return { headers, ...tableToRecords(headers, body, decimal), delimiter, decimal };
+};
@@ -0,0 +1,444 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DCFAssumptions, DCFStructure, FinancialRecord, TerminalMethod } from '../types';
+import { PROJECTION_YEARS, ProjectionRow } from './drivers';
+
+// --- DCF ENGINE (JS) ---
+// Mirrors DCF_PY, the NumPy twin run by App's valuation job. Used as the fallback when the Python kernel
+// is unavailable and for any view that values several datasets at once. Values up to three stages, each
+// discounted at WACC:
+//
+//   1. Explicit  the driver projection's FCF, one value per horizon year (see lib/drivers)
+//   2. Fade      optional; revenue growth steps linearly from the last explicit year's rate to terminal
+//                growth, reaching it in the final fade year. FCF grows with revenue, so the last explicit
+//                year's margins carry through.
+//   3. Terminal  on the final year: Gordon growth, FCF x (1 + g) / (WACC - g), or an exit multiple of
+//                FCF or of EBITDA (Revenue x EBITDA margin)
+//
+// Timing: year 1 starts at the end of the last actual period. By default the valuation date is that same
+// point and year i's cash flow is discounted over i years. A later valuation date inside year 1 leaves only
+// a stub of it ahead: year 1's FCF is cut to the stub's share (cash assumed to accrue evenly) and every
+// discount period shortens by the time already elapsed. Under the mid-year convention each year's cash flow
+// arrives halfway through whatever part of the year is still ahead, and the Gordon terminal value, a
+// perpetuity of such flows, moves half a year earlier too; an exit-multiple terminal value is a sale at the
+// end of the final year and keeps its end-of-year timing.
+//
+// Inputs that have no meaningful value (WACC not above terminal growth under Gordon growth, a multiple
+// that is not positive, ...) are reported as errors; nothing falls back to a substitute terminal value.
+
+export const MAX_HORIZON = 10;
+export const MAX_FADE_YEARS = 10;
+
+export const TERMINAL_METHODS: { id: TerminalMethod; label: string }[] = [
+    { id: 'gordon', label: 'Gordon Growth' },
+    { id: 'exit-fcf', label: 'Exit Multiple (EV/FCF)' },
+    { id: 'exit-ebitda', label: 'Exit Multiple (EV/EBITDA)' },
+];
+
+export const DEFAULT_DCF_STRUCTURE: DCFStructure = { horizon: PROJECTION_YEARS, fadeYears: 0, terminal: 'gordon', exitMultiple: 12, ebitdaMargin: 20, valuationDate: null, midYear: false };
+
+// Places the projection in time, on the fiscal-year index the period view uses for `Year` (see lib/periods):
+// N.0 is the start of fiscal year N
+export interface DCFCalendar {
+  lastActualEnd: number; // End of the last actual period, where projection year 1 starts
+  fiscalYearEnd: number; // Calendar month (1-12) ending the fiscal year, to place dates on the index
+}
+
+// Calendar of a period view (see lib/periods): its last row's index plus one period is where the actuals end
+export const dcfCalendar = (records: FinancialRecord[], periodsPerYear: number, fiscalYearEnd: number): DCFCalendar | undefined =>
+    records.length ? { lastActualEnd: records[records.length - 1].Year + 1 / periodsPerYear, fiscalYearEnd } : undefined;
+
+export interface DiscountRow {
+  Year: number;            // Projection year, explicit then fade
+  'Free Cash Flow': number; // As counted: year 1 cut to the stub
+  Period: number;          // Years from the valuation date to when the cash flow is taken to arrive
+  'Present Value': number;
+}
+
+export interface FadeRow {
+  Year: number;   // Years after the last actual, continuing from the explicit years
+  Growth: number; // Revenue and FCF growth, %
+  Revenue: number;
+  'Free Cash Flow': number;
+}
+
+export interface DCFResult {
+  success: boolean;
+  sharePrice: number;
+  sumFCF: number;          // PV of the explicit years
+  fadePV: number;          // PV of the fade years
+  terminalValue: number;   // PV of the terminal value
+  exitValue: number;       // Terminal value at the end of the final year, undiscounted
+  enterpriseValue: number;
+  stub: number;            // Share of year 1 still ahead of the valuation date, 1 = all of it
+  terminalPeriod: number;  // Years over which the terminal value is discounted
+  fade: FadeRow[];
+  schedule: DiscountRow[];
+  error?: string;
+}
+
+export const EMPTY_DCF: DCFResult = { success: false, sharePrice: 0, sumFCF: 0, fadePV: 0, terminalValue: 0, exitValue: 0, enterpriseValue: 0, stub: 0, terminalPeriod: 0, fade: [], schedule: [] };
+
+export interface WaterfallStep {
+  name: string;
+  value: number;
+  range: [number, number]; // Where the bar floats: running total before and after the step, low to high
+  contribution: string;
+  isTotal?: boolean;
+}
+
+export interface SeriesOptions {
+  periodsPerYear: number;
+  ttm: boolean;
+}
+
+// Ordinary least squares fit of y on x.
+export const linearFit = (x: number[], y: number[]) => {
+    const n = x.length;
+    const sumX = x.reduce((a, b) => a + b, 0);
+    const sumY = y.reduce((a, b) => a + b, 0);
+    const sumXY = x.reduce((a, b, i) => a + b * y[i], 0);
+    const sumXX = x.reduce((a, b) => a + b * b, 0);
+    const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
+    const intercept = (sumY - slope * sumX) / n;
+    return { slope, intercept };
+};
+
+export const dcfStructure = (a: DCFAssumptions): DCFStructure => a.structure ?? DEFAULT_DCF_STRUCTURE;
+
+// Years to project for a structure. The horizon is typed in freely and only checked by validateStructure, so
+// it is held to 1..MAX_HORIZON here to keep an out-of-range entry from sizing the projection.
+export const projectionHorizon = (s: DCFStructure): number =>
+    Math.min(MAX_HORIZON, Math.max(1, Math.round(s.horizon) || 1));
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Position of the end of a YYYY-MM-DD day on the fiscal-year index; null if it is not a real date
+export const fiscalTime = (iso: string, fiscalYearEnd: number): number | null => {
+    const m = ISO_DATE.exec(iso);
+    if (!m) return null;
+    const [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+    if (month < 1 || month > 12) return null;
+    const days = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    if (day < 1 || day > days) return null;
+    // Months elapsed since the start of year 0; fiscal year N starts after month `fiscalYearEnd` of year N - 1
+    const months = year * 12 + month - 1 + day / days;
+    return (months - fiscalYearEnd) / 12 + 1;
+};
+
+// The month end at a point on the fiscal-year index, as YYYY-MM-DD
+export const fiscalDate = (t: number, fiscalYearEnd: number): string => {
+    const month = Math.round((t - 1) * 12 + fiscalYearEnd) - 1; // The month that has just ended, from year 0
+    const year = Math.floor(month / 12);
+    const day = new Date(Date.UTC(year, month % 12 + 1, 0)).getUTCDate();
+    return `${year}-${String(month % 12 + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Every problem with the assumptions, worded for the user. computeDCF reports the first.
+// Checks on the DCF stages and timing alone; shared with the Monte Carlo, which draws its own WACC and growth
+export const validateStructure = (s: DCFStructure): string[] => {
+    const errors: string[] = [];
+    if (!Number.isInteger(s.horizon) || s.horizon < 1 || s.horizon > MAX_HORIZON) errors.push(`Explicit horizon must be a whole number of years from 1 to ${MAX_HORIZON}.`);
+    if (!Number.isInteger(s.fadeYears) || s.fadeYears < 0 || s.fadeYears > MAX_FADE_YEARS) errors.push(`Fade period must be a whole number of years from 0 to ${MAX_FADE_YEARS}.`);
+    if (s.terminal !== 'gordon' && !(s.exitMultiple > 0)) errors.push('Exit multiple must be positive.');
+    if (s.terminal === 'exit-ebitda' && !(s.ebitdaMargin > 0)) errors.push('EV/EBITDA exit needs a positive EBITDA margin.');
+    // Any fiscal year end will do: this only checks that the string is a real date
+    if (s.valuationDate && fiscalTime(s.valuationDate, 12) === null) errors.push(`Valuation date "${s.valuationDate}" is not a date in YYYY-MM-DD form.`);
+    return errors;
+};
+
+export const validateDCF = (a: DCFAssumptions): string[] => {
+    const s = dcfStructure(a);
+    const errors = validateStructure(s);
+    if (!(a.wacc > 0)) errors.push('WACC must be positive.');
+    if (s.terminal === 'gordon' && !(a.wacc > a.termGrowth)) {
+        errors.push(`WACC (${a.wacc}%) must exceed terminal growth (${a.termGrowth}%) for a Gordon growth terminal value. Lower terminal growth or use an exit multiple.`);
+    }
+    return errors;
+};
+
+// Years of projection year 1 already behind the valuation date, or an error if the date is outside year 1.
+// Without a calendar the projection cannot be placed in time and the valuation date is ignored.
+export const valuationTiming = (s: DCFStructure, calendar?: DCFCalendar): { elapsed: number; error?: string } => {
+    if (!s.valuationDate || !calendar) return { elapsed: 0 };
+    const start = calendar.lastActualEnd;
+    // Rounded so a month-end date lands exactly on the period boundary
+    const elapsed = Math.round((fiscalTime(s.valuationDate, calendar.fiscalYearEnd)! - start) * 1e9) / 1e9;
+    if (elapsed < 0 || elapsed >= 1) {
+        const from = fiscalDate(start, calendar.fiscalYearEnd);
+        const to = fiscalDate(start + 1, calendar.fiscalYearEnd);
+        return { elapsed, error: `Valuation date ${s.valuationDate} must fall in projection year 1: on or after ${from}, the end of the last actual period, and before ${to}.` };
+    }
+    return { elapsed };
+};
+
+// Values a company from its driver projection (see lib/drivers), one row per explicit year
+export const computeDCF = (rows: ProjectionRow[], a: DCFAssumptions, calendar?: DCFCalendar): DCFResult => {
+    const errors = validateDCF(a);
+    if (errors.length) return { ...EMPTY_DCF, error: errors[0] };
+    if (rows.length === 0) return { ...EMPTY_DCF, error: 'No projected years to value.' };
+
+    const s = dcfStructure(a);
+    const { elapsed, error } = valuationTiming(s, calendar);
+    if (error) return { ...EMPTY_DCF, error };
+
+    const r = a.wacc / 100;
+    const g = a.termGrowth / 100;
+    const stub = 1 - elapsed;
+    // Year `year` runs from year - 1 (or the valuation date, in year 1) to year, measured from the start of year 1
+    const period = (year: number) => (s.midYear ? (Math.max(year - 1, elapsed) + year) / 2 : year) - elapsed;
+    const discounted = (year: number, fcf: number): DiscountRow => {
+        const counted = year === 1 ? fcf * stub : fcf;
+        return { Year: year, 'Free Cash Flow': counted, Period: period(year), 'Present Value': counted / Math.pow(1 + r, period(year)) };
+    };
+    const explicit = rows.map((row, i) => discounted(i + 1, row['Free Cash Flow']));
+    const sumFCF = explicit.reduce((sum, row) => sum + row['Present Value'], 0);
+
+    const last = rows[rows.length - 1];
+    const startGrowth = last.Growth / 100;
+    let revenue = last.Revenue;
+    let fcf = last['Free Cash Flow'];
+    const fade: FadeRow[] = [];
+    for (let k = 1; k <= s.fadeYears; k++) {
+        const growth = startGrowth + (g - startGrowth) * k / s.fadeYears;
+        revenue *= 1 + growth;
+        fcf *= 1 + growth;
+        fade.push({ Year: rows.length + k, Growth: growth * 100, Revenue: revenue, 'Free Cash Flow': fcf });
+    }
+    const faded = fade.map(row => discounted(row.Year, row['Free Cash Flow']));
+    const fadePV = faded.reduce((sum, row) => sum + row['Present Value'], 0);
+
+    let exitValue: number;
+    if (s.terminal === 'gordon') exitValue = fcf * (1 + g) / (r - g);
+    else if (s.terminal === 'exit-fcf') exitValue = fcf * s.exitMultiple;
+    else exitValue = revenue * s.ebitdaMargin / 100 * s.exitMultiple;
+
+    const finalYear = rows.length + fade.length;
+    const terminalPeriod = finalYear - elapsed - (s.midYear && s.terminal === 'gordon' ? 0.5 : 0);
+    const terminalValue = exitValue / Math.pow(1 + r, terminalPeriod);
+    const enterpriseValue = sumFCF + fadePV + terminalValue;
+    const equityValue = enterpriseValue - a.netDebt;
+    // No share count, no per-share value
+    const sharePrice = a.shares > 0 ? equityValue / a.shares : 0;
+
+    return { success: true, sharePrice, sumFCF, fadePV, terminalValue, exitValue, enterpriseValue, stub, terminalPeriod, fade, schedule: [...explicit, ...faded] };
+};
+
+export const terminalLabel = (s: DCFStructure) =>
+    s.terminal === 'gordon' ? 'Gordon Growth' : `${s.exitMultiple}x ${s.terminal === 'exit-fcf' ? 'FCF' : 'EBITDA'}`;
+
+// One bar per stage, floating on the running total, then Enterprise Value
+export const toWaterfall = (res: DCFResult, a: DCFAssumptions): WaterfallStep[] => {
+    const s = dcfStructure(a);
+    const span = (from: number, to: number) => from === to ? `Y${from}` : `Y${from}-${to}`;
+    const stages = [
+        { name: `Explicit ${span(1, s.horizon)}`, value: res.sumFCF },
+        ...(res.fade.length ? [{ name: `Fade ${span(s.horizon + 1, s.horizon + res.fade.length)}`, value: res.fadePV }] : []),
+        { name: `Terminal (${terminalLabel(s)})`, value: res.terminalValue },
+    ];
+
+    let total = 0;
+    const steps: WaterfallStep[] = stages.map(stage => {
+        const start = total;
+        total += stage.value;
+        return {
+            name: stage.name,
+            value: Math.round(stage.value),
+            range: [Math.round(Math.min(start, total)), Math.round(Math.max(start, total))],
+            contribution: ((stage.value / res.enterpriseValue) * 100).toFixed(1)
+        };
+    });
+    return [...steps, {
+        name: 'Enterprise Value',
+        value: Math.round(res.enterpriseValue),
+        range: [Math.min(0, Math.round(res.enterpriseValue)), Math.max(0, Math.round(res.enterpriseValue))],
+        isTotal: true,
+        contribution: '100.0'
+    }];
+};
+
+// --- SENSITIVITY TABLE ---
+// Implied share price across a grid of WACC (rows) and terminal growth or exit multiple (columns),
+// centred on the current assumptions. Every cell is a full computeDCF run with two inputs changed.
+
+export type SensitivityAxis = 'termGrowth' | 'exitMultiple';
+
+export const SENSITIVITY_AXES: { id: SensitivityAxis; label: string; unit: string }[] = [
+    { id: 'termGrowth', label: 'Terminal Growth', unit: '%' },
+    { id: 'exitMultiple', label: 'Exit Multiple', unit: 'x' },
+];
+
+export interface SensitivitySettings {
+  column: SensitivityAxis; // Exit multiple only applies under an exit-multiple terminal value
+  waccStep: number;        // Percentage points between rows
+  growthStep: number;      // Percentage points between terminal growth columns
+  multipleStep: number;    // Turns between exit multiple columns
+}
+
+export const DEFAULT_SENSITIVITY: SensitivitySettings = { column: 'termGrowth', waccStep: 0.5, growthStep: 0.25, multipleStep: 1 };
+export const SENSITIVITY_SIZE = 5; // Rows and columns; odd, so the base case sits in the middle
+
+export interface SensitivityCell {
+  sharePrice: number | null; // null where the DCF has no value, see `error`
+  error?: string;
+}
+
+export interface SensitivityGrid {
+  column: SensitivityAxis;
+  waccs: number[];   // Row values, %
+  columns: number[]; // Column values, % or x
+  cells: SensitivityCell[][];
+}
+
+export const sensitivityAxis = (a: DCFAssumptions, settings: SensitivitySettings): SensitivityAxis =>
+    dcfStructure(a).terminal === 'gordon' ? 'termGrowth' : settings.column;
+
+export const dcfSensitivity = (rows: ProjectionRow[], a: DCFAssumptions, settings: SensitivitySettings, calendar?: DCFCalendar): SensitivityGrid => {
+    const s = dcfStructure(a);
+    const column = sensitivityAxis(a, settings);
+    // Rounded so steps like 0.1 do not print as 9.600000000000001
+    const around = (base: number, step: number) =>
+        Array.from({ length: SENSITIVITY_SIZE }, (_, i) => Math.round((base + (i - (SENSITIVITY_SIZE - 1) / 2) * step) * 1e6) / 1e6);
+
+    const waccs = around(a.wacc, settings.waccStep);
+    const columns = column === 'termGrowth' ? around(a.termGrowth, settings.growthStep) : around(s.exitMultiple, settings.multipleStep);
+    const cells = waccs.map(wacc => columns.map(value => {
+        const res = computeDCF(rows, column === 'termGrowth'
+            ? { ...a, wacc, termGrowth: value }
+            : { ...a, wacc, structure: { ...s, exitMultiple: value } }, calendar);
+        return res.success ? { sharePrice: res.sharePrice } : { sharePrice: null, error: res.error };
+    }));
+    return { column, waccs, columns, cells };
+};
+
+export const DCF_PY = `
+import json
+import re
+from calendar import monthrange
+
+MAX_HORIZON = ${MAX_HORIZON}
+MAX_FADE_YEARS = ${MAX_FADE_YEARS}
+DEFAULT_DCF_STRUCTURE = json.loads(${JSON.stringify(JSON.stringify(DEFAULT_DCF_STRUCTURE))})
+EMPTY_DCF = {"success": False, "sharePrice": 0, "sumFCF": 0, "fadePV": 0, "terminalValue": 0, "exitValue": 0, "enterpriseValue": 0, "stub": 0, "terminalPeriod": 0, "fade": [], "schedule": []}
+
+def _whole(v, low, high):
+    return float(v).is_integer() and low <= v <= high
+
+def fiscal_time(iso, fiscal_year_end):
+    m = re.match(r"^(\\d{4})-(\\d{2})-(\\d{2})$", iso)
+    if not m:
+        return None
+    year, month, day = int(m.group(1)), int(m.group(2)), int(m.group(3))
+    if not 1 <= month <= 12:
+        return None
+    days = monthrange(year, month)[1]
+    if not 1 <= day <= days:
+        return None
+    months = year * 12 + month - 1 + day / days
+    return (months - fiscal_year_end) / 12 + 1
+
+def fiscal_date(t, fiscal_year_end):
+    month = round((t - 1) * 12 + fiscal_year_end) - 1
+    year = month // 12
+    day = monthrange(year, month % 12 + 1)[1]
+    return f"{year}-{month % 12 + 1:02d}-{day:02d}"
+
+def validate_dcf(a):
+    s = a.get("structure") or DEFAULT_DCF_STRUCTURE
+    errors = []
+    if not _whole(s["horizon"], 1, MAX_HORIZON):
+        errors.append(f"Explicit horizon must be a whole number of years from 1 to {MAX_HORIZON}.")
+    if not _whole(s["fadeYears"], 0, MAX_FADE_YEARS):
+        errors.append(f"Fade period must be a whole number of years from 0 to {MAX_FADE_YEARS}.")
+    if s["terminal"] != "gordon" and not s["exitMultiple"] > 0:
+        errors.append("Exit multiple must be positive.")
+    if s["terminal"] == "exit-ebitda" and not s["ebitdaMargin"] > 0:
+        errors.append("EV/EBITDA exit needs a positive EBITDA margin.")
+    if s.get("valuationDate") and fiscal_time(s["valuationDate"], 12) is None:
+        errors.append(f"Valuation date \\"{s['valuationDate']}\\" is not a date in YYYY-MM-DD form.")
+    if not a["wacc"] > 0:
+        errors.append("WACC must be positive.")
+    if s["terminal"] == "gordon" and not a["wacc"] > a["termGrowth"]:
+        errors.append(f"WACC ({a['wacc']}%) must exceed terminal growth ({a['termGrowth']}%) for a Gordon growth terminal value. Lower terminal growth or use an exit multiple.")
+    return errors
+
+def valuation_timing(s, calendar):
+    if not s.get("valuationDate") or not calendar:
+        return 0, None
+    start = calendar["lastActualEnd"]
+    elapsed = round((fiscal_time(s["valuationDate"], calendar["fiscalYearEnd"]) - start) * 1e9) / 1e9
+    if elapsed < 0 or elapsed >= 1:
+        start_date = fiscal_date(start, calendar["fiscalYearEnd"])
+        end_date = fiscal_date(start + 1, calendar["fiscalYearEnd"])
+        return elapsed, f"Valuation date {s['valuationDate']} must fall in projection year 1: on or after {start_date}, the end of the last actual period, and before {end_date}."
+    return elapsed, None
+
+def value_dcf(rows, a, calendar=None):
+    errors = validate_dcf(a)
+    if errors:
+        return dict(EMPTY_DCF, error=errors[0])
+    if not rows:
+        return dict(EMPTY_DCF, error="No projected years to value.")
+
+    s = a.get("structure") or DEFAULT_DCF_STRUCTURE
+    elapsed, error = valuation_timing(s, calendar)
+    if error:
+        return dict(EMPTY_DCF, error=error)
+
+    r = a["wacc"] / 100
+    g = a["termGrowth"] / 100
+    stub = 1 - elapsed
+    mid_year = bool(s.get("midYear"))
+
+    def discounted(year, fcf):
+        counted = fcf * stub if year == 1 else fcf
+        period = ((max(year - 1, elapsed) + year) / 2 if mid_year else year) - elapsed
+        return {"Year": year, "Free Cash Flow": counted, "Period": period, "Present Value": counted / (1 + r) ** period}
+
+    explicit = [discounted(i + 1, row["Free Cash Flow"]) for i, row in enumerate(rows)]
+    sum_fcf = float(np.sum([row["Present Value"] for row in explicit]))
+
+    last = rows[-1]
+    start_growth = last["Growth"] / 100
+    revenue = last["Revenue"]
+    fcf = last["Free Cash Flow"]
+    fade = []
+    for k in range(1, int(s["fadeYears"]) + 1):
+        growth = start_growth + (g - start_growth) * k / s["fadeYears"]
+        revenue *= 1 + growth
+        fcf *= 1 + growth
+        fade.append({"Year": len(rows) + k, "Growth": growth * 100, "Revenue": revenue, "Free Cash Flow": fcf})
+    faded = [discounted(row["Year"], row["Free Cash Flow"]) for row in fade]
+    fade_pv = float(sum(row["Present Value"] for row in faded))
+
+    if s["terminal"] == "gordon":
+        exit_value = fcf * (1 + g) / (r - g)
+    elif s["terminal"] == "exit-fcf":
+        exit_value = fcf * s["exitMultiple"]
+    else:
+        exit_value = revenue * s["ebitdaMargin"] / 100 * s["exitMultiple"]
+
+    final_year = len(rows) + len(fade)
+    terminal_period = final_year - elapsed - (0.5 if mid_year and s["terminal"] == "gordon" else 0)
+    terminal_value = exit_value / (1 + r) ** terminal_period
+    enterprise_value = sum_fcf + fade_pv + terminal_value
+    equity_value = enterprise_value - a["netDebt"]
+    share_price = equity_value / a["shares"] if a["shares"] > 0 else 0
+
+    return {
+        "success": True,
+        "sharePrice": share_price,
+        "sumFCF": sum_fcf,
+        "fadePV": fade_pv,
+        "terminalValue": float(terminal_value),
+        "exitValue": float(exit_value),
+        "enterpriseValue": float(enterprise_value),
+        "stub": stub,
+        "terminalPeriod": terminal_period,
+        "fade": fade,
+        "schedule": explicit + faded
+    }
+`;
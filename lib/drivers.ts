@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FinancialRecord, DriverSchedule } from '../types';
+import { SeriesOptions } from './dcf';
+
+// --- DRIVER-BASED PROJECTION ---
+// Projects one integrated set of annual financials from four drivers per forecast year, so Revenue,
+// Net Income and FCF can never drift apart the way independent regressions do:
+//
+//   Revenue(t)   = Revenue(t-1) x (1 + growth)
+//   Net Income   = Revenue x net margin
+//   Net Capex    = Revenue x capex %            (capital spending net of depreciation)
+//   Change in WC = (Revenue(t) - Revenue(t-1)) x working capital %
+//   FCF          = Net Income - Net Capex - Change in WC
+//
+// A schedule holds one value per explicit DCF year, so its length is the projection horizon. The DCF
+// discounts these FCFs. DRIVERS_PY is the Python twin of `projectDrivers`; keep the two in step.
+
+// Default explicit horizon, years (see DCFStructure.horizon)
+export const PROJECTION_YEARS = 5;
+
+export const DRIVER_FIELDS: { id: keyof DriverSchedule; label: string }[] = [
+    { id: 'growth', label: 'Revenue Growth (%)' },
+    { id: 'netMargin', label: 'Net Margin (%)' },
+    { id: 'capex', label: 'Net Capex (% Rev)' },
+    { id: 'workingCapital', label: 'Working Capital (% ΔRev)' },
+];
+
+export interface ProjectionRow {
+  Year: number; // Years after the last actual
+  Growth: number; // Revenue growth, %
+  Revenue: number;
+  'Net Income': number;
+  'Net Capex': number;
+  'Change in WC': number;
+  'Free Cash Flow': number;
+  Override?: number; // FCF added by analyst overrides (see lib/overrides), already included above
+}
+
+export interface DriverFit {
+  schedule: DriverSchedule;
+  baseRevenue: number; // Last actual fiscal year, the year projections grow from
+}
+
+// Annual totals of `key`, oldest first: sums of whole years counted back from the last period, or the
+// year-end values of a TTM series. A partial leading year is dropped.
+export const annualTotals = (records: FinancialRecord[], key: string, { periodsPerYear, ttm }: SeriesOptions): number[] => {
+    const values = records.map(d => (d[key] as number) ?? 0);
+    const annual: number[] = [];
+    for (let end = values.length; end - periodsPerYear >= 0; end -= periodsPerYear) {
+        const block = values.slice(end - periodsPerYear, end);
+        annual.unshift(ttm ? block[block.length - 1] : block.reduce((s, v) => s + v, 0));
+    }
+    return annual;
+};
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+const flat = (v: number, years: number) => Array.from({ length: years }, () => round1(v));
+
+// Drivers fitted from history, held flat across the forecast: revenue CAGR, revenue-weighted net margin,
+// and the split of the historical Net Income -> FCF gap into a share of revenue (capex) and a share of
+// revenue growth (working capital), by least squares. With fewer than three years to split, the whole
+// gap is treated as capex.
+export const fitDrivers = (records: FinancialRecord[], opts: SeriesOptions, years = PROJECTION_YEARS): DriverFit | null => {
+    const revenue = annualTotals(records, 'Revenue', opts);
+    if (revenue.length === 0) return null;
+    const netIncome = annualTotals(records, 'Net Income', opts);
+    const fcf = annualTotals(records, 'Free Cash Flow', opts);
+    const sum = (v: number[]) => v.reduce((s, x) => s + x, 0);
+
+    const n = revenue.length;
+    const first = revenue[0];
+    const last = revenue[n - 1];
+    const growth = n > 1 && first > 0 && last > 0 ? (Math.pow(last / first, 1 / (n - 1)) - 1) * 100 : 0;
+    const netMargin = sum(revenue) !== 0 ? (sum(netIncome) / sum(revenue)) * 100 : 0;
+
+    const gap = netIncome.map((v, i) => v - fcf[i]);
+    let capex = sum(revenue) !== 0 ? (sum(gap) / sum(revenue)) * 100 : 0;
+    let workingCapital = 0;
+    if (n >= 4) {
+        // gap(t) = c * Revenue(t) + w * (Revenue(t) - Revenue(t-1)), solved from the normal equations
+        let rr = 0, rd = 0, dd = 0, rg = 0, dg = 0;
+        for (let i = 1; i < n; i++) {
+            const r = revenue[i];
+            const d = revenue[i] - revenue[i - 1];
+            rr += r * r; rd += r * d; dd += d * d; rg += r * gap[i]; dg += d * gap[i];
+        }
+        const det = rr * dd - rd * rd;
+        const c = (rg * dd - dg * rd) / det;
+        const w = (dg * rr - rg * rd) / det;
+        if (det !== 0 && isFinite(c) && isFinite(w)) {
+            capex = c * 100;
+            workingCapital = w * 100;
+        }
+    }
+
+    return {
+        schedule: { growth: flat(growth, years), netMargin: flat(netMargin, years), capex: flat(capex, years), workingCapital: flat(workingCapital, years) },
+        baseRevenue: last,
+    };
+};
+
+export const projectDrivers = (baseRevenue: number, s: DriverSchedule): ProjectionRow[] => {
+    const rows: ProjectionRow[] = [];
+    let prev = baseRevenue;
+    for (let i = 0; i < s.growth.length; i++) {
+        const revenue = prev * (1 + s.growth[i] / 100);
+        const netIncome = revenue * s.netMargin[i] / 100;
+        const capex = revenue * s.capex[i] / 100;
+        const wc = (revenue - prev) * s.workingCapital[i] / 100;
+        rows.push({ Year: i + 1, Growth: s.growth[i], Revenue: revenue, 'Net Income': netIncome, 'Net Capex': capex, 'Change in WC': wc, 'Free Cash Flow': netIncome - capex - wc });
+        prev = revenue;
+    }
+    return rows;
+};
+
+// Fits a schedule to a new horizon: later years are dropped, or the last year's drivers carried forward
+export const resizeSchedule = (s: DriverSchedule, years: number): DriverSchedule => {
+    const resize = (v: number[]) => Array.from({ length: years }, (_, i) => v[Math.min(i, v.length - 1)]);
+    return { growth: resize(s.growth), netMargin: resize(s.netMargin), capex: resize(s.capex), workingCapital: resize(s.workingCapital) };
+};
+
+// The projection a dataset values with over `years`: user-edited drivers when given, otherwise the fitted ones
+export const buildProjection = (records: FinancialRecord[], opts: SeriesOptions, edits?: DriverSchedule | null, years = PROJECTION_YEARS) => {
+    const fit = fitDrivers(records, opts, years);
+    if (!fit) return null;
+    const schedule = edits ? resizeSchedule(edits, years) : fit.schedule;
+    return { fit, schedule, rows: projectDrivers(fit.baseRevenue, schedule) };
+};
+
+export const DRIVERS_PY = `
+def project_drivers(base_revenue, s):
+    rows = []
+    prev = base_revenue
+    for i in range(len(s["growth"])):
+        revenue = prev * (1 + s["growth"][i] / 100)
+        net_income = revenue * s["netMargin"][i] / 100
+        capex = revenue * s["capex"][i] / 100
+        wc = (revenue - prev) * s["workingCapital"][i] / 100
+        rows.append({"Year": i + 1, "Growth": s["growth"][i], "Revenue": revenue, "Net Income": net_income, "Net Capex": capex, "Change in WC": wc, "Free Cash Flow": net_income - capex - wc})
+        prev = revenue
+    return rows
+`;
@@ -0,0 +1,633 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FinancialRecord } from '../types';
+import { linearFit } from './dcf';
+import { tCritical, tTwoSidedCdf } from './stats';
+
+// --- FORECAST MODELS ---
+// Every model exists twice: `fitForecast` below (JS fallback) and FORECAST_PY (run by the NumPy kernel).
+// Keep the two in step: same time axis, same parameter search order, same error cases.
+//
+// Time is measured in years from the last observation (x = t - t_last), so forecasts land at
+// k / periodsPerYear and polynomial fits stay well conditioned.
+//
+// Prediction intervals come from each model's own residuals: the textbook OLS forecast error for the
+// regressions (in log space for log-linear), a log random walk with drift for constant CAGR, and the
+// h-step error variance of the state-space form for Holt and ARIMA. Critical values are Student's t on
+// the residual degrees of freedom; with none left, no interval is reported.
+//
+// The least-squares models (linear, log-linear, quadratic) also report regression diagnostics of the
+// in-sample fit; see RegressionDiagnostics. The other models are not trend regressions and report none.
+
+export type ForecastModel = 'linear' | 'cagr' | 'loglinear' | 'poly2' | 'holt' | 'arima';
+
+export interface ForecastModelInfo {
+  id: ForecastModel;
+  label: string;
+  minPoints: number;
+  description: string;
+}
+
+export const FORECAST_MODELS: ForecastModelInfo[] = [
+    { id: 'linear', label: 'Linear Regression', minPoints: 2, description: 'Ordinary least squares trend line' },
+    { id: 'cagr', label: 'Constant CAGR', minPoints: 2, description: 'Compounds the first-to-last growth rate' },
+    { id: 'loglinear', label: 'Log-Linear', minPoints: 2, description: 'Exponential trend fitted to log values' },
+    { id: 'poly2', label: 'Polynomial (Deg. 2)', minPoints: 3, description: 'Quadratic least squares, captures acceleration' },
+    { id: 'holt', label: "Holt's Damped Trend", minPoints: 3, description: 'Exponential smoothing with a trend that flattens out' },
+    { id: 'arima', label: 'ARIMA(1,1,0)', minPoints: 4, description: 'AR(1) with drift on period-over-period changes' },
+];
+
+export const DEFAULT_FORECAST_MODEL: ForecastModel = 'linear';
+
+export const forecastModelLabel = (model: ForecastModel) => FORECAST_MODELS.find(m => m.id === model)?.label ?? model;
+
+// Forecast horizon slider bounds, in years
+export const MAX_FORECAST_HORIZON = 10;
+
+// How the forecast cone is drawn: a statistical prediction interval, or the manual ± sensitivity spread
+export type ConeMode = 'interval' | 'scenario';
+export const CONFIDENCE_LEVELS = [80, 90, 95];
+export const DEFAULT_CONFIDENCE = 90;
+
+// Smoothing parameter grid for Holt, searched alpha -> beta -> phi; the first minimum wins
+const HOLT_GRID = Array.from({ length: 9 }, (_, i) => (i + 1) / 10);
+const HOLT_PHI = [0.8, 0.85, 0.9, 0.95, 0.98];
+
+export interface ResidualPoint {
+  Year: number;
+  Fitted: number;
+  Residual: number;
+  Leverage: number; // Diagonal of the hat matrix
+}
+
+// Fit quality of a least-squares trend, on the scale the model is fitted on (log values for log-linear).
+// `slope` is the trend per year at the latest period; for the quadratic that is the linear coefficient,
+// since time is measured from the last observation. Statistics that need spare degrees of freedom are
+// null without them.
+export interface RegressionDiagnostics {
+  n: number;
+  params: number;
+  r2: number | null;    // null when the history is flat
+  adjR2: number | null;
+  slope: number;
+  slopeSE: number | null;
+  pValue: number | null; // Two-sided, H0: slope = 0
+  durbinWatson: number | null;
+  logScale: boolean;
+  residuals: ResidualPoint[];
+  highLeverage: number[]; // Years whose leverage exceeds 2 * params / n
+}
+
+export interface ForecastResult {
+  success: boolean;
+  predictions: number[];
+  lower?: number[]; // Prediction interval bounds, absent when no residual degrees of freedom are left
+  upper?: number[];
+  dof?: number;
+  diagnostics?: RegressionDiagnostics; // Least-squares models only
+  error?: string;
+}
+
+// In-sample pieces of a least-squares fit, kept for the diagnostics
+interface RegressionFit {
+  fitted: number[];
+  leverage: number[];
+  slope: number;
+  slopeSE: number | null;
+}
+
+// A fitted model before the interval is applied: per-step standard errors, on the log scale when `log`
+interface ModelFit {
+  predictions: number[];
+  se: number[] | null;
+  dof: number;
+  log?: boolean;
+  regression?: RegressionFit;
+}
+
+const fail = (error: string): ForecastResult => ({ success: false, predictions: [], error });
+
+const sumOf = (v: number[]) => v.reduce((a, b) => a + b, 0);
+
+// OLS forecast error: s * sqrt(1 + 1/n + (x0 - xbar)^2 / Sxx). Null when every x is the same period
+// (duplicate rows), leaving no slope to fit.
+const olsFit = (x: number[], y: number[], future: number[], log = false): ModelFit | null => {
+    if (new Set(x).size < 2) return null;
+    const { slope, intercept } = linearFit(x, y);
+    const n = x.length;
+    const xbar = sumOf(x) / n;
+    const sxx = sumOf(x.map(v => (v - xbar) ** 2));
+    const sse = sumOf(x.map((v, i) => (y[i] - (slope * v + intercept)) ** 2));
+    const dof = n - 2;
+    const s = dof > 0 ? Math.sqrt(sse / dof) : NaN;
+    return {
+        predictions: future.map(f => slope * f + intercept),
+        se: dof > 0 ? future.map(f => s * Math.sqrt(1 + 1 / n + (f - xbar) ** 2 / sxx)) : null,
+        dof,
+        log,
+        regression: {
+            fitted: x.map(v => slope * v + intercept),
+            leverage: x.map(v => 1 / n + (v - xbar) ** 2 / sxx),
+            slope,
+            slopeSE: dof > 0 ? s / Math.sqrt(sxx) : null,
+        },
+    };
+};
+
+// Gauss-Jordan elimination of a square system with several right-hand sides
+const solve = (a: number[][], rhs: number[][]): number[][] | null => {
+    const n = a.length;
+    const m = a.map((row, i) => [...row, ...rhs[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+        [m[col], m[pivot]] = [m[pivot], m[col]];
+        if (m[col][col] === 0) return null;
+        for (let row = 0; row < n; row++) {
+            if (row === col) continue;
+            const f = m[row][col] / m[col][col];
+            for (let k = col; k < m[row].length; k++) m[row][k] -= f * m[col][k];
+        }
+    }
+    return m.map((row, i) => row.slice(n).map(v => v / m[i][i]));
+};
+
+// Least squares quadratic via the 3x3 normal equations; the inverse gives the forecast variance. Null when
+// fewer than three distinct periods leave the system singular.
+const quadraticFit = (x: number[], y: number[], future: number[]): ModelFit | null => {
+    if (new Set(x).size < 3) return null;
+    const s = (p: number, q = 0) => x.reduce((acc, xi, i) => acc + Math.pow(xi, p) * (q ? y[i] : 1), 0);
+    const normal = [
+        [s(4), s(3), s(2)],
+        [s(3), s(2), s(1)],
+        [s(2), s(1), s(0)],
+    ];
+    const sol = solve(normal, [[s(2, 1), 1, 0, 0], [s(1, 1), 0, 1, 0], [s(0, 1), 0, 0, 1]]);
+    if (!sol) return null;
+    const [a, b, c] = sol.map(row => row[0]);
+    const inverse = sol.map(row => row.slice(1));
+    const sse = sumOf(x.map((v, i) => (y[i] - (a * v * v + b * v + c)) ** 2));
+    const dof = x.length - 3;
+    const sigma = dof > 0 ? Math.sqrt(sse / dof) : NaN;
+    // v' (X'X)^-1 v for a design row v = [f^2, f, 1]
+    const quad = (f: number) => {
+        const v = [f * f, f, 1];
+        return sumOf(v.map((vi, i) => vi * sumOf(v.map((vj, j) => inverse[i][j] * vj))));
+    };
+    return {
+        predictions: future.map(f => a * f * f + b * f + c),
+        se: dof > 0 ? future.map(f => sigma * Math.sqrt(1 + quad(f))) : null,
+        dof,
+        regression: {
+            fitted: x.map(v => a * v * v + b * v + c),
+            leverage: x.map(quad),
+            slope: b,
+            slopeSE: dof > 0 ? sigma * Math.sqrt(inverse[1][1]) : null,
+        },
+    };
+};
+
+const diagnose = (t: number[], y: number[], reg: RegressionFit, params: number, logScale: boolean): RegressionDiagnostics => {
+    const n = y.length;
+    const residuals = y.map((v, i) => v - reg.fitted[i]);
+    const ybar = sumOf(y) / n;
+    const sse = sumOf(residuals.map(e => e * e));
+    const sst = sumOf(y.map(v => (v - ybar) ** 2));
+    const r2 = sst > 0 ? 1 - sse / sst : null;
+    const dof = n - params;
+    const tStat = reg.slopeSE ? reg.slope / reg.slopeSE : null;
+    const dw = residuals.slice(1).reduce((acc, e, i) => acc + (e - residuals[i]) ** 2, 0);
+    const cutoff = (2 * params) / n;
+    return {
+        n,
+        params,
+        r2,
+        adjR2: r2 !== null && dof > 0 ? 1 - (1 - r2) * (n - 1) / dof : null,
+        slope: reg.slope,
+        slopeSE: reg.slopeSE,
+        pValue: tStat !== null && isFinite(tStat) && dof > 0 ? 1 - tTwoSidedCdf(tStat, dof) : null,
+        durbinWatson: sse > 0 ? dw / sse : null,
+        logScale,
+        residuals: t.map((year, i) => ({ Year: year, Fitted: reg.fitted[i], Residual: residuals[i], Leverage: reg.leverage[i] })),
+        highLeverage: t.filter((_, i) => reg.leverage[i] > cutoff),
+    };
+};
+
+// Log random walk with drift: the drift is the CAGR, the spread comes from period-to-period log growth
+const cagrFit = (x: number[], y: number[], future: number[]): ModelFit => {
+    const first = y[0], end = y[y.length - 1];
+    const growth = Math.pow(end / first, 1 / (0 - x[0])) - 1;
+    const predictions = future.map(f => end * Math.pow(1 + growth, f));
+    if (y.some(v => v <= 0)) return { predictions, se: null, dof: 0 };
+    const r = y.slice(1).map((v, i) => Math.log(v / y[i]));
+    const mu = Math.log(end / first) / r.length;
+    const dof = r.length - 1;
+    const s = dof > 0 ? Math.sqrt(sumOf(r.map(v => (v - mu) ** 2)) / dof) : NaN;
+    return { predictions, se: dof > 0 ? future.map((_, h) => s * Math.sqrt(h + 1)) : null, dof, log: true };
+};
+
+const holtFit = (y: number[], steps: number): ModelFit => {
+    let best = { sse: Infinity, level: 0, trend: 0, alpha: 0, beta: 0, phi: 1 };
+    for (const alpha of HOLT_GRID) {
+        for (const beta of HOLT_GRID) {
+            for (const phi of HOLT_PHI) {
+                let level = y[0];
+                let trend = y[1] - y[0];
+                let sse = 0;
+                for (let t = 1; t < y.length; t++) {
+                    const predicted = level + phi * trend;
+                    // The first step is fitted exactly by the initial trend, so it is left out of the score
+                    if (t > 1) sse += (y[t] - predicted) ** 2;
+                    const nextLevel = alpha * y[t] + (1 - alpha) * predicted;
+                    trend = beta * (nextLevel - level) + (1 - beta) * phi * trend;
+                    level = nextLevel;
+                }
+                if (sse < best.sse) best = { sse, level, trend, alpha, beta, phi };
+            }
+        }
+    }
+    const { level, trend, alpha, beta, phi } = best;
+    const dof = y.length - 3;
+    const s = dof > 0 ? Math.sqrt(best.sse / dof) : NaN;
+    const predictions: number[] = [];
+    const se: number[] = [];
+    let damping = 0;
+    let variance = 1;
+    for (let h = 1; h <= steps; h++) {
+        // Var(h) = s^2 * (1 + sum_{j<h} (alpha * (1 + beta * phi_j))^2), phi_j = phi + ... + phi^j
+        if (h > 1) variance += (alpha * (1 + beta * damping)) ** 2;
+        damping += Math.pow(phi, h);
+        predictions.push(level + damping * trend);
+        se.push(s * Math.sqrt(variance));
+    }
+    return { predictions, se: dof > 0 ? se : null, dof };
+};
+
+const arimaFit = (y: number[], steps: number): ModelFit => {
+    const d = y.slice(1).map((v, i) => v - y[i]);
+    let { slope: phi, intercept: c } = linearFit(d.slice(0, -1), d.slice(1));
+    let residuals = d.slice(1).map((v, i) => v - (c + phi * d[i]));
+    let dof = residuals.length - 2;
+    // A non-stationary or degenerate AR term falls back to a random walk with drift
+    if (!isFinite(phi) || Math.abs(phi) >= 1) {
+        phi = 0;
+        c = sumOf(d) / d.length;
+        residuals = d.map(v => v - c);
+        dof = residuals.length - 1;
+    }
+    const s = dof > 0 ? Math.sqrt(sumOf(residuals.map(e => e * e)) / dof) : NaN;
+    const predictions: number[] = [];
+    const se: number[] = [];
+    let level = y[y.length - 1];
+    let change = d[d.length - 1];
+    let psi = 0;
+    let variance = 0;
+    for (let h = 1; h <= steps; h++) {
+        change = c + phi * change;
+        level += change;
+        predictions.push(level);
+        // Level error after h steps accumulates psi_j = 1 + phi + ... + phi^j
+        psi += Math.pow(phi, h - 1);
+        variance += psi * psi;
+        se.push(s * Math.sqrt(variance));
+    }
+    return { predictions, se: dof > 0 ? se : null, dof };
+};
+
+/**
+ * Fits `model` to (t, y) and projects `steps` periods past the last observation, `periodsPerYear`
+ * periods to the year, with a prediction interval at `confidence` (0-1).
+ */
+export const fitForecast = (t: number[], y: number[], model: ForecastModel, steps: number, periodsPerYear: number, confidence = DEFAULT_CONFIDENCE / 100): ForecastResult => {
+    const info = FORECAST_MODELS.find(m => m.id === model);
+    if (!info) return fail(`Unknown model: ${model}`);
+    if (y.length < info.minPoints) return fail(`${info.label} needs at least ${info.minPoints} periods`);
+
+    const last = t[t.length - 1];
+    const x = t.map(v => v - last);
+    const future = Array.from({ length: steps }, (_, i) => (i + 1) / periodsPerYear);
+
+    let fit: ModelFit;
+    switch (model) {
+        case 'linear': {
+            const ols = olsFit(x, y, future);
+            if (!ols) return fail(`${info.label} needs at least two distinct periods`);
+            fit = ols;
+            break;
+        }
+        case 'cagr':
+            if (y[0] <= 0 || y[y.length - 1] <= 0) return fail('Constant CAGR needs positive first and last values');
+            if (x[0] === 0) return fail('Constant CAGR needs the first and last periods to differ');
+            fit = cagrFit(x, y, future);
+            break;
+        case 'loglinear': {
+            if (y.some(v => v <= 0)) return fail('Log-Linear needs all values to be positive');
+            const logFit = olsFit(x, y.map(Math.log), future, true);
+            if (!logFit) return fail(`${info.label} needs at least two distinct periods`);
+            fit = { ...logFit, predictions: logFit.predictions.map(Math.exp) };
+            break;
+        }
+        case 'poly2': {
+            const quad = quadraticFit(x, y, future);
+            if (!quad) return fail('Polynomial fit is singular');
+            fit = quad;
+            break;
+        }
+        case 'holt':
+            fit = holtFit(y, steps);
+            break;
+        case 'arima':
+            fit = arimaFit(y, steps);
+            break;
+    }
+
+    const { predictions, se, dof, log, regression } = fit;
+    const diagnostics = regression ? { diagnostics: diagnose(t, log ? y.map(Math.log) : y, regression, y.length - dof, !!log) } : {};
+    if (!se || dof < 1) return { success: true, predictions, ...diagnostics };
+    const tc = tCritical(confidence, dof);
+    return {
+        success: true,
+        predictions,
+        lower: predictions.map((p, i) => log ? p * Math.exp(-tc * se[i]) : p - tc * se[i]),
+        upper: predictions.map((p, i) => log ? p * Math.exp(tc * se[i]) : p + tc * se[i]),
+        dof,
+        ...diagnostics,
+    };
+};
+
+// Headline diagnostics as label / value / reading, shared by the panel and the Excel export
+export const summarizeDiagnostics = (d: RegressionDiagnostics): { label: string; value: string; reading: string }[] => {
+    const fixed = (v: number | null, digits: number) => v === null ? 'n/a' : v.toFixed(digits);
+    const slopeUnit = d.logScale ? ' log pts / yr' : ' / yr';
+    return [
+        { label: 'R²', value: fixed(d.r2, 3), reading: d.r2 === null ? 'Flat history' : d.r2 < 0.5 ? 'Weak fit' : d.r2 < 0.8 ? 'Moderate fit' : 'Strong fit' },
+        { label: 'Adjusted R²', value: fixed(d.adjR2, 3), reading: `${d.params} parameters, ${d.n} periods` },
+        { label: 'Slope (latest)', value: `${d.slope.toLocaleString(undefined, { maximumFractionDigits: d.logScale ? 4 : 0 })}${slopeUnit}`, reading: d.slopeSE === null ? 'No spare degrees of freedom' : `SE ${d.slopeSE.toLocaleString(undefined, { maximumFractionDigits: d.logScale ? 4 : 0 })}` },
+        { label: 'Slope p-value', value: d.pValue === null ? 'n/a' : d.pValue < 0.0001 ? '< 0.0001' : d.pValue.toFixed(4), reading: d.pValue === null ? '' : d.pValue < 0.05 ? 'Significant at 5%' : 'Not significant at 5%' },
+        { label: 'Durbin-Watson', value: fixed(d.durbinWatson, 2), reading: d.durbinWatson === null ? '' : d.durbinWatson < 1.5 ? 'Positive autocorrelation' : d.durbinWatson > 2.5 ? 'Negative autocorrelation' : 'No strong autocorrelation' },
+    ];
+};
+
+// --- CHART SERIES ---
+// One forecast per metric, in the row shape ForecastChart draws: actuals, then a bridge row at the last
+// actual so the forecast line and cone start from it, then the projected periods.
+
+export interface ForecastPoint {
+  Year: number;
+  Forecast: number;
+  High: number | null; // Cone bounds; null when no interval could be estimated
+  Low: number | null;
+}
+
+export interface ForecastRow {
+  Year: number;
+  Historical: number | null;
+  Forecast: number | null;
+  High: number | null;
+  Low: number | null;
+  Confidence: [number, number] | null; // Range tuple for the cone area
+  Model?: number; // The model's own forecast, present only where an analyst override replaced it
+  Note?: string;  // The override's justification
+}
+
+export interface ForecastSeries {
+  metric: string;
+  rows: ForecastRow[]; // Empty when the forecast failed
+  diagnostics?: RegressionDiagnostics;
+  error?: string;
+}
+
+export const toForecastRows = (history: FinancialRecord[], metric: string, future: ForecastPoint[]): ForecastRow[] => {
+    const actuals = history.filter(d => d[metric] !== undefined && d[metric] !== null);
+    const last = actuals[actuals.length - 1];
+    const lastVal = last[metric] as number;
+    return [
+        ...actuals.map(d => ({ Year: d.Year, Historical: d[metric] as number, Forecast: null, High: null, Low: null, Confidence: null })),
+        { Year: last.Year, Historical: lastVal, Forecast: lastVal, High: lastVal, Low: lastVal, Confidence: [lastVal, lastVal] as [number, number] },
+        ...future.map(p => ({ Year: p.Year, Historical: null, Forecast: p.Forecast, High: p.High, Low: p.Low, Confidence: p.Low === null || p.High === null ? null : [p.Low, p.High] as [number, number] })),
+    ];
+};
+
+// Joins several series on Year for a shared chart: row.s[i] holds series i's values for that period
+export const mergeForecastSeries = (series: ForecastSeries[]) => {
+    const byYear = new Map<number, { Year: number; s: Partial<ForecastRow>[] }>();
+    series.forEach((ser, i) => ser.rows.forEach(r => {
+        const row = byYear.get(r.Year) || { Year: r.Year, s: [] };
+        const set = Object.fromEntries(Object.entries(r).filter(([, v]) => v !== null));
+        row.s[i] = { ...row.s[i], ...set };
+        byYear.set(r.Year, row);
+    }));
+    return [...byYear.values()].sort((a, b) => a.Year - b.Year);
+};
+
+// Python twin of fitForecast. Needs `np` and STATS_PY in scope; defines
+// `fit_forecast(model, t, y, steps, ppy, confidence)` returning the same shape as ForecastResult.
+export const FORECAST_PY = `
+HOLT_GRID = [(i + 1) / 10 for i in range(9)]
+HOLT_PHI = [0.8, 0.85, 0.9, 0.95, 0.98]
+MIN_POINTS = {"linear": 2, "cagr": 2, "loglinear": 2, "poly2": 3, "holt": 3, "arima": 4}
+LABELS = {"linear": "Linear Regression", "cagr": "Constant CAGR", "loglinear": "Log-Linear", "poly2": "Polynomial (Deg. 2)", "holt": "Holt's Damped Trend", "arima": "ARIMA(1,1,0)"}
+
+def _ols(x, y):
+    # Same closed form as linearFit in lib/dcf.ts, including NaN for a degenerate x
+    n = len(x)
+    sum_x, sum_y = sum(x), sum(y)
+    sum_xy = sum(a * b for a, b in zip(x, y))
+    sum_xx = sum(a * a for a in x)
+    den = n * sum_xx - sum_x * sum_x
+    if den == 0:
+        return float("nan"), float("nan")
+    slope = (n * sum_xy - sum_x * sum_y) / den
+    return slope, (sum_y - slope * sum_x) / n
+
+def _ols_fit(x, y, future, log=False):
+    if len(set(x)) < 2:
+        return None
+    slope, intercept = _ols(x, y)
+    n = len(x)
+    xbar = sum(x) / n
+    sxx = sum((v - xbar) ** 2 for v in x)
+    sse = sum((y[i] - (slope * v + intercept)) ** 2 for i, v in enumerate(x))
+    dof = n - 2
+    se = None
+    slope_se = None
+    if dof > 0:
+        s = math.sqrt(sse / dof)
+        se = [s * math.sqrt(1 + 1 / n + (f - xbar) ** 2 / sxx) for f in future]
+        slope_se = s / math.sqrt(sxx)
+    reg = {"fitted": [slope * v + intercept for v in x], "leverage": [1 / n + (v - xbar) ** 2 / sxx for v in x], "slope": slope, "slopeSE": slope_se}
+    return [slope * f + intercept for f in future], se, dof, log, reg
+
+def _quadratic_fit(x, y, future):
+    if len(set(x)) < 3:
+        return None
+    normal = np.array([[sum(v ** p for v in x) for p in (q + 2, q + 1, q)] for q in (2, 1, 0)], dtype=float)
+    try:
+        inverse = np.linalg.inv(normal)
+    except np.linalg.LinAlgError:
+        return None
+    a, b, c = [float(v) for v in np.polyfit(x, y, 2)]
+    sse = sum((y[i] - (a * v * v + b * v + c)) ** 2 for i, v in enumerate(x))
+    dof = len(x) - 3
+
+    def quad(f):
+        v = np.array([f * f, f, 1.0])
+        return float(v @ inverse @ v)
+
+    se = None
+    slope_se = None
+    if dof > 0:
+        sigma = math.sqrt(sse / dof)
+        se = [sigma * math.sqrt(1 + quad(f)) for f in future]
+        slope_se = sigma * math.sqrt(float(inverse[1][1]))
+    reg = {"fitted": [a * v * v + b * v + c for v in x], "leverage": [quad(v) for v in x], "slope": b, "slopeSE": slope_se}
+    return [a * f * f + b * f + c for f in future], se, dof, False, reg
+
+def _diagnose(t, y, reg, params, log_scale):
+    n = len(y)
+    residuals = [v - f for v, f in zip(y, reg["fitted"])]
+    ybar = sum(y) / n
+    sse = sum(e * e for e in residuals)
+    sst = sum((v - ybar) ** 2 for v in y)
+    r2 = 1 - sse / sst if sst > 0 else None
+    dof = n - params
+    t_stat = reg["slope"] / reg["slopeSE"] if reg["slopeSE"] else None
+    dw = sum((residuals[i + 1] - residuals[i]) ** 2 for i in range(n - 1))
+    cutoff = 2 * params / n
+    return {
+        "n": n,
+        "params": params,
+        "r2": r2,
+        "adjR2": 1 - (1 - r2) * (n - 1) / dof if r2 is not None and dof > 0 else None,
+        "slope": reg["slope"],
+        "slopeSE": reg["slopeSE"],
+        "pValue": 1 - t_two_sided_cdf(t_stat, dof) if t_stat is not None and math.isfinite(t_stat) and dof > 0 else None,
+        "durbinWatson": dw / sse if sse > 0 else None,
+        "logScale": log_scale,
+        "residuals": [{"Year": year, "Fitted": reg["fitted"][i], "Residual": residuals[i], "Leverage": reg["leverage"][i]} for i, year in enumerate(t)],
+        "highLeverage": [year for i, year in enumerate(t) if reg["leverage"][i] > cutoff],
+    }
+
+def _cagr_fit(x, y, future):
+    first, end = y[0], y[-1]
+    growth = (end / first) ** (1 / (0 - x[0])) - 1
+    preds = [end * (1 + growth) ** f for f in future]
+    if any(v <= 0 for v in y):
+        return preds, None, 0, True, None
+    r = [math.log(y[i + 1] / y[i]) for i in range(len(y) - 1)]
+    mu = math.log(end / first) / len(r)
+    dof = len(r) - 1
+    se = None
+    if dof > 0:
+        s = math.sqrt(sum((v - mu) ** 2 for v in r) / dof)
+        se = [s * math.sqrt(h + 1) for h in range(len(future))]
+    return preds, se, dof, True, None
+
+def _holt_fit(y, steps):
+    best = (float("inf"), 0.0, 0.0, 0.0, 0.0, 1.0)
+    for alpha in HOLT_GRID:
+        for beta in HOLT_GRID:
+            for phi in HOLT_PHI:
+                level = y[0]
+                trend = y[1] - y[0]
+                sse = 0.0
+                for t in range(1, len(y)):
+                    predicted = level + phi * trend
+                    if t > 1:
+                        sse += (y[t] - predicted) ** 2
+                    next_level = alpha * y[t] + (1 - alpha) * predicted
+                    trend = beta * (next_level - level) + (1 - beta) * phi * trend
+                    level = next_level
+                if sse < best[0]:
+                    best = (sse, level, trend, alpha, beta, phi)
+    sse, level, trend, alpha, beta, phi = best
+    dof = len(y) - 3
+    s = math.sqrt(sse / dof) if dof > 0 else float("nan")
+    preds, se = [], []
+    damping = 0.0
+    variance = 1.0
+    for h in range(1, steps + 1):
+        if h > 1:
+            variance += (alpha * (1 + beta * damping)) ** 2
+        damping += phi ** h
+        preds.append(level + damping * trend)
+        se.append(s * math.sqrt(variance))
+    return preds, (se if dof > 0 else None), dof, False, None
+
+def _arima_fit(y, steps):
+    d = [y[i + 1] - y[i] for i in range(len(y) - 1)]
+    phi, c = _ols(d[:-1], d[1:])
+    residuals = [d[i + 1] - (c + phi * d[i]) for i in range(len(d) - 1)]
+    dof = len(residuals) - 2
+    if not np.isfinite(phi) or abs(phi) >= 1:
+        phi = 0.0
+        c = sum(d) / len(d)
+        residuals = [v - c for v in d]
+        dof = len(residuals) - 1
+    s = math.sqrt(sum(e * e for e in residuals) / dof) if dof > 0 else float("nan")
+    preds, se = [], []
+    level = y[-1]
+    change = d[-1]
+    psi = 0.0
+    variance = 0.0
+    for h in range(1, steps + 1):
+        change = c + phi * change
+        level += change
+        preds.append(level)
+        psi += phi ** (h - 1)
+        variance += psi * psi
+        se.append(s * math.sqrt(variance))
+    return preds, (se if dof > 0 else None), dof, False, None
+
+def fit_forecast(model, t, y, steps, ppy, confidence=0.9):
+    if model not in MIN_POINTS:
+        return {"success": False, "predictions": [], "error": "Unknown model: " + model}
+    if len(y) < MIN_POINTS[model]:
+        return {"success": False, "predictions": [], "error": LABELS[model] + " needs at least " + str(MIN_POINTS[model]) + " periods"}
+    last = t[-1]
+    x = [v - last for v in t]
+    future = [(i + 1) / ppy for i in range(steps)]
+    if model == "linear":
+        fit = _ols_fit(x, y, future)
+        if fit is None:
+            return {"success": False, "predictions": [], "error": LABELS[model] + " needs at least two distinct periods"}
+    elif model == "cagr":
+        if y[0] <= 0 or y[-1] <= 0:
+            return {"success": False, "predictions": [], "error": "Constant CAGR needs positive first and last values"}
+        if x[0] == 0:
+            return {"success": False, "predictions": [], "error": "Constant CAGR needs the first and last periods to differ"}
+        fit = _cagr_fit(x, y, future)
+    elif model == "loglinear":
+        if any(v <= 0 for v in y):
+            return {"success": False, "predictions": [], "error": "Log-Linear needs all values to be positive"}
+        log_fit = _ols_fit(x, [math.log(v) for v in y], future, True)
+        if log_fit is None:
+            return {"success": False, "predictions": [], "error": LABELS[model] + " needs at least two distinct periods"}
+        log_preds, se, dof, log, reg = log_fit
+        fit = ([math.exp(p) for p in log_preds], se, dof, log, reg)
+    elif model == "poly2":
+        fit = _quadratic_fit(x, y, future)
+        if fit is None:
+            return {"success": False, "predictions": [], "error": "Polynomial fit is singular"}
+    elif model == "holt":
+        fit = _holt_fit(y, steps)
+    else:
+        fit = _arima_fit(y, steps)
+    preds, se, dof, log, reg = fit
+    result = {"success": True, "predictions": preds}
+    if reg is not None:
+        result["diagnostics"] = _diagnose(t, [math.log(v) for v in y] if log else y, reg, len(y) - dof, log)
+    if se is None or dof < 1:
+        return result
+    tc = t_critical(confidence, dof)
+    if log:
+        lower = [p * math.exp(-tc * e) for p, e in zip(preds, se)]
+        upper = [p * math.exp(tc * e) for p, e in zip(preds, se)]
+    else:
+        lower = [p - tc * e for p, e in zip(preds, se)]
+        upper = [p + tc * e for p, e in zip(preds, se)]
+    return {**result, "lower": lower, "upper": upper, "dof": dof}
+`;
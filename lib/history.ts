@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useCallback, useState } from 'react';
+
+const HISTORY_LIMIT = 100;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export interface HistoryControls {
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * `useState` with an undo/redo stack. Every `set` is one undoable step; the oldest steps are
+ * discarded past HISTORY_LIMIT. `reset` replaces the value and clears the stack, for when a
+ * different document is loaded rather than edited.
+ */
+export const useUndoableState = <T,>(initial: T | (() => T)): [T, (next: T | ((prev: T) => T)) => void, HistoryControls & { reset: (value: T) => void }] => {
+    const [state, setState] = useState<HistoryState<T>>(() => ({
+        past: [],
+        present: typeof initial === 'function' ? (initial as () => T)() : initial,
+        future: [],
+    }));
+
+    const set = useCallback((next: T | ((prev: T) => T)) => {
+        setState(s => {
+            const value = typeof next === 'function' ? (next as (prev: T) => T)(s.present) : next;
+            if (value === s.present) return s;
+            return { past: [...s.past, s.present].slice(-HISTORY_LIMIT), present: value, future: [] };
+        });
+    }, []);
+
+    const undo = useCallback(() => {
+        setState(s => s.past.length === 0 ? s : {
+            past: s.past.slice(0, -1),
+            present: s.past[s.past.length - 1],
+            future: [s.present, ...s.future],
+        });
+    }, []);
+
+    const redo = useCallback(() => {
+        setState(s => s.future.length === 0 ? s : {
+            past: [...s.past, s.present],
+            present: s.future[0],
+            future: s.future.slice(1),
+        });
+    }, []);
+
+    const reset = useCallback((value: T) => setState({ past: [], present: value, future: [] }), []);
+
+    return [state.present, set, { undo, redo, reset, canUndo: state.past.length > 0, canRedo: state.future.length > 0 }];
+};
@@ -0,0 +1,259 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FinancialRecord } from '../types';
+
+// --- DATA INTEGRITY RULES ENGINE ---
+// Each rule inspects the dataset and returns findings pinned to a row (index into `data`) and, where it
+// applies, a column. Every finding deducts its rule's weight from a 100-point score.
+
+export type Severity = 'info' | 'warning' | 'error';
+
+export interface IntegrityFinding {
+  ruleId: string;
+  severity: Severity;
+  message: string;
+  row?: number;
+  column?: string;
+}
+
+export interface RuleConfig {
+  enabled: boolean;
+  severity: Severity;
+  threshold: number;
+  weight: number;
+}
+
+export interface ScanContext {
+  synthesizedBudget: string[]; // periodKey() of rows whose Budget was filled in by the importer
+}
+
+type RawFinding = Omit<IntegrityFinding, 'ruleId' | 'severity'>;
+
+export interface IntegrityRule {
+  id: string;
+  label: string;
+  description: string;
+  thresholdLabel?: string; // Omitted for rules without a tunable threshold
+  defaults: RuleConfig;
+  check: (data: FinancialRecord[], threshold: number, ctx: ScanContext) => RawFinding[];
+}
+
+export interface IntegrityReport {
+  score: number;
+  findings: IntegrityFinding[];
+  counts: Record<string, number>;
+}
+
+const CORE_METRICS = ['Revenue', 'Net Income', 'Free Cash Flow'];
+
+// Stable identity for a row across edits and re-sorts
+export const periodKey = (r: FinancialRecord) => `${r.Year}-${r.Month ?? 0}`;
+
+export const rowLabel = (r: FinancialRecord) =>
+    r.Month !== undefined ? `${r.Year}-${String(r.Month).padStart(2, '0')}` : String(r.Year);
+
+const isMissing = (v: unknown) => v === undefined || v === null || (typeof v === 'number' && isNaN(v));
+
+export const numericColumns = (data: FinancialRecord[]) => {
+    const cols = new Set<string>();
+    data.forEach(r => Object.keys(r).forEach(k => {
+        if (k !== 'Year' && k !== 'Month' && k !== 'PeriodMonths' && typeof r[k] === 'number') cols.add(k);
+    }));
+    return [...cols];
+};
+
+const series = (data: FinancialRecord[], col: string) =>
+    data.map((r, row) => ({ row, value: r[col] as number })).filter(p => !isMissing(p.value));
+
+const quantile = (sorted: number[], q: number) => {
+    const pos = (sorted.length - 1) * q;
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+// Month index so monthly/quarterly data can be checked for gaps the same way as years
+const timeIndex = (r: FinancialRecord) => r.Year * 12 + (r.Month ?? 12);
+
+// Length of the period a row covers: annual rows carry no PeriodMonths
+const periodMonths = (r: FinancialRecord) => r.PeriodMonths || 12;
+
+// `series` in time order rather than row order, for rules that compare neighbouring periods
+const timeSeries = (data: FinancialRecord[], col: string) =>
+    series(data, col).sort((a, b) => timeIndex(data[a.row]) - timeIndex(data[b.row]));
+
+const fmt = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export const INTEGRITY_RULES: IntegrityRule[] = [
+    {
+        id: 'missing-values',
+        label: 'Missing Values',
+        description: 'Null or non-numeric cells in Revenue and Net Income.',
+        defaults: { enabled: true, severity: 'error', threshold: 0, weight: 5 },
+        check: (data) => data.flatMap((r, row) =>
+            ['Revenue', 'Net Income'].filter(col => isMissing(r[col])).map(column => ({ row, column, message: `Null value in ${column}` }))
+        ),
+    },
+    {
+        id: 'duplicate-periods',
+        label: 'Duplicate Periods',
+        description: 'The same fiscal period appears more than once.',
+        defaults: { enabled: true, severity: 'error', threshold: 0, weight: 10 },
+        check: (data) => {
+            const seen = new Map<string, number>();
+            const out: RawFinding[] = [];
+            data.forEach((r, row) => {
+                const key = periodKey(r);
+                if (seen.has(key)) out.push({ row, column: 'Year', message: `Period ${rowLabel(r)} duplicates row ${seen.get(key)! + 1}` });
+                else seen.set(key, row);
+            });
+            return out;
+        },
+    },
+    {
+        id: 'missing-periods',
+        label: 'Missing Periods',
+        description: 'Gaps in the period sequence.',
+        defaults: { enabled: true, severity: 'warning', threshold: 0, weight: 5 },
+        check: (data) => {
+            const rows = data.map((r, row) => ({ r, row, t: timeIndex(r) })).sort((a, b) => a.t - b.t);
+            const out: RawFinding[] = [];
+            // Gaps are counted in the later row's own periods, so annual years followed by quarters are contiguous
+            rows.slice(1).forEach((cur, i) => {
+                const missing = Math.floor((cur.t - rows[i].t) / periodMonths(cur.r)) - 1;
+                if (missing >= 1) out.push({ row: cur.row, column: 'Year', message: `${missing} period(s) missing before ${rowLabel(cur.r)}` });
+            });
+            return out;
+        },
+    },
+    {
+        id: 'fiscal-year-range',
+        label: 'Unusual Fiscal Year',
+        description: 'Fiscal years implausibly far from today.',
+        thresholdLabel: 'Max years from today',
+        defaults: { enabled: true, severity: 'info', threshold: 25, weight: 1 },
+        check: (data, threshold) => {
+            const now = new Date().getFullYear();
+            return data
+                .map((r, row) => ({ r, row }))
+                .filter(({ r }) => Math.abs(r.Year - now) > threshold)
+                .map(({ r, row }) => ({ row, column: 'Year', message: `Unusual Fiscal Year detected: ${r.Year}` }));
+        },
+    },
+    {
+        id: 'zscore-outlier',
+        label: 'Z-Score Outliers',
+        description: 'Values more than N standard deviations from the column mean.',
+        thresholdLabel: 'Z-score limit',
+        defaults: { enabled: true, severity: 'warning', threshold: 2.5, weight: 3 },
+        check: (data, threshold) => numericColumns(data).flatMap(column => {
+            const pts = series(data, column);
+            if (pts.length < 3) return [];
+            const mean = pts.reduce((a, p) => a + p.value, 0) / pts.length;
+            const sd = Math.sqrt(pts.reduce((a, p) => a + (p.value - mean) ** 2, 0) / (pts.length - 1));
+            if (!sd) return [];
+            return pts
+                .filter(p => Math.abs((p.value - mean) / sd) > threshold)
+                .map(p => ({ row: p.row, column, message: `${column} z-score ${fmt((p.value - mean) / sd)}` }));
+        }),
+    },
+    {
+        id: 'iqr-outlier',
+        label: 'IQR Outliers',
+        description: 'Values outside Q1 − k·IQR … Q3 + k·IQR.',
+        thresholdLabel: 'IQR multiplier (k)',
+        defaults: { enabled: true, severity: 'warning', threshold: 1.5, weight: 3 },
+        check: (data, threshold) => numericColumns(data).flatMap(column => {
+            const pts = series(data, column);
+            if (pts.length < 4) return [];
+            const sorted = pts.map(p => p.value).sort((a, b) => a - b);
+            const q1 = quantile(sorted, 0.25);
+            const q3 = quantile(sorted, 0.75);
+            const iqr = q3 - q1;
+            const lo = q1 - threshold * iqr;
+            const hi = q3 + threshold * iqr;
+            return pts
+                .filter(p => p.value < lo || p.value > hi)
+                .map(p => ({ row: p.row, column, message: `${column} ${fmt(p.value)} outside [${fmt(lo)}, ${fmt(hi)}]` }));
+        }),
+    },
+    {
+        id: 'income-exceeds-revenue',
+        label: 'Net Income > Revenue',
+        description: 'Net Income larger than Revenue usually means swapped or mis-scaled columns.',
+        defaults: { enabled: true, severity: 'error', threshold: 0, weight: 10 },
+        check: (data) => data
+            .map((r, row) => ({ r, row }))
+            .filter(({ r }) => !isMissing(r.Revenue) && !isMissing(r['Net Income']) && r['Net Income'] > r.Revenue)
+            .map(({ row }) => ({ row, column: 'Net Income', message: 'Net Income exceeds Revenue' })),
+    },
+    {
+        id: 'sign-flip',
+        label: 'Sign Flips',
+        description: 'A core metric changes sign between consecutive periods.',
+        defaults: { enabled: true, severity: 'warning', threshold: 0, weight: 3 },
+        check: (data) => CORE_METRICS.flatMap(column => {
+            const pts = timeSeries(data, column);
+            return pts.slice(1)
+                .filter((p, i) => Math.sign(p.value) * Math.sign(pts[i].value) < 0)
+                .map(p => ({ row: p.row, column, message: `${column} changed sign (${fmt(p.value)})` }));
+        }),
+    },
+    {
+        id: 'yoy-jump',
+        label: 'Abrupt Period Change',
+        description: 'Period-over-period change larger than the threshold.',
+        thresholdLabel: 'Max change (%)',
+        defaults: { enabled: true, severity: 'warning', threshold: 50, weight: 2 },
+        check: (data, threshold) => CORE_METRICS.flatMap(column => {
+            // Each row is compared with the previous period of the same length; an annual total against a quarter is no change
+            const last = new Map<number, number>();
+            return timeSeries(data, column).flatMap(p => {
+                const months = periodMonths(data[p.row]);
+                const prev = last.get(months);
+                last.set(months, p.value);
+                if (!prev) return [];
+                const change = ((p.value - prev) / Math.abs(prev)) * 100;
+                return Math.abs(change) > threshold ? [{ row: p.row, column, message: `${column} moved ${change > 0 ? '+' : ''}${change.toFixed(1)}%` }] : [];
+            });
+        }),
+    },
+    {
+        id: 'budget-synthesized',
+        label: 'Synthesized Budget',
+        description: 'Budget was missing and filled in as 95% of Revenue.',
+        defaults: { enabled: true, severity: 'info', threshold: 0, weight: 1 },
+        check: (data, _threshold, ctx) => {
+            const keys = new Set(ctx.synthesizedBudget);
+            return data
+                .map((r, row) => ({ r, row }))
+                .filter(({ r }) => keys.has(periodKey(r)))
+                .map(({ row }) => ({ row, column: 'Budget', message: 'Budget missing; synthesized from Revenue' }));
+        },
+    },
+];
+
+export const defaultRuleConfig = (): Record<string, RuleConfig> =>
+    Object.fromEntries(INTEGRITY_RULES.map(r => [r.id, { ...r.defaults }]));
+
+export const runIntegrityScan = (data: FinancialRecord[], config: Record<string, RuleConfig>, ctx: ScanContext): IntegrityReport => {
+    const findings: IntegrityFinding[] = [];
+    const counts: Record<string, number> = {};
+    let score = 100;
+
+    INTEGRITY_RULES.forEach(rule => {
+        const cfg = config[rule.id] || rule.defaults;
+        counts[rule.id] = 0;
+        if (!cfg.enabled || data.length === 0) return;
+        rule.check(data, cfg.threshold, ctx).forEach(f => {
+            findings.push({ ...f, ruleId: rule.id, severity: cfg.severity });
+            counts[rule.id]++;
+            score -= cfg.weight;
+        });
+    });
+
+    return { score: Math.max(0, score), findings, counts };
+};
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { RawTable } from './csv';
+
+// Fields the models key on. Anything else is carried through under its source name.
+export const CANONICAL_FIELDS = ['Year', 'Revenue', 'Net Income', 'Free Cash Flow', 'Budget'] as const;
+export type CanonicalField = typeof CANONICAL_FIELDS[number];
+
+// Target for each source header: a canonical field, '' to ignore, or the header itself to keep it as-is.
+export type ColumnMapping = Record<string, string>;
+
+export interface MappingProfile {
+  name: string;
+  signature: string;
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
+export interface MappingSuggestion {
+  target: string;
+  confidence: number; // 0..1
+}
+
+const SYNONYMS: Record<CanonicalField, string[]> = {
+  'Year': ['year', 'fiscal year', 'fy', 'period', 'fiscal period', 'date'],
+  'Revenue': ['revenue', 'revenues', 'total revenue', 'total operating revenues', 'operating revenue', 'sales', 'net sales', 'turnover', 'top line'],
+  'Net Income': ['net income', 'net profit', 'net earnings', 'profit after tax', 'pat', 'earnings', 'bottom line'],
+  'Free Cash Flow': ['free cash flow', 'fcf', 'unlevered free cash flow', 'ufcf', 'levered free cash flow', 'cash flow'],
+  'Budget': ['budget', 'plan', 'budgeted revenue', 'revenue budget', 'target', 'forecast budget'],
+};
+
+const MATCH_THRESHOLD = 0.55;
+const PROFILE_KEY = 'finmetrics.mappingProfiles';
+
+const normalize = (s: string) => s.toLowerCase().replace(/\(.*?\)/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const bigrams = (s: string) => {
+    const grams = new Map<string, number>();
+    const t = s.replace(/\s+/g, ' ');
+    for (let i = 0; i < t.length - 1; i++) {
+        const g = t.slice(i, i + 2);
+        grams.set(g, (grams.get(g) || 0) + 1);
+    }
+    return grams;
+};
+
+// Sørensen–Dice coefficient over character bigrams.
+export const similarity = (a: string, b: string): number => {
+    const na = normalize(a);
+    const nb = normalize(b);
+    if (!na || !nb) return 0;
+    if (na === nb) return 1;
+    const ga = bigrams(na);
+    const gb = bigrams(nb);
+    let overlap = 0;
+    let total = 0;
+    ga.forEach((n, g) => {
+        overlap += Math.min(n, gb.get(g) || 0);
+        total += n;
+    });
+    gb.forEach(n => { total += n; });
+    return total ? (2 * overlap) / total : 0;
+};
+
+const scoreField = (header: string, field: CanonicalField): number =>
+    Math.max(...SYNONYMS[field].map(syn => similarity(header, syn)));
+
+// Order-insensitive fingerprint of a header row, used to recognise repeat files from the same vendor.
+export const headerSignature = (headers: string[]): string =>
+    headers.map(normalize).filter(Boolean).sort().join('|');
+
+/**
+ * Proposes a target for every source header. Canonical fields are assigned greedily by best score,
+ * so two columns never claim the same field; everything else is kept under its own name.
+ */
+export const suggestMapping = (headers: string[]): Record<string, MappingSuggestion> => {
+    const candidates: { header: string, field: CanonicalField, score: number }[] = [];
+    headers.forEach(header => {
+        CANONICAL_FIELDS.forEach(field => {
+            const score = scoreField(header, field);
+            if (score >= MATCH_THRESHOLD) candidates.push({ header, field, score });
+        });
+    });
+    candidates.sort((a, b) => b.score - a.score);
+
+    const result: Record<string, MappingSuggestion> = {};
+    const taken = new Set<string>();
+    candidates.forEach(c => {
+        if (result[c.header] || taken.has(c.field)) return;
+        result[c.header] = { target: c.field, confidence: c.score };
+        taken.add(c.field);
+    });
+    headers.forEach(h => {
+        if (!result[h]) result[h] = { target: h, confidence: 0 };
+    });
+    return result;
+};
+
+export const mappingFromSuggestions = (suggestions: Record<string, MappingSuggestion>): ColumnMapping =>
+    Object.fromEntries(Object.entries(suggestions).map(([h, s]) => [h, s.target]));
+
+export const isIdentityMapping = (headers: string[], mapping: ColumnMapping) =>
+    headers.every(h => mapping[h] === h);
+
+// Fields the mapping does not cover; Year is required, the rest degrade gracefully.
+export const missingFields = (mapping: ColumnMapping): CanonicalField[] => {
+    const targets = new Set(Object.values(mapping));
+    return CANONICAL_FIELDS.filter(f => !targets.has(f));
+};
+
+// Renames mapped columns and drops ignored ones.
+export const applyMapping = <T extends Pick<RawTable, 'headers' | 'body'>>(table: T, mapping: ColumnMapping): T => {
+    const keep = table.headers
+        .map((h, i) => ({ i, target: mapping[h] ?? h }))
+        .filter(c => c.target !== '');
+    return {
+        ...table,
+        headers: keep.map(c => c.target),
+        body: table.body.map(row => keep.map(c => row[c.i] ?? '')),
+    };
+};
+
+// --- PROFILE STORAGE ---
+
+export const loadProfiles = (): MappingProfile[] => {
+    try {
+        const raw = localStorage.getItem(PROFILE_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch {
+        return [];
+    }
+};
+
+const storeProfiles = (profiles: MappingProfile[]) => {
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(profiles));
+};
+
+// Saves (or overwrites by name) a profile and returns the updated list.
+export const saveProfile = (profile: Omit<MappingProfile, 'updatedAt'>): MappingProfile[] => {
+    const profiles = loadProfiles().filter(p => p.name !== profile.name);
+    profiles.push({ ...profile, updatedAt: new Date().toISOString() });
+    storeProfiles(profiles);
+    return profiles;
+};
+
+export const deleteProfile = (name: string): MappingProfile[] => {
+    const profiles = loadProfiles().filter(p => p.name !== name);
+    storeProfiles(profiles);
+    return profiles;
+};
+
+export const findProfileForHeaders = (headers: string[]): MappingProfile | undefined => {
+    const sig = headerSignature(headers);
+    return loadProfiles().find(p => p.signature === sig);
+};
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FinancialRecord } from '../types';
+
+export interface MarketMetrics {
+  roe: number;      // %
+  rateBase: number;
+  avgRev: number;
+  maxRev: number;
+}
+
+// Descriptive KPIs for the Market Vision cards. Equity is proxied as 5x average FCF and the
+// regulatory rate base as 1.5x that equity.
+export const computeMarketMetrics = (records: FinancialRecord[]): MarketMetrics => {
+    if (!records.length) return { roe: 0, rateBase: 0, avgRev: 0, maxRev: 0 };
+    const avgEquity = records.reduce((acc, curr) => acc + (curr['Free Cash Flow'] || 0), 0) / records.length * 5;
+    const avgNetIncome = records.reduce((acc, curr) => acc + (curr['Net Income'] || 0), 0) / records.length;
+    const roe = avgEquity ? (avgNetIncome / avgEquity) * 100 : 0;
+
+    return {
+        roe,
+        rateBase: avgEquity * 1.5,
+        avgRev: records.reduce((acc, c) => acc + (c.Revenue || 0), 0) / records.length,
+        maxRev: Math.max(...records.map(d => d.Revenue || 0)),
+    };
+};
+
+export const formatMarketMetrics = (m: MarketMetrics) => ({
+    roe: m.roe.toFixed(2) + '%',
+    rateBase: '$' + m.rateBase.toLocaleString(undefined, { maximumFractionDigits: 0 }),
+    avgRev: '$' + m.avgRev.toLocaleString(undefined, { maximumFractionDigits: 0 }),
+    maxRev: '$' + m.maxRev.toLocaleString()
+});
@@ -0,0 +1,275 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FinancialRecord, DCFAssumptions, DriverSchedule, ForecastOverride, OverrideLogEntry } from '../types';
+import { PeriodSettings } from './periods';
+import { ForecastModel, FORECAST_MODELS, ConeMode } from './forecast';
+import { DRIVER_FIELDS } from './drivers';
+import { DEFAULT_DCF_STRUCTURE, MAX_HORIZON, MAX_FADE_YEARS, TERMINAL_METHODS, fiscalTime } from './dcf';
+import { NUMERIC_KEYS, NUMERIC_RANGES } from './urlState';
+
+// --- PORTABLE MODEL FILE (.finmetrics) ---
+// A single entity's model as JSON: the dataset plus every input needed to reproduce its forecast,
+// valuation and risk views. Files carry a schema `version`; older versions are upgraded one step at a
+// time through MIGRATIONS before validation, so only the current shape is ever validated.
+
+export const MODEL_FILE_FORMAT = 'finmetrics';
+export const MODEL_FILE_VERSION = 9;
+export const MODEL_FILE_EXTENSION = '.finmetrics';
+
+export interface FinancialModel {
+  name: string;
+  notes: string;
+  dataset: {
+    records: FinancialRecord[];
+    synthesizedBudget: string[];
+  };
+  columnMapping: Record<string, string> | null;
+  periodSettings: PeriodSettings;
+  forecast: {
+    metric: string;
+    extraMetrics: string[]; // Forecast alongside `metric`
+    horizon: number;
+    sensitivity: number;
+    model: ForecastModel;
+    cone: ConeMode;
+    confidence: number; // %, one of CONFIDENCE_LEVELS
+  };
+  assumptions: DCFAssumptions; // Always with `structure` (incl. its timing) and `waccBuilder` (null when WACC is entered directly)
+  drivers: DriverSchedule | null; // null = fitted from the dataset on load
+  overrides: ForecastOverride[];
+  overrideLog: OverrideLogEntry[];
+  risk: {
+    baseRev: number;
+    baseCost: number;
+  };
+}
+
+export interface ModelFile {
+  format: typeof MODEL_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  model: FinancialModel;
+}
+
+export interface ModelFileResult {
+  model: FinancialModel | null;
+  errors: string[];
+}
+
+const withForecast = (doc: any, fields: Record<string, unknown>) =>
+    isObject(doc.model?.forecast) ? { ...doc, model: { ...doc.model, forecast: { ...doc.model.forecast, ...fields } } } : doc;
+
+// Keyed by the version a migration upgrades *from*; each returns the document at version + 1.
+const MIGRATIONS: Record<number, (doc: any) => any> = {
+    // v2 added forecast model selection; v1 files were always straight-line forecasts
+    1: doc => withForecast(doc, { model: 'linear' }),
+    // v3 added statistical prediction intervals; earlier files always drew the scenario spread
+    2: doc => withForecast(doc, { cone: 'scenario', confidence: 90 }),
+    // v4 added projection drivers; earlier files valued a trend line, the closest match being fitted drivers
+    3: doc => isObject(doc.model) ? { ...doc, model: { ...doc.model, drivers: null } } : doc,
+    // v5 added forecasting several metrics at once
+    4: doc => withForecast(doc, { extraMetrics: [] }),
+    // v6 added analyst overrides of forecast periods and their change log
+    5: doc => isObject(doc.model) ? { ...doc, model: { ...doc.model, overrides: [], overrideLog: [] } } : doc,
+    // v7 added the DCF stage structure; earlier files were always five explicit years and Gordon growth
+    6: doc => isObject(doc.model?.assumptions)
+        ? { ...doc, model: { ...doc.model, assumptions: { ...doc.model.assumptions, structure: DEFAULT_DCF_STRUCTURE } } }
+        : doc,
+    // v8 added the CAPM WACC builder; earlier files always entered WACC directly
+    7: doc => isObject(doc.model?.assumptions)
+        ? { ...doc, model: { ...doc.model, assumptions: { ...doc.model.assumptions, waccBuilder: null } } }
+        : doc,
+    // v9 added the valuation date and mid-year discounting; earlier files valued at the end of the actuals, year-end
+    8: doc => isObject(doc.model?.assumptions?.structure)
+        ? { ...doc, model: { ...doc.model, assumptions: { ...doc.model.assumptions, structure: { ...doc.model.assumptions.structure, valuationDate: null, midYear: false } } } }
+        : doc,
+};
+
+export const serializeModel = (model: FinancialModel): string => {
+    const file: ModelFile = { format: MODEL_FILE_FORMAT, version: MODEL_FILE_VERSION, exportedAt: new Date().toISOString(), model };
+    return JSON.stringify(file, null, 2);
+};
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+
+// Collects every problem rather than stopping at the first, each prefixed with its JSON path
+const validateModel = (model: unknown): string[] => {
+    const errors: string[] = [];
+    const expect = (ok: boolean, path: string, message: string) => { if (!ok) errors.push(`${path}: ${message}`); };
+
+    if (!isObject(model)) return ['model: missing or not an object'];
+
+    expect(typeof model.name === 'string', 'model.name', 'expected a string');
+    expect(typeof model.notes === 'string', 'model.notes', 'expected a string');
+
+    if (!isObject(model.dataset)) {
+        errors.push('model.dataset: missing or not an object');
+    } else {
+        const { records, synthesizedBudget } = model.dataset;
+        if (!Array.isArray(records)) {
+            errors.push('model.dataset.records: expected an array');
+        } else {
+            expect(records.length > 0, 'model.dataset.records', 'contains no rows');
+            records.forEach((r, i) => {
+                const path = `model.dataset.records[${i}]`;
+                if (!isObject(r)) {
+                    errors.push(`${path}: expected an object`);
+                    return;
+                }
+                expect(isNumber(r.Year), `${path}.Year`, 'expected a number');
+                Object.entries(r).forEach(([key, value]) => {
+                    if (value !== undefined && value !== null && !isNumber(value)) errors.push(`${path}["${key}"]: expected a number, got ${JSON.stringify(value)}`);
+                });
+            });
+        }
+        expect(Array.isArray(synthesizedBudget) && synthesizedBudget.every(k => typeof k === 'string'), 'model.dataset.synthesizedBudget', 'expected an array of strings');
+    }
+
+    if (model.columnMapping !== null) {
+        expect(isObject(model.columnMapping) && Object.values(model.columnMapping).every(v => typeof v === 'string'), 'model.columnMapping', 'expected null or an object of strings');
+    }
+
+    if (!isObject(model.periodSettings)) {
+        errors.push('model.periodSettings: missing or not an object');
+    } else {
+        const { granularity, rollup, fiscalYearEnd, flowColumns } = model.periodSettings;
+        expect(['annual', 'quarterly', 'monthly'].includes(granularity), 'model.periodSettings.granularity', 'expected "annual", "quarterly" or "monthly"');
+        expect(['periodic', 'ttm'].includes(rollup), 'model.periodSettings.rollup', 'expected "periodic" or "ttm"');
+        expect(isNumber(fiscalYearEnd), 'model.periodSettings.fiscalYearEnd', 'expected a number');
+        if (flowColumns !== undefined) {
+            expect(Array.isArray(flowColumns) && flowColumns.every((c: unknown) => typeof c === 'string'), 'model.periodSettings.flowColumns', 'expected an array of strings');
+        }
+    }
+
+    if (!isObject(model.forecast)) {
+        errors.push('model.forecast: missing or not an object');
+    } else {
+        expect(typeof model.forecast.metric === 'string', 'model.forecast.metric', 'expected a string');
+        expect(Array.isArray(model.forecast.extraMetrics) && model.forecast.extraMetrics.every((m: unknown) => typeof m === 'string'), 'model.forecast.extraMetrics', 'expected an array of strings');
+        expect(isNumber(model.forecast.horizon), 'model.forecast.horizon', 'expected a number');
+        expect(isNumber(model.forecast.sensitivity), 'model.forecast.sensitivity', 'expected a number');
+        expect(FORECAST_MODELS.some(m => m.id === model.forecast.model), 'model.forecast.model', `expected one of ${FORECAST_MODELS.map(m => m.id).join(', ')}`);
+        expect(model.forecast.cone === 'interval' || model.forecast.cone === 'scenario', 'model.forecast.cone', 'expected "interval" or "scenario"');
+        expect(isNumber(model.forecast.confidence), 'model.forecast.confidence', 'expected a number');
+    }
+
+    if (!isObject(model.assumptions)) {
+        errors.push('model.assumptions: missing or not an object');
+    } else {
+        (['wacc', 'termGrowth', 'netDebt', 'shares'] as const).forEach(k => expect(isNumber(model.assumptions[k]), `model.assumptions.${k}`, 'expected a number'));
+        const structure = model.assumptions.structure;
+        if (!isObject(structure)) {
+            errors.push('model.assumptions.structure: missing or not an object');
+        } else {
+            expect(Number.isInteger(structure.horizon) && structure.horizon >= 1 && structure.horizon <= MAX_HORIZON, 'model.assumptions.structure.horizon', `expected a whole number of years 1-${MAX_HORIZON}`);
+            expect(Number.isInteger(structure.fadeYears) && structure.fadeYears >= 0 && structure.fadeYears <= MAX_FADE_YEARS, 'model.assumptions.structure.fadeYears', `expected a whole number of years 0-${MAX_FADE_YEARS}`);
+            expect(TERMINAL_METHODS.some(m => m.id === structure.terminal), 'model.assumptions.structure.terminal', `expected one of ${TERMINAL_METHODS.map(m => m.id).join(', ')}`);
+            expect(isNumber(structure.exitMultiple), 'model.assumptions.structure.exitMultiple', 'expected a number');
+            expect(isNumber(structure.ebitdaMargin), 'model.assumptions.structure.ebitdaMargin', 'expected a number');
+            // Whether the date falls in projection year 1 depends on the dataset and is checked by the DCF
+            expect(structure.valuationDate === null || (typeof structure.valuationDate === 'string' && fiscalTime(structure.valuationDate, 12) !== null),
+                'model.assumptions.structure.valuationDate', 'expected null or a YYYY-MM-DD date');
+            expect(typeof structure.midYear === 'boolean', 'model.assumptions.structure.midYear', 'expected true or false');
+        }
+        const builder = model.assumptions.waccBuilder;
+        if (builder !== null) {
+            if (!isObject(builder)) {
+                errors.push('model.assumptions.waccBuilder: expected null or an object');
+            } else {
+                (['riskFreeRate', 'equityRiskPremium', 'beta', 'betaDebtWeight', 'costOfDebt', 'taxRate', 'debtWeight'] as const)
+                    .forEach(k => expect(isNumber(builder[k]), `model.assumptions.waccBuilder.${k}`, 'expected a number'));
+                expect(builder.betaBasis === 'levered' || builder.betaBasis === 'unlevered', 'model.assumptions.waccBuilder.betaBasis', 'expected "levered" or "unlevered"');
+            }
+        }
+    }
+
+    if (model.drivers !== null) {
+        if (!isObject(model.drivers)) {
+            errors.push('model.drivers: expected null or an object');
+        } else {
+            // One value per explicit year; a schedule of another length is resized to the horizon on load
+            const years = model.drivers.growth?.length;
+            DRIVER_FIELDS.forEach(({ id }) => {
+                const v = model.drivers[id];
+                expect(Array.isArray(v) && v.length >= 1 && v.length <= MAX_HORIZON && v.length === years && v.every(isNumber), `model.drivers.${id}`, `expected 1-${MAX_HORIZON} numbers, the same count for every driver`);
+            });
+        }
+    }
+
+    if (!Array.isArray(model.overrides)) {
+        errors.push('model.overrides: expected an array');
+    } else {
+        model.overrides.forEach((o: unknown, i: number) => {
+            const ok = isObject(o) && typeof o.metric === 'string' && isNumber(o.year) && isNumber(o.value) && (o.note === undefined || typeof o.note === 'string');
+            expect(ok, `model.overrides[${i}]`, 'expected { metric, year, value, note? }');
+        });
+    }
+
+    if (!Array.isArray(model.overrideLog)) {
+        errors.push('model.overrideLog: expected an array');
+    } else {
+        const nullableNumber = (v: unknown) => v === null || isNumber(v);
+        model.overrideLog.forEach((e: unknown, i: number) => {
+            const ok = isObject(e) && typeof e.at === 'string' && typeof e.analyst === 'string' && typeof e.metric === 'string' && isNumber(e.year)
+                && nullableNumber(e.previous) && nullableNumber(e.value) && (e.note === undefined || typeof e.note === 'string');
+            expect(ok, `model.overrideLog[${i}]`, 'expected { at, analyst, metric, year, previous, value, note? }');
+        });
+    }
+
+    if (!isObject(model.risk)) {
+        errors.push('model.risk: missing or not an object');
+    } else {
+        expect(isNumber(model.risk.baseRev), 'model.risk.baseRev', 'expected a number');
+        expect(isNumber(model.risk.baseCost), 'model.risk.baseCost', 'expected a number');
+    }
+
+    // The bounds share links are held to (horizon, spread, confidence, WACC, shares, fiscal year end), on the
+    // same fields of the model. Structure fields are checked above.
+    const groups: Record<string, [unknown, string]> = {
+        forecast: [model.forecast, 'model.forecast'],
+        assumptions: [model.assumptions, 'model.assumptions'],
+        periodSettings: [model.periodSettings, 'model.periodSettings'],
+    };
+    Object.entries(NUMERIC_RANGES).forEach(([key, [inRange, message]]) => {
+        const [group, field] = NUMERIC_KEYS[key as keyof typeof NUMERIC_KEYS];
+        const [parent, path] = groups[group] ?? [];
+        if (!isObject(parent) || !isNumber(parent[field])) return; // Missing or mistyped: reported above
+        expect(inRange(parent[field]), `${path}.${field}`, message);
+    });
+
+    return errors;
+};
+
+export const readModelFile = (text: string): ModelFileResult => {
+    let doc: any;
+    try {
+        doc = JSON.parse(text);
+    } catch (err: any) {
+        return { model: null, errors: [`Not valid JSON: ${err.message}`] };
+    }
+
+    if (!isObject(doc) || doc.format !== MODEL_FILE_FORMAT) {
+        return { model: null, errors: [`Not a FinMetrics model file (expected "format": "${MODEL_FILE_FORMAT}")`] };
+    }
+    if (!Number.isInteger(doc.version) || doc.version < 1) {
+        return { model: null, errors: ['version: expected a positive whole number'] };
+    }
+    if (doc.version > MODEL_FILE_VERSION) {
+        return { model: null, errors: [`File was written by a newer FinMetrics (schema v${doc.version}; this version reads up to v${MODEL_FILE_VERSION})`] };
+    }
+
+    for (let v = doc.version; v < MODEL_FILE_VERSION; v++) {
+        const migrate = MIGRATIONS[v];
+        if (!migrate) return { model: null, errors: [`No migration from schema v${v} to v${v + 1}`] };
+        doc = { ...migrate(doc), version: v + 1 };
+    }
+
+    const errors = validateModel(doc.model);
+    if (errors.length) return { model: null, errors };
+
+    return { model: doc.model as FinancialModel, errors: [] };
+};
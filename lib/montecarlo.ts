@@ -0,0 +1,443 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FinancialRecord, DCFAssumptions, DCFStructure } from '../types';
+import { SeriesOptions, validateStructure, MAX_HORIZON, MAX_FADE_YEARS } from './dcf';
+import { annualTotals } from './drivers';
+
+// --- MONTE CARLO ---
+// Simulates revenue paths and DCF fair values from user-assigned input distributions. Like the forecast
+// models, the simulation exists twice: `runSimulation` below (JS fallback) and MONTE_CARLO_PY (NumPy).
+// Both draw from the same seeded mulberry32 stream in the same order, so a given seed reproduces the
+// same paths in either engine.
+//
+// Every path draws one revenue growth rate per explicit year, and one FCF margin, WACC and terminal
+// growth rate for its whole life. FCF is revenue x margin, valued with the same stages and timing as
+// computeDCF: the active horizon, a fade from the path's last explicit growth rate to its terminal
+// growth, the configured terminal value, the year-1 stub and the mid-year convention. Every WACC draw
+// must be one computeDCF would accept: the inputs are rejected up front unless the WACC distribution
+// stays above 0% and, under Gordon growth, above the highest terminal growth it can be paired with, so
+// no path is ever dropped from the result.
+
+export type DistributionKind = 'normal' | 'triangular' | 'uniform';
+
+export const DISTRIBUTION_KINDS: { id: DistributionKind; label: string }[] = [
+    { id: 'normal', label: 'Normal' },
+    { id: 'triangular', label: 'Triangular' },
+    { id: 'uniform', label: 'Uniform' },
+];
+
+// All three shapes are described by the same Low / Base / High triple (in %). Uniform ignores Base;
+// for Normal, Base is the mean and Low/High are the 5th and 95th percentiles.
+export interface Distribution {
+  kind: DistributionKind;
+  low: number;
+  base: number;
+  high: number;
+}
+
+export type SimulatedVariable = 'growth' | 'margin' | 'wacc' | 'termGrowth';
+
+export const SIMULATED_VARIABLES: { id: SimulatedVariable; label: string }[] = [
+    { id: 'growth', label: 'Revenue Growth (%)' },
+    { id: 'margin', label: 'FCF Margin (%)' },
+    { id: 'wacc', label: 'WACC (%)' },
+    { id: 'termGrowth', label: 'Terminal Growth (%)' },
+];
+
+export interface SimulationInputs {
+  distributions: Record<SimulatedVariable, Distribution>;
+  paths: number;
+  seed: number;
+}
+
+export const PATH_COUNTS = [500, 1000, 2000, 5000];
+export const DEFAULT_SEED = 42;
+const HISTOGRAM_BINS = 30;
+// z of the 95th percentile: Low/High of a normal distribution sit this many sd from the mean
+const Z95 = 1.6448536269514722;
+// Normal draws are unbounded, so every WACC draw is clamped to at least MIN_WACC and, under Gordon growth,
+// every terminal growth draw to at most that path's WACC - MIN_GORDON_SPREAD (both in %). Validation keeps
+// Triangular and Uniform ranges clear of the limits, so in practice only Normal draws are clamped.
+const MIN_WACC = 0.1;
+const MIN_GORDON_SPREAD = 0.1;
+
+export interface FanRow {
+  Year: number; // Years after the last actual, 0 = last actual
+  P5: number;
+  P25: number;
+  P50: number;
+  P75: number;
+  P95: number;
+}
+
+export interface HistogramBin {
+  lower: number;
+  upper: number;
+  count: number;
+}
+
+export interface SimulationResult {
+  success: boolean;
+  fan: FanRow[];
+  values: number[]; // Fair value per share of every path, sorted ascending
+  p5: number;
+  p50: number;
+  p95: number;
+  mean: number;
+  error?: string;
+}
+
+// How each path is valued: the DCF stages, and the years of projection year 1 already behind the
+// valuation date (see valuationTiming in lib/dcf)
+export interface SimulationValuation {
+  structure: DCFStructure;
+  elapsed: number;
+}
+
+export const EMPTY_SIMULATION: SimulationResult = { success: false, fan: [], values: [], p5: 0, p50: 0, p95: 0, mean: 0 };
+
+// The base year the simulation grows from: last fiscal year's revenue and the historical FCF margin.
+export interface SimulationBase {
+  revenue: number;
+  growth: number[]; // Historical annual growth rates, %
+  margins: number[]; // Historical FCF margins, %
+}
+
+export const simulationBase = (records: FinancialRecord[], opts: SeriesOptions): SimulationBase | null => {
+    const annual = annualTotals(records, 'Revenue', opts);
+    if (annual.length === 0) return null;
+
+    const growth: number[] = [];
+    for (let i = 1; i < annual.length; i++) {
+        if (annual[i - 1] !== 0) growth.push((annual[i] / annual[i - 1] - 1) * 100);
+    }
+    // Rows without a Free Cash Flow figure have no margin to contribute
+    const margins = records
+        .filter(d => d.Revenue && isFinite(d['Free Cash Flow']))
+        .map(d => (d['Free Cash Flow'] / d.Revenue) * 100);
+
+    return { revenue: annual[annual.length - 1], growth, margins };
+};
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+// Starting distributions fitted from history: growth ~ Normal(mean, sd) of past annual growth, margin ~
+// Triangular(min, mean, max) of past margins, and WACC / terminal growth centred on the DCF assumptions.
+export const defaultSimulationInputs = (base: SimulationBase | null, a: DCFAssumptions): SimulationInputs => {
+    const mean = (v: number[]) => v.reduce((s, x) => s + x, 0) / v.length;
+
+    let growth: Distribution = { kind: 'normal', low: 0, base: 5, high: 10 };
+    if (base && base.growth.length > 0) {
+        const m = mean(base.growth);
+        const sd = base.growth.length > 1 ? Math.sqrt(base.growth.reduce((s, g) => s + (g - m) ** 2, 0) / (base.growth.length - 1)) : 0;
+        const spread = sd > 0 ? Z95 * sd : 5;
+        growth = { kind: 'normal', low: round1(m - spread), base: round1(m), high: round1(m + spread) };
+    }
+
+    let margin: Distribution = { kind: 'triangular', low: 5, base: 10, high: 15 };
+    if (base && base.margins.length > 0) {
+        margin = { kind: 'triangular', low: round1(Math.min(...base.margins)), base: round1(mean(base.margins)), high: round1(Math.max(...base.margins)) };
+    }
+
+    return {
+        distributions: {
+            growth,
+            margin,
+            wacc: { kind: 'triangular', low: round1(a.wacc - 1.5), base: a.wacc, high: round1(a.wacc + 1.5) },
+            termGrowth: { kind: 'uniform', low: round1(a.termGrowth - 0.5), base: a.termGrowth, high: round1(a.termGrowth + 0.5) },
+        },
+        paths: 2000,
+        seed: DEFAULT_SEED,
+    };
+};
+
+export const validateSimulationInputs = (inputs: SimulationInputs, shares: number, structure: DCFStructure): string[] => {
+    const errors = validateStructure(structure);
+    SIMULATED_VARIABLES.forEach(({ id, label }) => {
+        const d = inputs.distributions[id];
+        if (![d.low, d.base, d.high].every(isFinite)) errors.push(`${label}: Low, Base and High must be numbers.`);
+        else if (d.kind === 'uniform' ? d.low > d.high : (d.low > d.base || d.base > d.high)) errors.push(`${label}: expected Low <= Base <= High.`);
+    });
+    const { wacc, termGrowth } = inputs.distributions;
+    // Normal draws are clamped in runSimulation instead (see MIN_WACC); bounded ranges must stay clear of the limits
+    if (wacc.kind !== 'normal') {
+        if (!(wacc.low > 0)) errors.push(`WACC (%): Low must be above 0% (got ${wacc.low}%).`);
+        else if (structure.terminal === 'gordon' && termGrowth.kind !== 'normal' && !(wacc.low > termGrowth.high)) {
+            errors.push(`WACC (%): Low (${wacc.low}%) must exceed the High of terminal growth (${termGrowth.high}%) for a Gordon growth terminal value. Narrow the ranges or use an exit multiple.`);
+        }
+    }
+    if (!(inputs.paths > 0)) errors.push('Path count must be positive.');
+    if (!Number.isInteger(inputs.seed)) errors.push('Seed must be a whole number.');
+    if (!(shares > 0)) errors.push('Shares Outstanding must be positive to value per share.');
+    return errors;
+};
+
+// mulberry32: a small 32-bit generator that is easy to reproduce bit for bit in Python
+export const mulberry32 = (seed: number) => {
+    let state = seed | 0;
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), state | 1);
+        t = (t + Math.imul(t ^ (t >>> 7), t | 61)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Maps a pair of uniforms in [0, 1) to one draw. Every draw consumes two uniforms, whatever its shape,
+// so changing one distribution never shifts the stream feeding the others.
+const sample = (d: Distribution, u1: number, u2: number): number => {
+    if (d.kind === 'uniform') return d.low + (d.high - d.low) * u1;
+    if (d.kind === 'normal') {
+        const sd = (d.high - d.low) / (2 * Z95);
+        return d.base + sd * Math.sqrt(-2 * Math.log(1 - u1)) * Math.cos(2 * Math.PI * u2);
+    }
+    const width = d.high - d.low;
+    if (width <= 0) return d.base;
+    if (u1 < (d.base - d.low) / width) return d.low + Math.sqrt(u1 * width * (d.base - d.low));
+    return d.high - Math.sqrt((1 - u1) * width * (d.high - d.base));
+};
+
+// Linear interpolation between closest ranks, as numpy.percentile does by default
+export const percentile = (sorted: number[], p: number): number => {
+    const pos = (sorted.length - 1) * p / 100;
+    const lo = Math.floor(pos);
+    const hi = Math.min(lo + 1, sorted.length - 1);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+export const runSimulation = (baseRevenue: number, inputs: SimulationInputs, netDebt: number, shares: number, valuation: SimulationValuation): SimulationResult => {
+    const { structure: s, elapsed } = valuation;
+    const errors = validateSimulationInputs(inputs, shares, s);
+    if (errors.length) return { ...EMPTY_SIMULATION, error: errors[0] };
+
+    const { growth, margin, wacc, termGrowth } = inputs.distributions;
+    const years = s.horizon + s.fadeYears;
+    const stub = 1 - elapsed;
+    // As in computeDCF: year `year` runs from year - 1 (or the valuation date, in year 1) to year
+    const period = (year: number) => (s.midYear ? (Math.max(year - 1, elapsed) + year) / 2 : year) - elapsed;
+    const terminalPeriod = years - elapsed - (s.midYear && s.terminal === 'gordon' ? 0.5 : 0);
+    const rand = mulberry32(inputs.seed);
+    const revenue: number[][] = Array.from({ length: years + 1 }, () => []);
+    const values: number[] = [];
+
+    for (let p = 0; p < inputs.paths; p++) {
+        // Draw slots: one growth rate per explicit year, then margin, WACC and terminal growth
+        const u = Array.from({ length: (s.horizon + 3) * 2 }, rand);
+        const draw = (d: Distribution, k: number) => sample(d, u[2 * k], u[2 * k + 1]);
+
+        const m = draw(margin, s.horizon) / 100;
+        const rate100 = Math.max(draw(wacc, s.horizon + 1), MIN_WACC);
+        const growth100 = draw(termGrowth, s.horizon + 2);
+        const r = rate100 / 100;
+        const g = (s.terminal === 'gordon' ? Math.min(growth100, rate100 - MIN_GORDON_SPREAD) : growth100) / 100;
+        const present = (year: number, fcf: number) => (year === 1 ? fcf * stub : fcf) / Math.pow(1 + r, period(year));
+
+        let rev = baseRevenue;
+        let pv = 0;
+        let rate = 0;
+        revenue[0].push(rev);
+        for (let i = 1; i <= s.horizon; i++) {
+            rate = draw(growth, i - 1) / 100;
+            rev *= 1 + rate;
+            revenue[i].push(rev);
+            pv += present(i, rev * m);
+        }
+        for (let k = 1; k <= s.fadeYears; k++) {
+            rev *= 1 + rate + (g - rate) * k / s.fadeYears;
+            revenue[s.horizon + k].push(rev);
+            pv += present(s.horizon + k, rev * m);
+        }
+
+        let exitValue: number;
+        if (s.terminal === 'gordon') exitValue = (rev * m * (1 + g)) / (r - g);
+        else if (s.terminal === 'exit-fcf') exitValue = rev * m * s.exitMultiple;
+        else exitValue = rev * s.ebitdaMargin / 100 * s.exitMultiple;
+        values.push((pv + exitValue / Math.pow(1 + r, terminalPeriod) - netDebt) / shares);
+    }
+
+    const fan = revenue.map((column, year) => {
+        const sorted = [...column].sort((a, b) => a - b);
+        return {
+            Year: year,
+            P5: percentile(sorted, 5),
+            P25: percentile(sorted, 25),
+            P50: percentile(sorted, 50),
+            P75: percentile(sorted, 75),
+            P95: percentile(sorted, 95),
+        };
+    });
+
+    values.sort((a, b) => a - b);
+    return {
+        success: true,
+        fan,
+        values,
+        p5: percentile(values, 5),
+        p50: percentile(values, 50),
+        p95: percentile(values, 95),
+        mean: values.reduce((s, v) => s + v, 0) / values.length,
+    };
+};
+
+// Equal-width bins between the 1st and 99th percentiles; the tails are folded into the end bins
+export const toHistogram = (sorted: number[], bins = HISTOGRAM_BINS): HistogramBin[] => {
+    if (sorted.length === 0) return [];
+    const lo = percentile(sorted, 1);
+    const hi = percentile(sorted, 99);
+    const width = (hi - lo) / bins || 1;
+    const out = Array.from({ length: bins }, (_, i) => ({ lower: lo + i * width, upper: lo + (i + 1) * width, count: 0 }));
+    sorted.forEach(v => {
+        const i = Math.min(bins - 1, Math.max(0, Math.floor((v - lo) / width)));
+        out[i].count++;
+    });
+    return out;
+};
+
+// Python twin of runSimulation. Expects `np` in scope; call simulate(base_revenue, inputs, net_debt,
+// shares, valuation) with `inputs` shaped like SimulationInputs and `valuation` like SimulationValuation.
+export const MONTE_CARLO_PY = `
+import math
+
+Z95 = ${Z95}
+MIN_WACC = ${MIN_WACC}
+MIN_GORDON_SPREAD = ${MIN_GORDON_SPREAD}
+MASK = 0xFFFFFFFF
+MAX_HORIZON = ${MAX_HORIZON}
+MAX_FADE_YEARS = ${MAX_FADE_YEARS}
+SIMULATED_VARIABLES = ${JSON.stringify(SIMULATED_VARIABLES)}
+
+def _finite(v):
+    return isinstance(v, (int, float)) and math.isfinite(v)
+
+def _whole(v, low, high):
+    return _finite(v) and float(v).is_integer() and low <= v <= high
+
+# Mirrors validateSimulationInputs. The valuation date arrives already resolved to \`elapsed\`, so only the
+# stage checks of validateStructure apply here.
+def validate_simulation(inputs, shares, s):
+    errors = []
+    if not _whole(s["horizon"], 1, MAX_HORIZON):
+        errors.append(f"Explicit horizon must be a whole number of years from 1 to {MAX_HORIZON}.")
+    if not _whole(s["fadeYears"], 0, MAX_FADE_YEARS):
+        errors.append(f"Fade period must be a whole number of years from 0 to {MAX_FADE_YEARS}.")
+    if s["terminal"] != "gordon" and not (_finite(s["exitMultiple"]) and s["exitMultiple"] > 0):
+        errors.append("Exit multiple must be positive.")
+    if s["terminal"] == "exit-ebitda" and not (_finite(s["ebitdaMargin"]) and s["ebitdaMargin"] > 0):
+        errors.append("EV/EBITDA exit needs a positive EBITDA margin.")
+    dist = inputs["distributions"]
+    for v in SIMULATED_VARIABLES:
+        d = dist[v["id"]]
+        if not all(_finite(d[k]) for k in ("low", "base", "high")):
+            errors.append(f"{v['label']}: Low, Base and High must be numbers.")
+        elif (d["low"] > d["high"]) if d["kind"] == "uniform" else (d["low"] > d["base"] or d["base"] > d["high"]):
+            errors.append(f"{v['label']}: expected Low <= Base <= High.")
+    wacc, term_growth = dist["wacc"], dist["termGrowth"]
+    if wacc["kind"] != "normal":
+        if not (_finite(wacc["low"]) and wacc["low"] > 0):
+            errors.append(f"WACC (%): Low must be above 0% (got {wacc['low']}%).")
+        elif s["terminal"] == "gordon" and term_growth["kind"] != "normal" and not (_finite(term_growth["high"]) and wacc["low"] > term_growth["high"]):
+            errors.append(f"WACC (%): Low ({wacc['low']}%) must exceed the High of terminal growth ({term_growth['high']}%) for a Gordon growth terminal value. Narrow the ranges or use an exit multiple.")
+    if not (_finite(inputs["paths"]) and inputs["paths"] > 0):
+        errors.append("Path count must be positive.")
+    if not (_finite(inputs["seed"]) and float(inputs["seed"]).is_integer()):
+        errors.append("Seed must be a whole number.")
+    if not (_finite(shares) and shares > 0):
+        errors.append("Shares Outstanding must be positive to value per share.")
+    return errors
+
+def mulberry32(seed):
+    state = seed & MASK
+    def nxt():
+        nonlocal state
+        state = (state + 0x6D2B79F5) & MASK
+        t = ((state ^ (state >> 15)) * (state | 1)) & MASK
+        t = ((t + (((t ^ (t >> 7)) * (t | 61)) & MASK)) & MASK) ^ t
+        return (t ^ (t >> 14)) / 4294967296
+    return nxt
+
+def sample(d, u1, u2):
+    if d["kind"] == "uniform":
+        return d["low"] + (d["high"] - d["low"]) * u1
+    if d["kind"] == "normal":
+        sd = (d["high"] - d["low"]) / (2 * Z95)
+        return d["base"] + sd * np.sqrt(-2 * np.log(1 - u1)) * np.cos(2 * np.pi * u2)
+    width = d["high"] - d["low"]
+    if width <= 0:
+        return np.full(u1.shape, float(d["base"]))
+    left = d["low"] + np.sqrt(u1 * width * (d["base"] - d["low"]))
+    right = d["high"] - np.sqrt((1 - u1) * width * (d["high"] - d["base"]))
+    return np.where(u1 < (d["base"] - d["low"]) / width, left, right)
+
+def simulate(base_revenue, inputs, net_debt, shares, valuation):
+    dist = inputs["distributions"]
+    s = valuation["structure"]
+    errors = validate_simulation(inputs, shares, s)
+    if errors:
+        return {"success": False, "error": errors[0]}
+    elapsed = valuation["elapsed"]
+    horizon = int(s["horizon"])
+    fade_years = int(s["fadeYears"])
+    years = horizon + fade_years
+    gordon = s["terminal"] == "gordon"
+    paths = int(inputs["paths"])
+    draws = horizon + 3
+    rand = mulberry32(int(inputs["seed"]))
+    u = np.array([rand() for _ in range(paths * draws * 2)]).reshape(paths, draws, 2)
+
+    def draw(d, k):
+        return sample(d, u[:, k, 0], u[:, k, 1])
+
+    m = draw(dist["margin"], horizon) / 100
+    rate100 = np.maximum(draw(dist["wacc"], horizon + 1), MIN_WACC)
+    growth100 = draw(dist["termGrowth"], horizon + 2)
+    r = rate100 / 100
+    g = (np.minimum(growth100, rate100 - MIN_GORDON_SPREAD) if gordon else growth100) / 100
+    stub = 1 - elapsed
+
+    def period(year):
+        return ((max(year - 1, elapsed) + year) / 2 if s.get("midYear") else year) - elapsed
+
+    def present(year, fcf):
+        return (fcf * stub if year == 1 else fcf) / (1 + r) ** period(year)
+
+    revenue = np.empty((years + 1, paths))
+    revenue[0] = base_revenue
+    pv = np.zeros(paths)
+    rate = np.zeros(paths)
+    for i in range(1, horizon + 1):
+        rate = draw(dist["growth"], i - 1) / 100
+        revenue[i] = revenue[i - 1] * (1 + rate)
+        pv += present(i, revenue[i] * m)
+    for k in range(1, fade_years + 1):
+        revenue[horizon + k] = revenue[horizon + k - 1] * (1 + rate + (g - rate) * k / fade_years)
+        pv += present(horizon + k, revenue[horizon + k] * m)
+
+    last = revenue[-1]
+    if gordon:
+        exit_value = last * m * (1 + g) / (r - g)
+    elif s["terminal"] == "exit-fcf":
+        exit_value = last * m * s["exitMultiple"]
+    else:
+        exit_value = last * s["ebitdaMargin"] / 100 * s["exitMultiple"]
+    terminal_period = years - elapsed - (0.5 if s.get("midYear") and gordon else 0)
+    values = np.sort((pv + exit_value / (1 + r) ** terminal_period - net_debt) / shares)
+
+    fan = []
+    for year in range(years + 1):
+        q = np.percentile(revenue[year], [5, 25, 50, 75, 95])
+        fan.append({"Year": year, "P5": q[0], "P25": q[1], "P50": q[2], "P75": q[3], "P95": q[4]})
+
+    p5, p50, p95 = np.percentile(values, [5, 50, 95])
+    return {
+        "success": True,
+        "fan": fan,
+        "values": values.tolist(),
+        "p5": float(p5),
+        "p50": float(p50),
+        "p95": float(p95),
+        "mean": float(values.mean()),
+    }
+`;
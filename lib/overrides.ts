@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FinancialRecord, ForecastOverride, OverrideLogEntry } from '../types';
+import { SeriesOptions } from './dcf';
+import { PROJECTION_YEARS, ProjectionRow } from './drivers';
+import { ForecastModel, ForecastSeries, fitForecast, toForecastRows } from './forecast';
+import { futurePeriods } from './periods';
+
+// --- ANALYST OVERRIDES ---
+// An override replaces the model's value for one forecast period of one metric, typically with
+// management guidance. Overrides are applied on top of whatever the forecast engine returns, so they
+// survive re-runs, model changes and Python/JS fallbacks; periods that drop out of the horizon simply
+// stop being applied. Every change is appended to a log recording who made it and when.
+//
+// Overridden rows keep the model's value in `Model` and the model's cone, so the chart can show how far
+// the analyst moved away from the statistical line.
+
+const ANALYST_KEY = 'finmetrics.analyst';
+
+const sameYear = (a: number, b: number) => Math.abs(a - b) < 1e-6;
+
+export const findOverride = (overrides: ForecastOverride[], metric: string, year: number) =>
+    overrides.find(o => o.metric === metric && sameYear(o.year, year));
+
+export const applyOverrides = (series: ForecastSeries[], overrides: ForecastOverride[]): ForecastSeries[] =>
+    overrides.length === 0 ? series : series.map(ser => ({
+        ...ser,
+        rows: ser.rows.map(row => {
+            const o = row.Historical === null && row.Forecast !== null ? findOverride(overrides, ser.metric, row.Year) : undefined;
+            return o ? { ...row, Forecast: o.value, Model: row.Forecast!, Note: o.note } : row;
+        }),
+    }));
+
+export interface OverrideChange {
+  metric: string;
+  year: number;
+  value: number | null; // null clears the override
+  note?: string;
+}
+
+// Applies one change and logs it. A change that alters nothing (same value and note) is not logged.
+export const setOverride = (
+    overrides: ForecastOverride[],
+    log: OverrideLogEntry[],
+    change: OverrideChange,
+    analyst: string
+): { overrides: ForecastOverride[]; log: OverrideLogEntry[] } => {
+    const existing = findOverride(overrides, change.metric, change.year);
+    const note = change.note?.trim() || undefined;
+    if (change.value === null ? !existing : existing && existing.value === change.value && existing.note === note) {
+        return { overrides, log };
+    }
+
+    const rest = overrides.filter(o => o !== existing);
+    const entry: OverrideLogEntry = {
+        at: new Date().toISOString(),
+        analyst: analyst.trim() || 'Analyst',
+        metric: change.metric,
+        year: change.year,
+        previous: existing ? existing.value : null,
+        value: change.value,
+        note,
+    };
+    return {
+        overrides: change.value === null ? rest : [...rest, { metric: change.metric, year: change.year, value: change.value, note }],
+        log: [...log, entry],
+    };
+};
+
+// Per projection year, the total by which overrides move Free Cash Flow away from the model: the sum over
+// the year's periods, or for a TTM series the year-end period alone. `lastActual` is the last period of
+// the dataset, the one projection year 1 starts after; overrides beyond `years` are outside the projection.
+export const fcfOverrideDeltas = (series: ForecastSeries | undefined, lastActual: number, { periodsPerYear, ttm }: SeriesOptions, years = PROJECTION_YEARS): number[] => {
+    const deltas = Array.from({ length: years }, () => 0);
+    series?.rows.forEach(row => {
+        if (row.Model === undefined || row.Forecast === null) return;
+        const k = Math.round((row.Year - lastActual) * periodsPerYear);
+        const year = Math.ceil(k / periodsPerYear) - 1;
+        if (k < 1 || year >= years || (ttm && k % periodsPerYear !== 0)) return;
+        deltas[year] += row.Forecast - row.Model;
+    });
+    return deltas;
+};
+
+// fcfOverrideDeltas for a dataset whose forecast is not on screen (another workspace entity): fits Free
+// Cash Flow with the JS engine, rounded as App's forecast rows are, and applies the overrides to it. Like
+// App, overrides only move the DCF while Free Cash Flow is among the forecast metrics.
+export const recordsFcfOverrideDeltas = (
+    records: FinancialRecord[],
+    overrides: ForecastOverride[],
+    forecast: { metrics: string[]; model: ForecastModel; horizon: number },
+    options: SeriesOptions,
+    years = PROJECTION_YEARS
+): number[] => {
+    const none = Array.from({ length: years }, () => 0);
+    const metric = 'Free Cash Flow';
+    if (!forecast.metrics.includes(metric) || !overrides.some(o => o.metric === metric)) return none;
+    const points = records.filter(d => d[metric] !== undefined && d[metric] !== null);
+    if (!points.length) return none;
+
+    const steps = forecast.horizon * options.periodsPerYear;
+    const fit = fitForecast(points.map(d => d.Year), points.map(d => d[metric] as number), forecast.model, steps, options.periodsPerYear);
+    if (!fit.success) return none;
+    const future = futurePeriods(points[points.length - 1].Year, steps, options.periodsPerYear)
+        .map((Year, i) => ({ Year, Forecast: Math.round(fit.predictions[i]), High: null, Low: null }));
+    const [series] = applyOverrides([{ metric, rows: toForecastRows(records, metric, future) }], overrides);
+    return fcfOverrideDeltas(series, records[records.length - 1].Year, options, years);
+};
+
+export const withFcfOverrides = (rows: ProjectionRow[], deltas: number[]): ProjectionRow[] =>
+    deltas.every(d => d === 0) ? rows : rows.map((r, i) => deltas[i]
+        ? { ...r, Override: deltas[i], 'Free Cash Flow': r['Free Cash Flow'] + deltas[i] }
+        : r
+    );
+
+// --- ANALYST NAME ---
+// Remembered per browser so the log attributes changes without a sign-in
+
+export const loadAnalyst = (): string => {
+    try {
+        return localStorage.getItem(ANALYST_KEY) || '';
+    } catch {
+        return '';
+    }
+};
+
+export const saveAnalyst = (name: string) => {
+    try {
+        localStorage.setItem(ANALYST_KEY, name);
+    } catch {
+        // Storage unavailable (private mode); the name lasts for the session only
+    }
+};
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- ENGINE PARITY ---
+// Every model exists twice, as a NumPy script and as a JS fallback. In parity mode both engines run on
+// the same inputs and their outputs are diffed field by field, so a fallback that has drifted from the
+// kernel is caught before anyone relies on it. Numbers match within a per-field tolerance; strings and
+// booleans must be identical; null, undefined and a missing key are treated as the same thing.
+
+export type ParityJob = 'Forecast' | 'Valuation' | 'Monte Carlo';
+
+// A number matches when |python - js| <= max(abs, rel * max(|python|, |js|))
+export interface Tolerance {
+  abs: number;
+  rel: number;
+}
+
+const EXACT_FLOAT: Tolerance = { abs: 1e-9, rel: 1e-9 };
+
+// Keyed by the field's own name, wherever it sits in the output. Unlisted fields use EXACT_FLOAT.
+export const PARITY_TOLERANCES: Record<ParityJob, Record<string, Tolerance>> = {
+    // Forecast values are rounded to whole units by both engines; a float landing on .5 may round either way
+    Forecast: {
+        Forecast: { abs: 1, rel: 0 },
+        High: { abs: 1, rel: 0 },
+        Low: { abs: 1, rel: 0 },
+        Confidence: { abs: 1, rel: 0 },
+        Historical: { abs: 0, rel: 0 },
+        pValue: { abs: 1e-9, rel: 1e-6 },
+    },
+    Valuation: {
+        sharePrice: { abs: 1e-6, rel: 1e-9 },
+    },
+    // Same seeded generator in both engines; only floating point summation order differs
+    'Monte Carlo': {},
+};
+
+export interface ParityMismatch {
+  field: string; // Path into the output, e.g. "[0].rows[6].Forecast"
+  python: unknown;
+  js: unknown;
+}
+
+export interface ParityReport {
+  job: ParityJob;
+  checked: number; // Leaf fields compared
+  mismatches: ParityMismatch[];
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const within = (a: number, b: number, t: Tolerance) => {
+    if (Number.isNaN(a) || Number.isNaN(b)) return Number.isNaN(a) && Number.isNaN(b);
+    if (a === b) return true;
+    return Math.abs(a - b) <= Math.max(t.abs, t.rel * Math.max(Math.abs(a), Math.abs(b)));
+};
+
+export const compareEngines = (job: ParityJob, python: unknown, js: unknown): ParityReport => {
+    const tolerances = PARITY_TOLERANCES[job];
+    const report: ParityReport = { job, checked: 0, mismatches: [] };
+
+    const walk = (a: unknown, b: unknown, path: string, key: string) => {
+        if (a === undefined) a = null;
+        if (b === undefined) b = null;
+        if (Array.isArray(a) && Array.isArray(b)) {
+            if (a.length !== b.length) {
+                report.checked++;
+                report.mismatches.push({ field: `${path}.length`, python: a.length, js: b.length });
+            }
+            // Elements of an array inherit the array's key, so e.g. Confidence bounds use its tolerance
+            for (let i = 0; i < Math.min(a.length, b.length); i++) walk(a[i], b[i], `${path}[${i}]`, key);
+            return;
+        }
+        if (isObject(a) && isObject(b)) {
+            new Set([...Object.keys(a), ...Object.keys(b)]).forEach(k => walk(a[k], b[k], path ? `${path}.${k}` : k, k));
+            return;
+        }
+        report.checked++;
+        const same = typeof a === 'number' && typeof b === 'number' ? within(a, b, tolerances[key] || EXACT_FLOAT) : a === b;
+        if (!same) report.mismatches.push({ field: path || '(root)', python: a, js: b });
+    };
+
+    walk(python, js, '', '');
+    return report;
+};
+
+// One line per report for the SystemConsole, listing the first few mismatches
+export const describeParity = (report: ParityReport, limit = 5): string => {
+    if (report.mismatches.length === 0) return `Parity OK: ${report.job} (${report.checked} fields within tolerance)`;
+    const shown = report.mismatches.slice(0, limit).map(m => `${m.field} python=${JSON.stringify(m.python)} js=${JSON.stringify(m.js)}`);
+    const more = report.mismatches.length > limit ? `; +${report.mismatches.length - limit} more` : '';
+    return `Parity Error: ${report.job}, ${report.mismatches.length} of ${report.checked} fields differ: ${shown.join('; ')}${more}`;
+};
@@ -0,0 +1,260 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FinancialRecord } from '../types';
+
+// --- PERIOD MODEL ---
+// Annual records carry only a fiscal `Year`. Sub-annual records carry the calendar `Year` and `Month`
+// of the period end plus `PeriodMonths` (1 = monthly, 3 = quarterly). Fiscal assignment happens at view
+// time so the fiscal year-end can be changed without re-importing.
+//
+// The view series keys every row on a numeric time index in `Year`: the fiscal year plus the fraction
+// of the year elapsed before the period (FY2024 Q3 -> 2024.5). Regressions and charts use it as-is;
+// `formatPeriod` turns it back into a label.
+
+export type Granularity = 'annual' | 'quarterly' | 'monthly';
+export type Rollup = 'periodic' | 'ttm';
+
+export interface PeriodSettings {
+  granularity: Granularity;
+  rollup: Rollup;
+  fiscalYearEnd: number; // Calendar month the fiscal year ends in, 1-12
+  flowColumns?: string[]; // Extra columns the user marks as flows, summed like FLOW_FIELDS
+}
+
+// Period totals, summed when periods are aggregated. Every other column is a balance, count or ratio and
+// takes its period-end value instead.
+export const FLOW_FIELDS = ['Revenue', 'Net Income', 'Free Cash Flow', 'Budget'];
+
+export const DEFAULT_PERIOD_SETTINGS: PeriodSettings = { granularity: 'annual', rollup: 'periodic', fiscalYearEnd: 12 };
+
+export const PERIODS_PER_YEAR: Record<Granularity, number> = { annual: 1, quarterly: 4, monthly: 12 };
+
+// Extracts a fiscal year from labels like 2021, "FY2021", "FY 21", "2021A" or "2021E".
+export const parseYearLabel = (raw: string | number | null | undefined): number | null => {
+    if (raw === null || raw === undefined) return null;
+    if (typeof raw === 'number') return Number.isInteger(raw) && raw > 1900 && raw < 2200 ? raw : null;
+    const s = raw.trim();
+    const full = s.match(/(?:^|\D)((?:19|20|21)\d{2})(?:\D|$)/);
+    if (full) return Number(full[1]);
+    const short = s.match(/^FY\s*'?(\d{2})$/i);
+    if (short) return 2000 + Number(short[1]);
+    return null;
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const PERIOD_FIELDS = new Set(['Year', 'Month', 'PeriodMonths']);
+
+export interface ParsedPeriod {
+  Year: number;
+  Month?: number;
+  PeriodMonths?: number;
+}
+
+const fullYear = (y: string) => (y.length === 2 ? 2000 + Number(y) : Number(y));
+
+// Calendar month in which fiscal quarter `q` of fiscal year `fy` ends.
+const fiscalQuarterEnd = (fy: number, q: number, fye: number): ParsedPeriod => {
+    const month = ((fye + 3 * q - 1) % 12) + 1;
+    return { Year: month > fye ? fy - 1 : fy, Month: month, PeriodMonths: 3 };
+};
+
+const excelSerialToDate = (serial: number): ParsedPeriod => {
+    const d = new Date(Math.round((serial - 25569) * 86400 * 1000));
+    return { Year: d.getUTCFullYear(), Month: d.getUTCMonth() + 1 };
+};
+
+/**
+ * Reads a period label: fiscal years ("FY2024"), quarters ("Q1 2024", "2024Q1", "Q1 FY24"),
+ * months ("Mar 2024", "2024-03") and dates ("2024-03-31", "3/31/2024", Excel date serials).
+ * Calendar quarters/months are kept calendar; "FY" quarters are converted using `fye`.
+ */
+export const parsePeriodLabel = (raw: string | number | null | undefined, fye = 12): ParsedPeriod | null => {
+    if (raw === null || raw === undefined) return null;
+    if (typeof raw === 'number') {
+        if (raw > 20000 && raw < 80000) return excelSerialToDate(raw);
+        const y = parseYearLabel(raw);
+        return y === null ? null : { Year: y };
+    }
+
+    const s = raw.trim();
+    let m: RegExpMatchArray | null;
+
+    if ((m = s.match(/^Q([1-4])\s*[-\s]?\s*FY\s*'?(\d{4}|\d{2})$/i))) {
+        return fiscalQuarterEnd(fullYear(m[2]), Number(m[1]), fye);
+    }
+    if ((m = s.match(/^FY\s*'?(\d{4}|\d{2})\s*[-\s]?\s*Q([1-4])$/i))) {
+        return fiscalQuarterEnd(fullYear(m[1]), Number(m[2]), fye);
+    }
+    if ((m = s.match(/^Q([1-4])\s*[-\s']?\s*(\d{4}|\d{2})$/i))) {
+        return { Year: fullYear(m[2]), Month: Number(m[1]) * 3, PeriodMonths: 3 };
+    }
+    if ((m = s.match(/^(\d{4})\s*[-\s]?\s*Q([1-4])$/i))) {
+        return { Year: Number(m[1]), Month: Number(m[2]) * 3, PeriodMonths: 3 };
+    }
+    if ((m = s.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.]\d{1,2})?(?:[T\s].*)?$/))) {
+        const month = Number(m[2]);
+        if (month >= 1 && month <= 12) return { Year: Number(m[1]), Month: month };
+    }
+    if ((m = s.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/))) {
+        // Prefer month-first (US exports); fall back to day-first when the first part can't be a month
+        const a = Number(m[1]);
+        const b = Number(m[2]);
+        const month = a <= 12 ? a : b;
+        if (month >= 1 && month <= 12) return { Year: Number(m[3]), Month: month };
+    }
+    if ((m = s.match(/^([A-Za-z]{3})[a-z]*\.?[\s\-']*(\d{4}|\d{2})$/))) {
+        const month = MONTHS.indexOf(m[1].toLowerCase()) + 1;
+        if (month > 0) return { Year: fullYear(m[2]), Month: month, PeriodMonths: 1 };
+    }
+
+    const y = parseYearLabel(s);
+    return y === null ? null : { Year: y };
+};
+
+const monthsBetween = (a: ParsedPeriod, b: ParsedPeriod) => (b.Year - a.Year) * 12 + ((b.Month || 12) - (a.Month || 12));
+
+/**
+ * Fills in `PeriodMonths` for dated rows from their spacing. Rows spaced a year apart are collapsed
+ * to fiscal years so a column of 31-Dec dates behaves like a plain Year column.
+ */
+export const normalizePeriods = (records: FinancialRecord[], fye = 12): FinancialRecord[] => {
+    const dated = records.filter(r => r.Month !== undefined);
+    if (dated.length === 0) return records;
+
+    const sorted = [...dated].sort((a, b) => a.Year - b.Year || a.Month - b.Month);
+    const gaps = sorted.slice(1).map((r, i) => monthsBetween(sorted[i], r)).filter(g => g > 0).sort((a, b) => a - b);
+    const spacing = gaps.length ? gaps[Math.floor(gaps.length / 2)] : 12;
+    const inferred = spacing <= 1 ? 1 : spacing <= 3 ? 3 : 12;
+
+    return records.map(r => {
+        if (r.Month === undefined) return r;
+        const months = r.PeriodMonths || inferred;
+        if (months >= 12) {
+            const { Month, PeriodMonths, ...rest } = r;
+            return { ...rest, Year: fiscalYearOf(r.Year, Month, fye) } as FinancialRecord;
+        }
+        return { ...r, PeriodMonths: months };
+    });
+};
+
+export const fiscalYearOf = (year: number, month: number, fye: number) => (month > fye ? year + 1 : year);
+
+// 1-based position of a calendar month within the fiscal year.
+const fiscalMonthOf = (month: number, fye: number) => ((month - fye - 1 + 12) % 12) + 1;
+
+export const nativeGranularity = (data: FinancialRecord[]): Granularity => {
+    const months = Math.min(...data.map(d => d.PeriodMonths || 12));
+    return months <= 1 ? 'monthly' : months <= 3 ? 'quarterly' : 'annual';
+};
+
+// Granularities the data can be shown at: its own, or anything coarser.
+export const availableGranularities = (data: FinancialRecord[]): Granularity[] => {
+    const native = nativeGranularity(data);
+    return native === 'monthly' ? ['monthly', 'quarterly', 'annual'] : native === 'quarterly' ? ['quarterly', 'annual'] : ['annual'];
+};
+
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+
+export const formatPeriod = (t: number, granularity: Granularity): string => {
+    const fy = Math.floor(t + 1e-6);
+    if (granularity === 'annual') return `FY${fy}`;
+    const ppy = PERIODS_PER_YEAR[granularity];
+    const idx = Math.round((t - fy) * ppy) + 1;
+    const short = String(fy).slice(-2);
+    return granularity === 'quarterly' ? `Q${idx} FY${short}` : `M${String(idx).padStart(2, '0')} FY${short}`;
+};
+
+// Folds one period into an aggregate; records must arrive in time order so the last one is the period end
+const aggregateInto = (target: Record<string, number>, src: FinancialRecord, flows: Set<string>) => {
+    Object.keys(src).forEach(k => {
+        if (PERIOD_FIELDS.has(k) || typeof src[k] !== 'number') return;
+        target[k] = flows.has(k) ? (target[k] || 0) + src[k] : src[k];
+    });
+};
+
+export interface PeriodView {
+  records: FinancialRecord[];
+  granularity: Granularity;
+  periodsPerYear: number;
+  dropped: number; // Incomplete buckets, and annual rows a sub-annual view cannot split, excluded from the view
+}
+
+/**
+ * Buckets the raw records into the chosen granularity and optionally rolls them into trailing-twelve-month
+ * figures. Flows (FLOW_FIELDS plus `flowColumns`) are summed; any other column takes the value of the last
+ * period in the bucket or window, so a balance or ratio is never multiplied by the number of periods. Buckets missing any underlying month are dropped rather than shown
+ * understated. Annual rows mixed into sub-annual data (older years reported only annually) pass straight
+ * into the annual view, taking precedence over any sub-annual bucket for the same fiscal year; finer views
+ * cannot split them and drop them.
+ */
+export const toPeriodView = (data: FinancialRecord[], settings: PeriodSettings): PeriodView => {
+    const available = availableGranularities(data);
+    const granularity = available.includes(settings.granularity) ? settings.granularity : available[0];
+    const ppy = PERIODS_PER_YEAR[granularity];
+    const bucketMonths = 12 / ppy;
+    const fye = settings.fiscalYearEnd;
+
+    if (nativeGranularity(data) === 'annual') {
+        const records = [...data].sort((a, b) => a.Year - b.Year);
+        return { records, granularity: 'annual', periodsPerYear: 1, dropped: 0 };
+    }
+
+    const annualRows = data.filter(r => r.Month === undefined);
+    const annualYears = new Set(annualRows.map(r => r.Year));
+
+    // Group into buckets keyed by time index, in time order so non-flows end on their period-end value
+    const flows = new Set([...FLOW_FIELDS, ...(settings.flowColumns || [])]);
+    const buckets = new Map<number, { sums: Record<string, number>, months: number }>();
+    const ordered = data.filter(r => r.Month !== undefined).sort((a, b) => a.Year - b.Year || a.Month! - b.Month!);
+    ordered.forEach(r => {
+        const fy = fiscalYearOf(r.Year, r.Month!, fye);
+        const fm = fiscalMonthOf(r.Month!, fye);
+        const slot = Math.floor((fm - 1) / bucketMonths);
+        const t = round4(fy + slot / ppy);
+        const bucket = buckets.get(t) || { sums: {}, months: 0 };
+        aggregateInto(bucket.sums, r, flows);
+        bucket.months += r.PeriodMonths || 1;
+        buckets.set(t, bucket);
+    });
+
+    const keys = [...buckets.keys()].sort((a, b) => a - b);
+    let dropped = 0;
+    let records: FinancialRecord[] = [];
+    keys.forEach(t => {
+        const b = buckets.get(t)!;
+        if (b.months < bucketMonths || (granularity === 'annual' && annualYears.has(t))) {
+            dropped++;
+            return;
+        }
+        records.push({ ...b.sums, Year: t } as FinancialRecord);
+    });
+    if (granularity === 'annual') {
+        records = [...records, ...annualRows].sort((a, b) => a.Year - b.Year);
+    } else {
+        dropped += annualRows.length;
+    }
+
+    if (settings.rollup === 'ttm' && ppy > 1) {
+        const rolled: FinancialRecord[] = [];
+        records.forEach((r, i) => {
+            if (i < ppy - 1) return;
+            const window = records.slice(i - ppy + 1, i + 1);
+            // Only roll contiguous windows
+            if (Math.round(window[window.length - 1].Year * ppy) - Math.round(window[0].Year * ppy) !== ppy - 1) return;
+            const sums: Record<string, number> = {};
+            window.forEach(w => aggregateInto(sums, w, flows));
+            rolled.push({ ...sums, Year: r.Year } as FinancialRecord);
+        });
+        dropped += records.length - rolled.length;
+        records = rolled;
+    }
+
+    return { records, granularity, periodsPerYear: ppy, dropped };
+};
+
+// Time indices for the next `count` periods after `last`.
+export const futurePeriods = (last: number, count: number, periodsPerYear: number): number[] =>
+    Array.from({ length: count }, (_, i) => round4(last + (i + 1) / periodsPerYear));
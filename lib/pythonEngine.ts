@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// --- PYTHON ENGINE ---
+// Pyodide runs in a dedicated worker (lib/pythonWorker.ts) so model runs never block the UI. Jobs are
+// submitted on a named channel, one per kind of computation ("Forecast", "Valuation", ...), and only the
+// newest job on a channel matters: submitting a job supersedes the previous one. A superseded job that is
+// still queued is dropped by the worker; one that is already running cannot be interrupted (that needs a
+// cross-origin isolated page), so it runs to completion and its result is discarded. Either way the
+// caller of the superseded job gets `{ success: false, cancelled: true }` immediately.
+
+export type EngineStatus = 'loading' | 'ready' | 'error';
+
+export interface JobResult {
+  success: boolean;
+  cancelled?: boolean; // Superseded before its result was used
+  output?: string;     // The script's JSON result
+  ms?: number;         // Run time, excluding time in the queue
+  error?: string;
+}
+
+// Main thread -> worker
+export type EngineRequest =
+  | { type: 'init' }
+  | { type: 'run'; id: number; channel: string; script: string }
+  | { type: 'cancel'; id: number };
+
+// Worker -> main thread. `waited` and `ms` are milliseconds in the queue and running.
+export type EngineEvent =
+  | { type: 'status'; status: EngineStatus; message?: string }
+  | { type: 'log'; message: string }
+  | { type: 'queued'; id: number; ahead: number }
+  | { type: 'started'; id: number; waited: number }
+  | { type: 'done'; id: number; output: string; ms: number }
+  | { type: 'failed'; id: number; error: string; ms: number }
+  | { type: 'dropped'; id: number };
+
+// Pyodide and NumPy come from a CDN; give up on the engine (and use the JS fallbacks) if they take longer
+const BOOT_TIMEOUT_MS = 60000;
+
+interface PendingJob {
+  channel: string;
+  resolve: (result: JobResult) => void;
+}
+
+interface EngineState {
+  worker: Worker;
+  nextId: number;
+  pending: Map<number, PendingJob>;
+  latest: Map<string, number>; // Channel -> id of its newest job
+}
+
+/**
+ * Starts the worker for the lifetime of the component. `log` receives boot messages and per-job
+ * progress and timings for the SystemConsole.
+ */
+export const usePythonEngine = (log: (message: string) => void) => {
+    const [status, setStatus] = useState<EngineStatus>('loading');
+    const engineRef = useRef<EngineState | null>(null);
+    const logRef = useRef(log);
+    logRef.current = log;
+
+    useEffect(() => {
+        const worker = new Worker(new URL('./pythonWorker.ts', import.meta.url), { type: 'module' });
+        const engine: EngineState = { worker, nextId: 0, pending: new Map(), latest: new Map() };
+        engineRef.current = engine;
+        const say = (message: string) => logRef.current(message);
+        const tag = (id: number) => `Job #${id} (${engine.pending.get(id)?.channel ?? 'stale'})`;
+        const settle = (id: number, result: JobResult) => {
+            engine.pending.get(id)?.resolve(result);
+            engine.pending.delete(id);
+        };
+
+        const fail = (message: string) => {
+            setStatus('error');
+            say(`Critical Error: ${message}`);
+            engine.pending.forEach(job => job.resolve({ success: false, error: message }));
+            engine.pending.clear();
+        };
+        const bootTimer = setTimeout(() => fail('Timeout: Python runtime did not start'), BOOT_TIMEOUT_MS);
+
+        worker.onmessage = (e: MessageEvent<EngineEvent>) => {
+            const event = e.data;
+            switch (event.type) {
+                case 'status':
+                    clearTimeout(bootTimer);
+                    if (event.status === 'error') fail(event.message || 'Python runtime failed to start');
+                    else setStatus(event.status);
+                    if (event.status === 'ready') say('Kernel ready for execution (worker thread)');
+                    break;
+                case 'log':
+                    say(event.message);
+                    break;
+                case 'queued':
+                    if (event.ahead > 0 && engine.pending.has(event.id)) say(`${tag(event.id)}: queued behind ${event.ahead} job(s)`);
+                    break;
+                case 'started':
+                    if (engine.pending.has(event.id)) say(`${tag(event.id)}: started after ${Math.round(event.waited)}ms in queue`);
+                    break;
+                case 'done':
+                    if (!engine.pending.has(event.id)) {
+                        say(`Job #${event.id}: finished in ${Math.round(event.ms)}ms, result discarded (superseded)`);
+                        break;
+                    }
+                    say(`${tag(event.id)}: finished in ${Math.round(event.ms)}ms`);
+                    settle(event.id, { success: true, output: event.output, ms: event.ms });
+                    break;
+                case 'failed':
+                    settle(event.id, { success: false, error: event.error });
+                    break;
+                case 'dropped':
+                    settle(event.id, { success: false, cancelled: true });
+                    break;
+            }
+        };
+        worker.onerror = (e: ErrorEvent) => {
+            clearTimeout(bootTimer);
+            fail(e.message || 'Python worker crashed');
+        };
+        worker.postMessage({ type: 'init' } satisfies EngineRequest);
+
+        return () => {
+            clearTimeout(bootTimer);
+            worker.terminate();
+            engine.pending.forEach(job => job.resolve({ success: false, cancelled: true }));
+            engineRef.current = null;
+        };
+    }, []);
+
+    // Submits a script whose last expression is a JSON string, superseding the channel's previous job
+    const run = useCallback((channel: string, script: string): Promise<JobResult> => {
+        const engine = engineRef.current;
+        if (!engine) return Promise.resolve({ success: false, error: 'Python engine is not running' });
+
+        const id = ++engine.nextId;
+        const previous = engine.latest.get(channel);
+        if (previous !== undefined && engine.pending.has(previous)) {
+            logRef.current(`Job #${previous} (${channel}): cancelled, superseded by #${id}`);
+            engine.pending.get(previous)!.resolve({ success: false, cancelled: true });
+            engine.pending.delete(previous);
+            engine.worker.postMessage({ type: 'cancel', id: previous } satisfies EngineRequest);
+        }
+        engine.latest.set(channel, id);
+
+        return new Promise(resolve => {
+            engine.pending.set(id, { channel, resolve });
+            engine.worker.postMessage({ type: 'run', id, channel, script } satisfies EngineRequest);
+        });
+    }, []);
+
+    return { status, run };
+};
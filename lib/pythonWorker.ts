@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { EngineEvent, EngineRequest } from './pythonEngine';
+
+// --- PYODIDE WORKER ---
+// Owns the Pyodide runtime and runs one job at a time from a FIFO queue. A newer job on a channel
+// replaces that channel's queued job, so a burst of slider moves costs at most one extra run.
+// See lib/pythonEngine for the main-thread side.
+
+const PYODIDE_URL = 'https://cdn.jsdelivr.net/pyodide/v0.23.4/full/pyodide.mjs';
+
+interface QueuedJob {
+  id: number;
+  channel: string;
+  script: string;
+  queuedAt: number;
+}
+
+const post = (event: EngineEvent) => self.postMessage(event);
+
+let pyodide: any = null;
+let running = false;
+const queue: QueuedJob[] = [];
+
+const boot = async () => {
+    try {
+        post({ type: 'log', message: 'Initializing Pyodide runtime...' });
+        const { loadPyodide } = await import(/* @vite-ignore */ PYODIDE_URL);
+        const runtime = await loadPyodide();
+        post({ type: 'log', message: 'Python WASM loaded successfully' });
+        runtime.setStdout({ batched: (line: string) => post({ type: 'log', message: `[python] ${line}` }) });
+
+        post({ type: 'log', message: 'Loading NumPy package...' });
+        await runtime.loadPackage('numpy');
+        post({ type: 'log', message: 'NumPy library loaded' });
+
+        pyodide = runtime;
+        post({ type: 'status', status: 'ready' });
+        drain();
+    } catch (e: any) {
+        post({ type: 'status', status: 'error', message: e.message });
+    }
+};
+
+const drain = async () => {
+    if (running || !pyodide) return;
+    const job = queue.shift();
+    if (!job) return;
+
+    running = true;
+    const started = performance.now();
+    post({ type: 'started', id: job.id, waited: started - job.queuedAt });
+    try {
+        const output = await pyodide.runPythonAsync(job.script);
+        post({ type: 'done', id: job.id, output: String(output), ms: performance.now() - started });
+    } catch (e: any) {
+        post({ type: 'failed', id: job.id, error: e.message, ms: performance.now() - started });
+    }
+    running = false;
+    drain();
+};
+
+const drop = (match: (job: QueuedJob) => boolean) => {
+    for (let i = queue.length - 1; i >= 0; i--) {
+        if (!match(queue[i])) continue;
+        post({ type: 'dropped', id: queue[i].id });
+        queue.splice(i, 1);
+    }
+};
+
+self.onmessage = (e: MessageEvent<EngineRequest>) => {
+    const request = e.data;
+    switch (request.type) {
+        case 'init':
+            boot();
+            break;
+        case 'run':
+            drop(job => job.channel === request.channel);
+            queue.push({ id: request.id, channel: request.channel, script: request.script, queuedAt: performance.now() });
+            post({ type: 'queued', id: request.id, ahead: queue.length - 1 + (running ? 1 : 0) });
+            drain();
+            break;
+        case 'cancel':
+            drop(job => job.id === request.id);
+            break;
+    }
+};
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- STUDENT'S t DISTRIBUTION ---
+// Neither NumPy nor the browser ships a t quantile, so both engines share this exact closed form for
+// integer degrees of freedom (Abramowitz & Stegun 26.7.3/26.7.4) inverted by bisection. STATS_PY is the
+// Python twin; keep the two in step.
+
+// P(|T| < t) for T ~ t(dof), dof a positive integer
+export const tTwoSidedCdf = (t: number, dof: number): number => {
+    const theta = Math.atan(Math.abs(t) / Math.sqrt(dof));
+    const c2 = Math.cos(theta) ** 2;
+    const s = Math.sin(theta);
+    let sum = 1;
+    let term = 1;
+    if (dof % 2 === 1) {
+        if (dof === 1) return (2 / Math.PI) * theta;
+        for (let k = 3; k <= dof - 2; k += 2) {
+            term *= c2 * (k - 1) / k;
+            sum += term;
+        }
+        return (2 / Math.PI) * (theta + s * Math.cos(theta) * sum);
+    }
+    for (let k = 2; k <= dof - 2; k += 2) {
+        term *= c2 * (k - 1) / k;
+        sum += term;
+    }
+    return s * sum;
+};
+
+// Critical value t such that P(|T| < t) = confidence, e.g. tCritical(0.95, 10) = 2.228
+export const tCritical = (confidence: number, dof: number): number => {
+    let lo = 0, hi = 1000;
+    for (let i = 0; i < 100; i++) {
+        const mid = (lo + hi) / 2;
+        if (tTwoSidedCdf(mid, dof) < confidence) lo = mid;
+        else hi = mid;
+    }
+    return (lo + hi) / 2;
+};
+
+export const STATS_PY = `
+import math
+
+def t_two_sided_cdf(t, dof):
+    theta = math.atan(abs(t) / math.sqrt(dof))
+    c2 = math.cos(theta) ** 2
+    s = math.sin(theta)
+    total = 1.0
+    term = 1.0
+    if dof % 2 == 1:
+        if dof == 1:
+            return (2 / math.pi) * theta
+        for k in range(3, dof - 1, 2):
+            term *= c2 * (k - 1) / k
+            total += term
+        return (2 / math.pi) * (theta + s * math.cos(theta) * total)
+    for k in range(2, dof - 1, 2):
+        term *= c2 * (k - 1) / k
+        total += term
+    return s * total
+
+def t_critical(confidence, dof):
+    lo, hi = 0.0, 1000.0
+    for _ in range(100):
+        mid = (lo + hi) / 2
+        if t_two_sided_cdf(mid, dof) < confidence:
+            lo = mid
+        else:
+            hi = mid
+    return (lo + hi) / 2
+`;
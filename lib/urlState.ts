@@ -0,0 +1,240 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FinancialRecord, DCFAssumptions, DCFStructure, DriverSchedule, ForecastOverride } from '../types';
+import { PeriodSettings } from './periods';
+import { ForecastModel, FORECAST_MODELS, ConeMode, CONFIDENCE_LEVELS, MAX_FORECAST_HORIZON } from './forecast';
+import { TERMINAL_METHODS, MAX_HORIZON, DEFAULT_DCF_STRUCTURE, fiscalTime, validateStructure } from './dcf';
+import { DRIVER_FIELDS } from './drivers';
+
+// --- SHAREABLE URL STATE ---
+// Dashboard view state lives in the URL hash (never sent to a server) as short query-style keys, e.g.
+// #tab=valuation&metric=Revenue&also=Net+Income&model=holt&h=5&s=10&wacc=9.5&g=2&debt=150&shares=50. Share links may
+// also carry the dataset as deflated, base64url-encoded JSON when it is small enough to keep the link
+// usable. The dataset payload also holds the edited drivers and analyst overrides, which only make sense
+// against that dataset; a link without it carries neither.
+
+export const MAX_EMBEDDED_DATA_CHARS = 6000;
+
+export interface UrlState {
+  tab?: string;
+  forecast: Partial<{ metric: string; extraMetrics: string[]; horizon: number; sensitivity: number; model: ForecastModel; cone: ConeMode; confidence: number }>;
+  assumptions: Partial<DCFAssumptions>;
+  structure: Partial<DCFStructure>;
+  periodSettings: Partial<PeriodSettings>;
+  data?: FinancialRecord[];
+  drivers?: DriverSchedule;      // Only with `data`; absent = fitted from history
+  overrides?: ForecastOverride[]; // Only with `data`
+}
+
+// What travels in the embedded payload
+export interface EmbeddedDataset {
+  records: FinancialRecord[];
+  drivers: DriverSchedule | null;
+  overrides: ForecastOverride[];
+}
+
+export interface UrlStateResult {
+  state: UrlState;
+  errors: string[];
+}
+
+// Hash key -> where the value lands
+export const NUMERIC_KEYS = {
+    h: ['forecast', 'horizon'],
+    s: ['forecast', 'sensitivity'],
+    ci: ['forecast', 'confidence'],
+    wacc: ['assumptions', 'wacc'],
+    g: ['assumptions', 'termGrowth'],
+    debt: ['assumptions', 'netDebt'],
+    shares: ['assumptions', 'shares'],
+    hz: ['structure', 'horizon'],
+    fade: ['structure', 'fadeYears'],
+    exit: ['structure', 'exitMultiple'],
+    ebm: ['structure', 'ebitdaMargin'],
+    fye: ['periodSettings', 'fiscalYearEnd'],
+} as const;
+
+// Bounds a number must meet before it is applied, as the UI controls enforce them. Model files are held to the
+// same bounds (see validateModel in lib/modelFile).
+export const NUMERIC_RANGES: Partial<Record<keyof typeof NUMERIC_KEYS, [(v: number) => boolean, string]>> = {
+    h: [v => Number.isInteger(v) && v >= 1 && v <= MAX_FORECAST_HORIZON, `expected a whole number of years from 1 to ${MAX_FORECAST_HORIZON}`],
+    s: [v => v >= 0, 'expected a spread of 0% or more'],
+    ci: [v => CONFIDENCE_LEVELS.includes(v), `confidence must be one of ${CONFIDENCE_LEVELS.join(', ')}`],
+    wacc: [v => v > 0, 'WACC must be positive'],
+    shares: [v => v > 0, 'share count must be positive'],
+    fye: [v => Number.isInteger(v) && v >= 1 && v <= 12, 'expected a month number 1-12'],
+};
+
+export const encodeUrlState = (state: Omit<UrlState, 'data'>, data?: string): string => {
+    const params = new URLSearchParams();
+    if (state.tab) params.set('tab', state.tab);
+    if (state.forecast.metric) params.set('metric', state.forecast.metric);
+    state.forecast.extraMetrics?.forEach(m => params.append('also', m));
+    if (state.forecast.model) params.set('model', state.forecast.model);
+    if (state.forecast.cone) params.set('cone', state.forecast.cone);
+    if (state.structure.terminal) params.set('tv', state.structure.terminal);
+    // `actuals` = value at the end of the last actual period, so a link overrides the recipient's date either way
+    if (state.structure.valuationDate !== undefined) params.set('vd', state.structure.valuationDate ?? 'actuals');
+    if (state.structure.midYear !== undefined) params.set('mid', state.structure.midYear ? '1' : '0');
+    Object.entries(NUMERIC_KEYS).forEach(([key, [group, field]]) => {
+        const value = (state[group] as Record<string, number | undefined>)[field];
+        if (value !== undefined) params.set(key, String(value));
+    });
+    if (state.periodSettings.granularity) params.set('gran', state.periodSettings.granularity);
+    if (state.periodSettings.rollup) params.set('roll', state.periodSettings.rollup);
+    state.periodSettings.flowColumns?.forEach(c => params.append('flow', c));
+    if (data) params.set('data', data);
+    return params.toString();
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+    new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+// Column-oriented JSON (one header list, then value rows) deflates far better than an array of objects
+export const encodeDataset = async ({ records, drivers, overrides }: EmbeddedDataset): Promise<string | null> => {
+    if (typeof CompressionStream === 'undefined' || records.length === 0) return null;
+    const columns = [...new Set(records.flatMap(r => Object.keys(r)))];
+    const json = JSON.stringify({
+        c: columns,
+        r: records.map(r => columns.map(c => r[c] ?? null)),
+        ...(drivers ? { d: drivers } : {}),
+        ...(overrides.length ? { o: overrides } : {}),
+    });
+    const encoded = toBase64Url(await pipeThrough(new TextEncoder().encode(json), new CompressionStream('deflate-raw')));
+    return encoded.length <= MAX_EMBEDDED_DATA_CHARS ? encoded : null;
+};
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+
+const isDriverSchedule = (d: any): d is DriverSchedule =>
+    typeof d === 'object' && d !== null && DRIVER_FIELDS.every(({ id }) =>
+        Array.isArray(d[id]) && d[id].length >= 1 && d[id].length <= MAX_HORIZON && d[id].length === d.growth.length && d[id].every(isNumber));
+
+const isOverride = (o: any): o is ForecastOverride =>
+    typeof o === 'object' && o !== null && typeof o.metric === 'string' && isNumber(o.year) && isNumber(o.value) && (o.note === undefined || typeof o.note === 'string');
+
+const decodeDataset = async (encoded: string): Promise<EmbeddedDataset> => {
+    const json = new TextDecoder().decode(await pipeThrough(fromBase64Url(encoded), new DecompressionStream('deflate-raw')));
+    const { c, r, d, o } = JSON.parse(json);
+    if (!Array.isArray(c) || !Array.isArray(r)) throw new Error('unexpected dataset layout');
+    if (d !== undefined && !isDriverSchedule(d)) throw new Error('malformed driver schedule');
+    if (o !== undefined && !(Array.isArray(o) && o.every(isOverride))) throw new Error('malformed overrides');
+    const records = r.map((row: unknown[]) => {
+        const record: Record<string, number> = {};
+        c.forEach((col: string, i: number) => {
+            if (typeof row[i] === 'number') record[col] = row[i] as number;
+        });
+        if (typeof record.Year !== 'number') throw new Error('row without a Year');
+        return record as FinancialRecord;
+    });
+    return { records, drivers: d ?? null, overrides: o ?? [] };
+};
+
+// Unknown keys are ignored; malformed values are skipped and reported so the rest of the link still applies
+export const readUrlState = async (hash: string): Promise<UrlStateResult> => {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const state: UrlState = { forecast: {}, assumptions: {}, structure: {}, periodSettings: {} };
+    const errors: string[] = [];
+
+    if (params.has('tab')) state.tab = params.get('tab')!;
+    if (params.has('metric')) state.forecast.metric = params.get('metric')!;
+    if (params.has('also')) state.forecast.extraMetrics = params.getAll('also');
+    const model = params.get('model');
+    if (model) {
+        const known = FORECAST_MODELS.find(m => m.id === model);
+        if (known) state.forecast.model = known.id;
+        else errors.push(`model: unknown forecast model "${model}"`);
+    }
+    const cone = params.get('cone');
+    if (cone) {
+        if (cone === 'interval' || cone === 'scenario') state.forecast.cone = cone;
+        else errors.push(`cone: expected "interval" or "scenario", got "${cone}"`);
+    }
+    const tv = params.get('tv');
+    if (tv) {
+        const known = TERMINAL_METHODS.find(m => m.id === tv);
+        if (known) state.structure.terminal = known.id;
+        else errors.push(`tv: unknown terminal value method "${tv}"`);
+    }
+    const vd = params.get('vd');
+    if (vd) {
+        if (vd === 'actuals') state.structure.valuationDate = null;
+        // Any fiscal year end will do: this only checks that it is a real date
+        else if (fiscalTime(vd, 12) !== null) state.structure.valuationDate = vd;
+        else errors.push(`vd: expected a YYYY-MM-DD date or "actuals", got "${vd}"`);
+    }
+    const mid = params.get('mid');
+    if (mid) {
+        if (mid === '0' || mid === '1') state.structure.midYear = mid === '1';
+        else errors.push(`mid: expected 0 or 1, got "${mid}"`);
+    }
+
+    Object.entries(NUMERIC_KEYS).forEach(([key, [group, field]]) => {
+        if (!params.has(key)) return;
+        const value = Number(params.get(key));
+        if (params.get(key) === '' || !isFinite(value)) {
+            errors.push(`${key}: "${params.get(key)}" is not a number`);
+            return;
+        }
+        const range = NUMERIC_RANGES[key as keyof typeof NUMERIC_KEYS];
+        if (range && !range[0](value)) {
+            errors.push(`${key}: ${range[1]}, got "${params.get(key)}"`);
+            return;
+        }
+        (state[group] as Record<string, number>)[field] = value;
+    });
+
+    // DCF stage values go through validateStructure one at a time, against otherwise default stages, so a bad
+    // value drops only its own key. Checking them as an EV/EBITDA exit covers the multiple and margin whatever `tv` says.
+    (['hz', 'fade', 'exit', 'ebm'] as const).forEach(key => {
+        const field = NUMERIC_KEYS[key][1];
+        const value = state.structure[field];
+        if (value === undefined) return;
+        const [problem] = validateStructure({ ...DEFAULT_DCF_STRUCTURE, terminal: 'exit-ebitda', [field]: value });
+        if (problem) {
+            errors.push(`${key}: ${problem}`);
+            delete state.structure[field];
+        }
+    });
+
+    const gran = params.get('gran');
+    if (gran) {
+        if (gran === 'annual' || gran === 'quarterly' || gran === 'monthly') state.periodSettings.granularity = gran;
+        else errors.push(`gran: unknown granularity "${gran}"`);
+    }
+    const roll = params.get('roll');
+    if (roll) {
+        if (roll === 'periodic' || roll === 'ttm') state.periodSettings.rollup = roll;
+        else errors.push(`roll: unknown basis "${roll}"`);
+    }
+    if (params.has('flow')) state.periodSettings.flowColumns = params.getAll('flow');
+
+    const data = params.get('data');
+    if (data) {
+        try {
+            if (typeof DecompressionStream === 'undefined') throw new Error('this browser cannot decompress it');
+            const embedded = await decodeDataset(data);
+            state.data = embedded.records;
+            if (embedded.drivers) state.drivers = embedded.drivers;
+            if (embedded.overrides.length) state.overrides = embedded.overrides;
+        } catch (err: any) {
+            errors.push(`data: embedded dataset could not be read (${err.message})`);
+        }
+    }
+
+    return { state, errors };
+};
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { WaccInputs } from '../types';
+
+// --- WACC BUILDER ---
+// Builds the discount rate from its components instead of taking it as one typed number:
+//
+//   Unlevered beta  = levered beta / (1 + (1 - tax) x D/E at which it was observed)   (Hamada)
+//   Levered beta    = unlevered beta x (1 + (1 - tax) x target D/E)                    (re-levered)
+//   Cost of equity  = risk-free rate + levered beta x equity risk premium              (CAPM)
+//   Cost of debt    = pre-tax cost of debt x (1 - tax)
+//   WACC            = E/(D+E) x cost of equity + D/(D+E) x after-tax cost of debt
+//
+// An unlevered beta (e.g. a sector asset beta) skips the first step. The result feeds the DCF's `wacc`.
+
+export const DEFAULT_WACC_INPUTS: WaccInputs = {
+    riskFreeRate: 4.25,
+    equityRiskPremium: 5.5,
+    beta: 1.1,
+    betaBasis: 'levered',
+    betaDebtWeight: 20,
+    costOfDebt: 6,
+    taxRate: 21,
+    debtWeight: 20,
+};
+
+export interface WaccResult {
+  success: boolean;
+  unleveredBeta: number;
+  leveredBeta: number;         // At the target capital structure
+  debtToEquity: number;        // Target D/E, as a ratio
+  costOfEquity: number;        // %
+  afterTaxCostOfDebt: number;  // %
+  wacc: number;                // %, rounded to the basis point
+  error?: string;
+}
+
+const EMPTY_WACC: WaccResult = { success: false, unleveredBeta: 0, leveredBeta: 0, debtToEquity: 0, costOfEquity: 0, afterTaxCostOfDebt: 0, wacc: 0 };
+
+export const validateWaccInputs = (w: WaccInputs): string[] => {
+    const errors: string[] = [];
+    const numbers: (keyof WaccInputs)[] = ['riskFreeRate', 'equityRiskPremium', 'beta', 'costOfDebt', 'taxRate', 'debtWeight', 'betaDebtWeight'];
+    if (!numbers.every(k => isFinite(w[k] as number))) errors.push('Every WACC input must be a number.');
+    if (!(w.taxRate >= 0 && w.taxRate < 100)) errors.push('Tax rate must be at least 0% and below 100%.');
+    // At 100% debt there is no equity and D/E is infinite
+    if (!(w.debtWeight >= 0 && w.debtWeight < 100)) errors.push('Target debt weight must be at least 0% and below 100%.');
+    if (w.betaBasis === 'levered' && !(w.betaDebtWeight >= 0 && w.betaDebtWeight < 100)) errors.push('Debt weight behind the levered beta must be at least 0% and below 100%.');
+    return errors;
+};
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+export const computeWacc = (w: WaccInputs): WaccResult => {
+    const errors = validateWaccInputs(w);
+    if (errors.length) return { ...EMPTY_WACC, error: errors[0] };
+
+    const t = w.taxRate / 100;
+    const toDebtToEquity = (debtWeight: number) => debtWeight / (100 - debtWeight);
+    const debtToEquity = toDebtToEquity(w.debtWeight);
+    const unleveredBeta = w.betaBasis === 'unlevered' ? w.beta : w.beta / (1 + (1 - t) * toDebtToEquity(w.betaDebtWeight));
+    const leveredBeta = unleveredBeta * (1 + (1 - t) * debtToEquity);
+    const costOfEquity = w.riskFreeRate + leveredBeta * w.equityRiskPremium;
+    const afterTaxCostOfDebt = w.costOfDebt * (1 - t);
+    const wacc = (100 - w.debtWeight) / 100 * costOfEquity + w.debtWeight / 100 * afterTaxCostOfDebt;
+
+    return { success: true, unleveredBeta, leveredBeta, debtToEquity, costOfEquity, afterTaxCostOfDebt, wacc: round2(wacc) };
+};
+
+// Every input and intermediate step, in build-up order, for the builder panel and the Excel export
+export const summarizeWacc = (w: WaccInputs, r: WaccResult): { label: string; value: string }[] => {
+    const pct = (v: number) => `${v.toFixed(2)}%`;
+    return [
+        { label: 'Risk-Free Rate', value: pct(w.riskFreeRate) },
+        { label: 'Equity Risk Premium', value: pct(w.equityRiskPremium) },
+        { label: `Beta (${w.betaBasis})`, value: w.beta.toFixed(2) },
+        ...(w.betaBasis === 'levered' ? [{ label: 'Debt Weight Behind Beta', value: pct(w.betaDebtWeight) }] : []),
+        { label: 'Unlevered Beta', value: r.unleveredBeta.toFixed(3) },
+        { label: 'Target D/E', value: r.debtToEquity.toFixed(3) },
+        { label: 'Re-levered Beta', value: r.leveredBeta.toFixed(3) },
+        { label: 'Cost of Equity', value: pct(r.costOfEquity) },
+        { label: 'Pre-Tax Cost of Debt', value: pct(w.costOfDebt) },
+        { label: 'Tax Rate', value: pct(w.taxRate) },
+        { label: 'After-Tax Cost of Debt', value: pct(r.afterTaxCostOfDebt) },
+        { label: 'Equity Weight', value: pct(100 - w.debtWeight) },
+        { label: 'Debt Weight', value: pct(w.debtWeight) },
+        { label: 'WACC', value: pct(r.wacc) },
+    ];
+};
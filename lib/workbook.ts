@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ParseIssue } from '../types';
+import { coerceNumber, RawTable } from './csv';
+import { parsePeriodLabel } from './periods';
+
+// Cell grid as returned by SheetJS `sheet_to_json(..., { header: 1 })`.
+export type CellGrid = (string | number)[][];
+
+// 'rows'    -> one period per row, metrics across the header (database style)
+// 'columns' -> one metric per row, periods (years, quarters, months, dates) across the header (financial model style)
+export type SheetLayout = 'rows' | 'columns';
+
+export interface SheetImportOptions {
+  sheet: string;
+  range?: string;      // Optional A1-style range, e.g. "B3:H20"
+  headerRow: number;   // 1-based, relative to the range
+  layout: SheetLayout;
+}
+
+export const readWorkbook = (buffer: ArrayBuffer) => {
+    if (!window.XLSX) throw new Error('Spreadsheet reader is still loading');
+    return window.XLSX.read(buffer, { type: 'array' });
+};
+
+export const sheetToGrid = (workbook: any, sheet: string, range?: string): CellGrid => {
+    const ws = workbook.Sheets[sheet];
+    if (!ws) return [];
+    const opts: any = { header: 1, raw: true, defval: '', blankrows: false };
+    if (range && range.trim()) opts.range = range.trim().toUpperCase();
+    return window.XLSX.utils.sheet_to_json(ws, opts) as CellGrid;
+};
+
+// First row that has at least two non-empty cells; title rows above a model are common.
+export const guessHeaderRow = (grid: CellGrid): number => {
+    const idx = grid.findIndex(r => r.filter(c => String(c).trim() !== '').length >= 2);
+    return idx >= 0 ? idx + 1 : 1;
+};
+
+// Periods across the header row means the sheet needs transposing.
+export const detectLayout = (grid: CellGrid, headerRow: number, fiscalYearEnd = 12): SheetLayout => {
+    const header = grid[headerRow - 1] || [];
+    const periodCells = header.filter(c => parsePeriodLabel(c, fiscalYearEnd) !== null).length;
+    const firstCol = grid.slice(headerRow).map(r => r[0]);
+    const periodRows = firstCol.filter(c => parsePeriodLabel(c, fiscalYearEnd) !== null).length;
+    return periodCells >= 2 && periodCells > periodRows ? 'columns' : 'rows';
+};
+
+// Flips a "periods as columns" block so each period becomes a row with a `Year` column. The header label
+// itself goes in that column: tableToRecords reads it with parsePeriodLabel, exactly as for a row-layout
+// sheet, so quarters, months and date serials keep their `Month` and `PeriodMonths`.
+export const transposeToRows = (header: (string | number)[], body: CellGrid, fiscalYearEnd = 12): { headers: string[], body: CellGrid } => {
+    const periodCols = header
+        .map((c, i) => ({ i, label: c, period: parsePeriodLabel(c, fiscalYearEnd) }))
+        .filter(c => c.i > 0 && c.period !== null);
+
+    const metricRows = body.filter(r => String(r[0] ?? '').trim() !== '');
+    const headers = ['Year', ...metricRows.map(r => String(r[0]).trim())];
+    const rows = periodCols.map(({ i, label }) => [label, ...metricRows.map(r => r[i] ?? '')]);
+    return { headers, body: rows };
+};
+
+export const readSheetTable = (workbook: any, opts: SheetImportOptions, fiscalYearEnd = 12): RawTable & { errors: ParseIssue[] } => {
+    const grid = sheetToGrid(workbook, opts.sheet, opts.range);
+    const header = grid[opts.headerRow - 1];
+    if (!header) {
+        return { headers: [], body: [], decimal: '.', errors: [{ row: 0, message: `Header row ${opts.headerRow} is outside the selected range` }] };
+    }
+    const body = grid.slice(opts.headerRow);
+
+    let headers: string[];
+    let rows: CellGrid;
+    if (opts.layout === 'columns') {
+        ({ headers, body: rows } = transposeToRows(header, body, fiscalYearEnd));
+    } else {
+        headers = header.map(h => String(h).trim());
+        rows = body;
+    }
+
+    // Drop trailing rows with no numeric content (footnotes, sources)
+    rows = rows.filter(r => r.some(c => coerceNumber(c) !== null));
+    return { headers, body: rows, decimal: '.', errors: [] };
+};
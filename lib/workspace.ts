@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Entity } from '../types';
+import { PeriodSettings } from './periods';
+import { RuleConfig } from './integrity';
+import { ForecastModel, ConeMode } from './forecast';
+import { SimulationInputs } from './montecarlo';
+import { SensitivitySettings } from './dcf';
+
+// --- WORKSPACE PERSISTENCE ---
+// Everything needed to rebuild the dashboard, stored in the browser's IndexedDB. Nothing leaves the
+// machine.
+
+export interface WorkspaceSnapshot {
+  entities: Entity[];
+  activeEntityId: string;
+  activeTab: string;
+  periodSettings: PeriodSettings;
+  integrityConfig: Record<string, RuleConfig>;
+  forecast: {
+    metric: string;
+    horizon: number;
+    sensitivity: number;
+    // Absent in workspaces saved before these options existed
+    model?: ForecastModel;
+    cone?: ConeMode;
+    confidence?: number;
+    extraMetrics?: string[];
+  };
+  risk: {
+    baseRev: number;
+    baseCost: number;
+  };
+  // Monte Carlo distributions, path count and seed for the active entity; null = fitted defaults.
+  // Absent in workspaces saved before it was stored.
+  simulation?: SimulationInputs | null;
+  // Steps and column axis of the DCF sensitivity table; absent in workspaces saved before it was stored
+  sensitivityTable?: SensitivitySettings;
+}
+
+export interface StoredWorkspace {
+  id: string;
+  name: string;
+  savedAt: string;
+  snapshot: WorkspaceSnapshot;
+}
+
+export const AUTOSAVE_ID = '__autosave__';
+
+const DB_NAME = 'finmetrics';
+const DB_VERSION = 1;
+const STORE = 'workspaces';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        if (!window.indexedDB) {
+            reject(new Error('IndexedDB is not available in this browser'));
+            return;
+        }
+        const req = window.indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+            const db = req.result;
+            if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: 'id' });
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+    // Allow a retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+const request = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDB();
+    return new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(STORE, mode);
+        const req = run(tx.objectStore(STORE));
+        req.onsuccess = () => resolve(req.result as T);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const listWorkspaces = async (): Promise<StoredWorkspace[]> => {
+    const all = await request<StoredWorkspace[]>('readonly', store => store.getAll());
+    return all
+        .filter(w => w.id !== AUTOSAVE_ID)
+        .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const getWorkspace = (id: string) =>
+    request<StoredWorkspace | undefined>('readonly', store => store.get(id));
+
+export const putWorkspace = (workspace: Omit<StoredWorkspace, 'savedAt'>) =>
+    request<IDBValidKey>('readwrite', store => store.put({ ...workspace, savedAt: new Date().toISOString() }));
+
+export const deleteWorkspace = (id: string) =>
+    request<undefined>('readwrite', store => store.delete(id));
+
+// Saves under a new id, or over an existing workspace with the same name
+export const saveNamedWorkspace = async (name: string, snapshot: WorkspaceSnapshot) => {
+    const existing = (await listWorkspaces()).find(w => w.name === name);
+    const id = existing?.id ?? `ws-${Date.now()}`;
+    await putWorkspace({ id, name, snapshot });
+    return id;
+};
+
+export const duplicateWorkspace = async (id: string) => {
+    const source = await getWorkspace(id);
+    if (!source) throw new Error('Workspace not found');
+    const names = new Set((await listWorkspaces()).map(w => w.name));
+    let name = `${source.name} (copy)`;
+    for (let n = 2; names.has(name); n++) name = `${source.name} (copy ${n})`;
+    await putWorkspace({ id: `ws-${Date.now()}`, name, snapshot: source.snapshot });
+};
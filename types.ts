@@ -17,4 +17,97 @@ export interface Laureate {
   image: string; // placeholder url
   role: string;
   desc: string;
-}
\ No newline at end of file
+}
+
+export interface FinancialRecord {
+  Year: number;
+  Revenue: number;
+  'Net Income': number;
+  'Free Cash Flow': number;
+  Budget: number;
+  Month?: number;        // Calendar month of the period end, sub-annual data only
+  PeriodMonths?: number; // 1 = monthly, 3 = quarterly; absent for annual data
+  [key: string]: number | undefined;
+}
+
+// A problem found while ingesting a file. `row` is 1-based and counts data rows (header excluded).
+export interface ParseIssue {
+  row: number;
+  column?: string;
+  message: string;
+}
+
+export type TerminalMethod = 'gordon' | 'exit-fcf' | 'exit-ebitda';
+
+// Stage layout and timing of the DCF (see lib/dcf)
+export interface DCFStructure {
+  horizon: number;        // Explicit forecast years, projected from the drivers (stage 1)
+  fadeYears: number;      // Stage 2: years over which growth converges to terminal growth; 0 = none
+  terminal: TerminalMethod;
+  exitMultiple: number;   // x, for the exit-multiple methods
+  ebitdaMargin: number;   // %, terminal-year EBITDA / Revenue, for the EV/EBITDA exit
+  valuationDate?: string | null; // YYYY-MM-DD within projection year 1; absent or null = end of the last actual period
+  midYear?: boolean;      // Discount each year's cash flow from the middle of the year rather than its end
+}
+
+// Inputs of the WACC builder (see lib/wacc). All rates and weights in %.
+export interface WaccInputs {
+  riskFreeRate: number;
+  equityRiskPremium: number;
+  beta: number;
+  betaBasis: 'levered' | 'unlevered';
+  betaDebtWeight: number;  // D / (D + E) the levered beta was observed at; ignored for an unlevered beta
+  costOfDebt: number;      // Pre-tax
+  taxRate: number;
+  debtWeight: number;      // Target D / (D + E)
+}
+
+export interface DCFAssumptions {
+  wacc: number;       // %
+  termGrowth: number; // %
+  netDebt: number;    // $M
+  shares: number;     // M
+  structure?: DCFStructure; // Absent = DEFAULT_DCF_STRUCTURE
+  waccBuilder?: WaccInputs | null; // Set when `wacc` is built from CAPM; absent or null = entered directly
+}
+
+// Projection drivers, one value per forecast year (see lib/drivers)
+export interface DriverSchedule {
+  growth: number[];         // Revenue growth, %
+  netMargin: number[];      // Net Income / Revenue, %
+  capex: number[];          // Net capex / Revenue, %
+  workingCapital: number[]; // Change in working capital / change in Revenue, %
+}
+
+// An analyst's value for one forecast period, replacing the model's (see lib/overrides)
+export interface ForecastOverride {
+  metric: string;
+  year: number; // Period index, as on the chart's X axis
+  value: number;
+  note?: string; // Justification, e.g. "Management guidance, Q3 call"
+}
+
+// One change to the overrides: `previous` / `value` are null when an override was added / cleared
+export interface OverrideLogEntry {
+  at: string; // ISO timestamp
+  analyst: string;
+  metric: string;
+  year: number;
+  previous: number | null;
+  value: number | null;
+  note?: string;
+}
+
+// One company in the workspace: its dataset plus the valuation inputs that belong to it.
+export interface Entity {
+  id: string;
+  name: string;
+  data: FinancialRecord[];
+  synthesizedBudget: string[];
+  assumptions: DCFAssumptions;
+  columnMapping?: Record<string, string>; // Source header -> field, from the last import
+  notes?: string;
+  drivers?: DriverSchedule; // Edited projection drivers; absent = fitted from history
+  overrides?: ForecastOverride[];
+  overrideLog?: OverrideLogEntry[];
+}